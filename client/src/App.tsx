@@ -12,6 +12,12 @@ import IssueDetail from "@/pages/issue-detail";
 import Analytics from "@/pages/analytics";
 import Profile from "@/pages/profile";
 import Settings from "@/pages/settings";
+import AdminSettings from "@/pages/admin-settings";
+import AdminEscalations from "@/pages/admin-escalations";
+import TeamWorkloadPage from "@/pages/team-workload";
+import AssignedIssues from "@/pages/assigned-issues";
+import IssueHistory from "@/pages/issue-history";
+import SearchPage from "@/pages/search";
 import { UserRole } from "@shared/schema";
 
 function Router() {
@@ -22,14 +28,36 @@ function Router() {
       <ProtectedRoute path="/dashboard" component={Dashboard} />
       <ProtectedRoute path="/issues/me" component={Dashboard} />
       <ProtectedRoute path="/issues/new" component={SubmitIssue} />
+      <ProtectedRoute 
+        path="/issues/assigned" 
+        component={AssignedIssues} 
+        allowedRoles={[UserRole.DEPARTMENT]} 
+      />
+      <ProtectedRoute path="/issues/history" component={IssueHistory} />
       <ProtectedRoute path="/issues/:id" component={IssueDetail} />
+      <ProtectedRoute path="/search" component={SearchPage} />
       <ProtectedRoute path="/profile" component={Profile} />
       <ProtectedRoute path="/settings" component={Settings} />
+      <ProtectedRoute 
+        path="/team/workload" 
+        component={TeamWorkloadPage} 
+        allowedRoles={[UserRole.DEPARTMENT, UserRole.ADMIN]} 
+      />
       <ProtectedRoute 
         path="/admin/analytics" 
         component={Analytics} 
         allowedRoles={[UserRole.ADMIN, UserRole.DEPARTMENT]} 
       />
+      <ProtectedRoute 
+        path="/admin/escalations" 
+        component={AdminEscalations} 
+        allowedRoles={[UserRole.ADMIN]} 
+      />
+      <ProtectedRoute 
+        path="/admin/settings" 
+        component={AdminSettings} 
+        allowedRoles={[UserRole.ADMIN]} 
+      />
       <Route component={NotFound} />
     </Switch>
   );
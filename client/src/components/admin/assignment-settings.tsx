@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Loader2, Save } from "lucide-react";
+import {
+  ASSIGNMENT_STRATEGY_LABELS,
+  ActivityWithUser,
+  AssignmentSettings as DepartmentAssignmentSettings,
+  AssignmentStrategy,
+  Department,
+  InsertAssignmentSettings,
+  UserSummary,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const SETTINGS_ENDPOINT = "/api/admin/assignment-settings";
+const AUDIT_ENDPOINT = "/api/admin/auto-assignments";
+
+const STRATEGY_DESCRIPTIONS: Record<AssignmentStrategy, string> = {
+  [AssignmentStrategy.MANUAL]: "New issues stay unassigned until someone picks them up.",
+  [AssignmentStrategy.ROUND_ROBIN]: "New issues go to each available member of staff in turn.",
+  [AssignmentStrategy.LEAST_OPEN]: "New issues go to whoever has the fewest open issues.",
+  [AssignmentStrategy.SKILLS]: "New issues go to whoever has the most skill tags mentioned in the issue, then the fewest open issues.",
+};
+
+// Departments without saved settings come back with updatedAt = null
+type SettingsEntry = Omit<DepartmentAssignmentSettings, "id" | "updatedAt"> & {
+  updatedAt: string | null;
+};
+
+type SettingsDraft = {
+  strategy: AssignmentStrategy;
+  excludedUserIds: number[];
+  skills: Record<number, string>; // comma-separated tags per user
+};
+
+function toDraft(settings: SettingsEntry): SettingsDraft {
+  return {
+    strategy: settings.strategy,
+    excludedUserIds: settings.excludedUserIds,
+    skills: Object.fromEntries(settings.memberSkills.map((member) => [member.userId, member.skills.join(", ")])),
+  };
+}
+
+function fromDraft(draft: SettingsDraft): Omit<InsertAssignmentSettings, "department"> {
+  return {
+    strategy: draft.strategy,
+    excludedUserIds: draft.excludedUserIds,
+    memberSkills: Object.entries(draft.skills)
+      .map(([userId, skills]) => ({
+        userId: Number(userId),
+        skills: skills.split(",").map((skill) => skill.trim()).filter(Boolean),
+      }))
+      .filter((member) => member.skills.length > 0),
+  };
+}
+
+export function AssignmentSettings() {
+  const [department, setDepartment] = useState<Department>(Department.IT);
+  const [draft, setDraft] = useState<SettingsDraft | null>(null);
+
+  const { data: allSettings, isLoading } = useQuery<SettingsEntry[]>({
+    queryKey: [SETTINGS_ENDPOINT],
+  });
+
+  const { data: members, isLoading: membersLoading } = useQuery<UserSummary[]>({
+    queryKey: [`/api/departments/${department}/members`],
+  });
+
+  const { data: autoAssignments } = useQuery<ActivityWithUser[]>({
+    queryKey: [AUDIT_ENDPOINT],
+  });
+
+  const settings = allSettings?.find((entry) => entry.department === department);
+  const departmentAssignments = autoAssignments?.filter((activity) => (activity.details as any).department === department) ?? [];
+
+  useEffect(() => {
+    setDraft(settings ? toDraft(settings) : null);
+  }, [settings]);
+
+  const updateDraft = (changes: Partial<SettingsDraft>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const setExcluded = (userId: number, excluded: boolean) => {
+    if (!draft) return;
+    updateDraft({
+      excludedUserIds: excluded
+        ? [...draft.excludedUserIds, userId]
+        : draft.excludedUserIds.filter((id) => id !== userId),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: Omit<InsertAssignmentSettings, "department">) => {
+      const res = await apiRequest("PUT", `${SETTINGS_ENDPOINT}/${encodeURIComponent(department)}`, values);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Assignment settings saved",
+        description: "New issues in this department will be assigned with the updated settings.",
+      });
+      queryClient.invalidateQueries({ queryKey: [SETTINGS_ENDPOINT] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save assignment settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="p-8 text-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+      </div>
+    );
+  }
+
+  const isAutomatic = draft.strategy !== AssignmentStrategy.MANUAL;
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="space-y-2">
+          <Label>Department</Label>
+          <Select value={department} onValueChange={(value) => setDepartment(value as Department)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(Department).map((dept) => (
+                <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Strategy</Label>
+          <Select value={draft.strategy} onValueChange={(value) => updateDraft({ strategy: value as AssignmentStrategy })}>
+            <SelectTrigger className="w-[240px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(AssignmentStrategy).map((strategy) => (
+                <SelectItem key={strategy} value={strategy}>{ASSIGNMENT_STRATEGY_LABELS[strategy]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">{STRATEGY_DESCRIPTIONS[draft.strategy]}</p>
+
+      {isAutomatic && (
+        <div>
+          <Label>Staff</Label>
+          <div className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+            {membersLoading ? (
+              <div className="p-4 text-center">
+                <Loader2 className="h-5 w-5 animate-spin text-primary mx-auto" />
+              </div>
+            ) : !members || members.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-500">
+                This department has no active staff, so its issues cannot be assigned automatically.
+              </p>
+            ) : (
+              members.map((member) => (
+                <div key={member.id} className="flex flex-col md:flex-row md:items-center gap-2 md:gap-4 px-4 py-2">
+                  <div className="flex items-center gap-4">
+                    <Switch
+                      checked={!draft.excludedUserIds.includes(member.id)}
+                      onCheckedChange={(checked) => setExcluded(member.id, !checked)}
+                    />
+                    <span className="w-48 text-sm font-medium text-gray-900">{member.fullName}</span>
+                  </div>
+                  {draft.strategy === AssignmentStrategy.SKILLS && (
+                    <Input
+                      className="md:flex-1"
+                      placeholder="Skill tags, e.g. vpn, printers, laptops"
+                      value={draft.skills[member.id] ?? ""}
+                      onChange={(e) => updateDraft({ skills: { ...draft.skills, [member.id]: e.target.value } })}
+                    />
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+          <p className="text-sm text-gray-500 mt-2">Switch off staff who should not receive new issues, e.g. while they are on leave.</p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button disabled={saveMutation.isPending} onClick={() => saveMutation.mutate(fromDraft(draft))}>
+          {saveMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save Settings
+        </Button>
+      </div>
+
+      <div>
+        <Label>Recent automatic assignments</Label>
+        <div className="mt-2 overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="px-4 py-3 border-b border-gray-200">Issue</th>
+                <th className="px-4 py-3 border-b border-gray-200">Assigned To</th>
+                <th className="px-4 py-3 border-b border-gray-200">Strategy</th>
+                <th className="px-4 py-3 border-b border-gray-200">Why</th>
+                <th className="px-4 py-3 border-b border-gray-200">When</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {departmentAssignments.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                    No issues in this department have been assigned automatically yet.
+                  </td>
+                </tr>
+              ) : (
+                departmentAssignments.map((activity) => {
+                  const details = activity.details as any;
+                  return (
+                    <tr key={activity.id}>
+                      <td className="px-4 py-3 text-sm">
+                        <Link href={`/issues/${activity.issueId}`}>
+                          <a className="font-medium text-primary hover:underline">#{activity.issueId}</a>
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{details.assigneeName}</td>
+                      <td className="px-4 py-3 text-sm text-gray-500">
+                        {ASSIGNMENT_STRATEGY_LABELS[details.strategy as AssignmentStrategy]}
+                        {details.trigger === "department_changed" && <p className="text-xs">After a department change</p>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500">{details.reason}</td>
+                      <td className="px-4 py-3 text-sm text-gray-500">
+                        {activity.createdAt ? format(new Date(activity.createdAt), "MMM d, h:mm a") : "Unknown"}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  EscalationLevel,
+  EscalationRule,
+  EscalationTarget,
+  InsertEscalationRule,
+  SLAPriority,
+  SLAStatus,
+} from "@shared/schema";
+import { ESCALATION_LEVELS, ESCALATION_LEVEL_LABELS } from "@shared/escalation";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const RULES_ENDPOINT = "/api/admin/escalation-rules";
+
+const ruleFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  priority: z.string(), // "any" or an SLAPriority
+  slaStatus: z.enum([SLAStatus.AT_RISK, SLAStatus.BREACHED]),
+  delayMinutes: z.coerce.number().int().min(0, "Delay cannot be negative"),
+  notify: z.nativeEnum(EscalationTarget),
+  level: z.nativeEnum(EscalationLevel),
+  isEnabled: z.boolean(),
+});
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+const defaultValues: RuleFormValues = {
+  name: "",
+  priority: "any",
+  slaStatus: SLAStatus.BREACHED,
+  delayMinutes: 0,
+  notify: EscalationTarget.DEPARTMENT,
+  level: EscalationLevel.TEAM_LEAD,
+  isEnabled: true,
+};
+
+function describeTrigger(rule: EscalationRule) {
+  const state = rule.slaStatus === SLAStatus.AT_RISK ? "at risk" : "breached";
+  const priority = rule.priority ? `${rule.priority} priority` : "any priority";
+  const delay = rule.delayMinutes > 0 ? ` for ${rule.delayMinutes} min` : "";
+  return `${priority}, SLA ${state}${delay}`;
+}
+
+function showError(title: string) {
+  return (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+}
+
+export function EscalationRules() {
+  const [editingRule, setEditingRule] = useState<EscalationRule | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const { data: rules, isLoading } = useQuery<EscalationRule[]>({
+    queryKey: [RULES_ENDPOINT],
+  });
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues,
+  });
+
+  const openForm = (rule: EscalationRule | null) => {
+    setEditingRule(rule);
+    form.reset(
+      rule
+        ? {
+            name: rule.name,
+            priority: rule.priority ?? "any",
+            slaStatus: rule.slaStatus as SLAStatus.AT_RISK | SLAStatus.BREACHED,
+            delayMinutes: rule.delayMinutes,
+            notify: rule.notify,
+            level: rule.level,
+            isEnabled: rule.isEnabled,
+          }
+        : defaultValues
+    );
+    setIsFormOpen(true);
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (data: InsertEscalationRule) => {
+      const res = editingRule
+        ? await apiRequest("PATCH", `${RULES_ENDPOINT}/${editingRule.id}`, data)
+        : await apiRequest("POST", RULES_ENDPOINT, data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editingRule ? "Rule updated" : "Rule created",
+        description: "Escalation rules are applied on the next SLA check.",
+      });
+      queryClient.invalidateQueries({ queryKey: [RULES_ENDPOINT] });
+      setIsFormOpen(false);
+    },
+    onError: showError("Failed to save rule"),
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, isEnabled }: { id: number; isEnabled: boolean }) => {
+      const res = await apiRequest("PATCH", `${RULES_ENDPOINT}/${id}`, { isEnabled });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [RULES_ENDPOINT] });
+    },
+    onError: showError("Failed to update rule"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${RULES_ENDPOINT}/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Rule deleted" });
+      queryClient.invalidateQueries({ queryKey: [RULES_ENDPOINT] });
+    },
+    onError: showError("Failed to delete rule"),
+  });
+
+  const onSubmit = ({ priority, ...values }: RuleFormValues) => {
+    saveRuleMutation.mutate({
+      ...values,
+      priority: priority === "any" ? null : (priority as SLAPriority),
+    });
+  };
+
+  return (
+    <div className="p-4">
+      <div className="flex justify-end mb-4">
+        <Button onClick={() => openForm(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th className="px-4 py-3 border-b border-gray-200">Rule</th>
+              <th className="px-4 py-3 border-b border-gray-200">Trigger</th>
+              <th className="px-4 py-3 border-b border-gray-200">Escalate To</th>
+              <th className="px-4 py-3 border-b border-gray-200">Notify</th>
+              <th className="px-4 py-3 border-b border-gray-200">Enabled</th>
+              <th className="px-4 py-3 border-b border-gray-200 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                </td>
+              </tr>
+            ) : !rules || rules.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                  No escalation rules. Issues are only escalated manually.
+                </td>
+              </tr>
+            ) : (
+              rules.map((rule) => (
+                <tr key={rule.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{rule.name}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500 capitalize">{describeTrigger(rule)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">{ESCALATION_LEVEL_LABELS[rule.level]}</td>
+                  <td className="px-4 py-3 text-sm text-gray-500">
+                    {rule.notify === EscalationTarget.ADMIN ? "Administrators" : "Department"}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <Switch
+                      checked={rule.isEnabled}
+                      disabled={toggleRuleMutation.isPending}
+                      onCheckedChange={(isEnabled) => toggleRuleMutation.mutate({ id: rule.id, isEnabled })}
+                    />
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right">
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500" onClick={() => openForm(rule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-gray-500"
+                      disabled={deleteRuleMutation.isPending}
+                      onClick={() => deleteRuleMutation.mutate(rule.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Escalation Rule" : "New Escalation Rule"}</DialogTitle>
+            <DialogDescription>
+              Issues matching this rule are escalated automatically by the SLA worker.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Critical issue breached" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="priority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Priority</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="any">Any priority</SelectItem>
+                          <SelectItem value={SLAPriority.CRITICAL}>Critical</SelectItem>
+                          <SelectItem value={SLAPriority.HIGH}>High</SelectItem>
+                          <SelectItem value={SLAPriority.MEDIUM}>Medium</SelectItem>
+                          <SelectItem value={SLAPriority.LOW}>Low</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slaStatus"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>When SLA is</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={SLAStatus.AT_RISK}>At risk</SelectItem>
+                          <SelectItem value={SLAStatus.BREACHED}>Breached</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="delayMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>For (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormDescription>0 escalates immediately</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="notify"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notify</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={EscalationTarget.DEPARTMENT}>Department</SelectItem>
+                          <SelectItem value={EscalationTarget.ADMIN}>Administrators</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="level"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Escalate to</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ESCALATION_LEVELS.map((level) => (
+                          <SelectItem key={level} value={level}>{ESCALATION_LEVEL_LABELS[level]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Issues already escalated to this level or higher are left alone</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="isEnabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <FormLabel>Enabled</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveRuleMutation.isPending}>
+                  {saveRuleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Rule
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CalendarClock, Loader2, Save } from "lucide-react";
+import {
+  Department,
+  SLAPriority,
+  SlaCalendar,
+  SlaCalendarSettings,
+  WeeklySchedule,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const CALENDARS_ENDPOINT = "/api/admin/sla-calendars";
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const DEFAULT_HOURS = { start: "09:00", end: "17:00" };
+
+// Departments without a saved calendar come back with updatedAt = null
+type DepartmentCalendar = Pick<SlaCalendar, "department" | "timeZone" | "workingHours" | "holidays"> & {
+  updatedAt: string | null;
+};
+
+type CalendarPreview = {
+  from: string;
+  dueBy: Partial<Record<SLAPriority, string>>; // Priorities without a policy are left out
+};
+
+type CalendarDraft = {
+  timeZone: string;
+  workingHours: WeeklySchedule;
+  holidays: string; // one YYYY-MM-DD date per line
+};
+
+function toDraft(calendar: DepartmentCalendar): CalendarDraft {
+  return {
+    timeZone: calendar.timeZone,
+    workingHours: calendar.workingHours,
+    holidays: calendar.holidays.join("\n"),
+  };
+}
+
+function fromDraft(draft: CalendarDraft): SlaCalendarSettings {
+  return {
+    timeZone: draft.timeZone.trim(),
+    workingHours: draft.workingHours,
+    holidays: draft.holidays
+      .split(/[\s,]+/)
+      .map((date) => date.trim())
+      .filter(Boolean),
+  };
+}
+
+function showError(title: string) {
+  return (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+}
+
+export function SlaCalendars() {
+  const [department, setDepartment] = useState<Department>(Department.IT);
+  const [draft, setDraft] = useState<CalendarDraft | null>(null);
+  const [preview, setPreview] = useState<CalendarPreview | null>(null);
+
+  const { data: calendars, isLoading } = useQuery<DepartmentCalendar[]>({
+    queryKey: [CALENDARS_ENDPOINT],
+  });
+
+  const calendar = calendars?.find((entry) => entry.department === department);
+
+  useEffect(() => {
+    setDraft(calendar ? toDraft(calendar) : null);
+    setPreview(null);
+  }, [calendar]);
+
+  const updateDraft = (changes: Partial<CalendarDraft>) => {
+    setDraft((current) => (current ? { ...current, ...changes } : current));
+    setPreview(null);
+  };
+
+  const updateDay = (weekday: number, hours: WeeklySchedule[number]) => {
+    if (!draft) return;
+    updateDraft({
+      workingHours: draft.workingHours.map((day, index) => (index === weekday ? hours : day)),
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (settings: SlaCalendarSettings) => {
+      const res = await apiRequest("POST", `${CALENDARS_ENDPOINT}/preview`, { ...settings, department });
+      return (await res.json()) as CalendarPreview;
+    },
+    onSuccess: setPreview,
+    onError: showError("Failed to preview calendar"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: SlaCalendarSettings) => {
+      const res = await apiRequest("PUT", `${CALENDARS_ENDPOINT}/${encodeURIComponent(department)}`, settings);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Calendar saved",
+        description: "New issues in this department will use the updated working hours.",
+      });
+      queryClient.invalidateQueries({ queryKey: [CALENDARS_ENDPOINT] });
+    },
+    onError: showError("Failed to save calendar"),
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="p-8 text-center">
+        <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="space-y-2">
+          <Label>Department</Label>
+          <Select value={department} onValueChange={(value) => setDepartment(value as Department)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(Department).map((dept) => (
+                <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sla-time-zone">Time zone</Label>
+          <Input
+            id="sla-time-zone"
+            className="w-[240px]"
+            placeholder="Europe/London"
+            value={draft.timeZone}
+            onChange={(e) => updateDraft({ timeZone: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {!calendar?.updatedAt && (
+        <p className="text-sm text-gray-500">
+          No calendar saved for this department yet; SLA timers currently run around the clock.
+        </p>
+      )}
+
+      <div>
+        <Label>Working hours</Label>
+        <div className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+          {WEEKDAYS.map((name, weekday) => {
+            const hours = draft.workingHours[weekday];
+            return (
+              <div key={name} className="flex items-center gap-4 px-4 py-2">
+                <Switch
+                  checked={hours !== null}
+                  onCheckedChange={(checked) => updateDay(weekday, checked ? DEFAULT_HOURS : null)}
+                />
+                <span className="w-28 text-sm font-medium text-gray-900">{name}</span>
+                {hours ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      className="w-[130px]"
+                      value={hours.start}
+                      onChange={(e) => updateDay(weekday, { ...hours, start: e.target.value })}
+                    />
+                    <span className="text-sm text-gray-500">to</span>
+                    <Input
+                      type="time"
+                      className="w-[130px]"
+                      value={hours.end === "24:00" ? "23:59" : hours.end}
+                      onChange={(e) => updateDay(weekday, { ...hours, end: e.target.value })}
+                    />
+                  </div>
+                ) : (
+                  <span className="text-sm text-gray-500">Closed</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="sla-holidays">Holidays</Label>
+        <Textarea
+          id="sla-holidays"
+          rows={4}
+          placeholder={"2025-12-25\n2026-01-01"}
+          value={draft.holidays}
+          onChange={(e) => updateDraft({ holidays: e.target.value })}
+        />
+        <p className="text-sm text-gray-500">One date per line (YYYY-MM-DD). SLA timers pause for the whole day.</p>
+      </div>
+
+      {preview && (
+        <div className="rounded-md border border-gray-200 bg-white p-4">
+          <p className="text-sm text-gray-500 mb-2">
+            An issue raised {format(new Date(preview.from), "EEE MMM d, h:mm a")} would be due:
+          </p>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {Object.values(SLAPriority).map((priority) => {
+              const dueBy = preview.dueBy[priority];
+              return dueBy && (
+                <div key={priority} className="contents">
+                  <dt className="capitalize text-gray-500">{priority}</dt>
+                  <dd className="text-gray-900">{format(new Date(dueBy), "EEE MMM d, h:mm a")}</dd>
+                </div>
+              );
+            })}
+          </dl>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          disabled={previewMutation.isPending}
+          onClick={() => previewMutation.mutate(fromDraft(draft))}
+        >
+          {previewMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <CalendarClock className="mr-2 h-4 w-4" />
+          )}
+          Preview Due Dates
+        </Button>
+        <Button disabled={saveMutation.isPending} onClick={() => saveMutation.mutate(fromDraft(draft))}>
+          {saveMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save Calendar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Save } from "lucide-react";
+import { Department, ReopenSlaBehavior, SLAPriority, SlaPolicy } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const POLICIES_ENDPOINT = "/api/admin/sla-policies";
+
+// Most urgent first, as in the rest of the SLA settings
+const PRIORITIES = [SLAPriority.CRITICAL, SLAPriority.HIGH, SLAPriority.MEDIUM, SLAPriority.LOW];
+
+// Targets as typed in the form: response in minutes, resolution in hours
+type TargetDraft = { response: string; resolution: string; reopenBehavior: ReopenSlaBehavior };
+
+function toDraft(policy: SlaPolicy): TargetDraft {
+  return {
+    response: String(policy.responseMinutes),
+    resolution: String(policy.resolutionMinutes / 60),
+    reopenBehavior: policy.reopenBehavior,
+  };
+}
+
+function PolicyRow({ policy }: { policy: SlaPolicy }) {
+  const [draft, setDraft] = useState<TargetDraft>(() => toDraft(policy));
+
+  useEffect(() => {
+    setDraft(toDraft(policy));
+  }, [policy]);
+
+  const responseMinutes = Number(draft.response);
+  const resolutionMinutes = Math.round(Number(draft.resolution) * 60);
+  const isChanged =
+    responseMinutes !== policy.responseMinutes ||
+    resolutionMinutes !== policy.resolutionMinutes ||
+    draft.reopenBehavior !== policy.reopenBehavior;
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(
+        "PUT",
+        `${POLICIES_ENDPOINT}/${encodeURIComponent(policy.department)}/${policy.priority}`,
+        { responseMinutes, resolutionMinutes, reopenBehavior: draft.reopenBehavior }
+      );
+      return (await res.json()) as SlaPolicy;
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: `Policy saved as version ${saved.version}`,
+        description: "Existing issues keep the targets they were created under.",
+      });
+      queryClient.invalidateQueries({ queryKey: [POLICIES_ENDPOINT] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <tr className="hover:bg-gray-50">
+      <td className="px-4 py-3 text-sm font-medium text-gray-900 capitalize">{policy.priority}</td>
+      <td className="px-4 py-3 text-sm">
+        <Input
+          type="number"
+          min={1}
+          className="w-[120px]"
+          value={draft.response}
+          onChange={(e) => setDraft({ ...draft, response: e.target.value })}
+        />
+      </td>
+      <td className="px-4 py-3 text-sm">
+        <Input
+          type="number"
+          min={0.25}
+          step={0.25}
+          className="w-[120px]"
+          value={draft.resolution}
+          onChange={(e) => setDraft({ ...draft, resolution: e.target.value })}
+        />
+      </td>
+      <td className="px-4 py-3 text-sm">
+        <Select
+          value={draft.reopenBehavior}
+          onValueChange={(value) => setDraft({ ...draft, reopenBehavior: value as ReopenSlaBehavior })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ReopenSlaBehavior.EXTEND}>Extend by wait</SelectItem>
+            <SelectItem value={ReopenSlaBehavior.RESET}>Restart target</SelectItem>
+          </SelectContent>
+        </Select>
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        v{policy.version}
+        {policy.createdAt && ` · ${format(new Date(policy.createdAt), "MMM d, yyyy")}`}
+      </td>
+      <td className="px-4 py-3 text-sm text-right">
+        <Button
+          size="sm"
+          disabled={!isChanged || savePolicyMutation.isPending}
+          onClick={() => savePolicyMutation.mutate()}
+        >
+          {savePolicyMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save
+        </Button>
+      </td>
+    </tr>
+  );
+}
+
+export function SlaPolicies() {
+  const [department, setDepartment] = useState<Department>(Department.IT);
+
+  const { data: policies, isLoading } = useQuery<SlaPolicy[]>({
+    queryKey: [POLICIES_ENDPOINT],
+  });
+
+  const departmentPolicies = PRIORITIES
+    .map((priority) => policies?.find((policy) => policy.department === department && policy.priority === priority))
+    .filter((policy): policy is SlaPolicy => !!policy);
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="space-y-2">
+        <Label>Department</Label>
+        <Select value={department} onValueChange={(value) => setDepartment(value as Department)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(Department).map((dept) => (
+              <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              <th className="px-4 py-3 border-b border-gray-200">Priority</th>
+              <th className="px-4 py-3 border-b border-gray-200">First Response (minutes)</th>
+              <th className="px-4 py-3 border-b border-gray-200">Resolution (hours)</th>
+              <th className="px-4 py-3 border-b border-gray-200">On Reopen</th>
+              <th className="px-4 py-3 border-b border-gray-200">Version</th>
+              <th className="px-4 py-3 border-b border-gray-200 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                </td>
+              </tr>
+            ) : departmentPolicies.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-500">
+                  No SLA policies for this department.
+                </td>
+              </tr>
+            ) : (
+              departmentPolicies.map((policy) => <PolicyRow key={policy.id} policy={policy} />)
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Targets count working time in the department's SLA calendar. When a reporter rejects a resolution, the
+        issue is reopened and its resolution SLA is either extended by the time spent awaiting verification or
+        restarted with the full target.
+      </p>
+    </div>
+  );
+}
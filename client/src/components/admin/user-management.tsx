@@ -0,0 +1,490 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, MoreHorizontal, Search } from "lucide-react";
+import { Department, ManagedUser, UserRole } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type UserAction = "role" | "status" | "reset-password" | "delete";
+
+// All admin user queries share this prefix so one invalidation refreshes every filter combination
+const USERS_ENDPOINT = "/api/admin/users";
+
+function invalidateUsers() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith(USERS_ENDPOINT),
+  });
+}
+
+function showError(title: string) {
+  return (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+}
+
+export function UserManagement() {
+  const { user: currentUser } = useAuth();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [roleFilter, setRoleFilter] = useState<string>("all");
+  const [departmentFilter, setDepartmentFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+
+  const [selectedUser, setSelectedUser] = useState<ManagedUser | null>(null);
+  const [action, setAction] = useState<UserAction | null>(null);
+  const [role, setRole] = useState<UserRole>(UserRole.EMPLOYEE);
+  const [department, setDepartment] = useState<Department>(Department.IT);
+  const [reason, setReason] = useState("");
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
+
+  const params = new URLSearchParams();
+  if (searchQuery.trim()) params.set("q", searchQuery.trim());
+  if (roleFilter !== "all") params.set("role", roleFilter);
+  if (departmentFilter !== "all") params.set("department", departmentFilter);
+  if (statusFilter !== "all") params.set("status", statusFilter);
+  const queryString = params.toString();
+
+  const { data: users, isLoading } = useQuery<ManagedUser[]>({
+    queryKey: [queryString ? `${USERS_ENDPOINT}?${queryString}` : USERS_ENDPOINT],
+  });
+
+  const openAction = (user: ManagedUser, nextAction: UserAction) => {
+    setSelectedUser(user);
+    setAction(nextAction);
+    setRole(user.role);
+    setDepartment(user.department);
+    setReason("");
+  };
+
+  const closeAction = () => {
+    setAction(null);
+    setSelectedUser(null);
+  };
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `${USERS_ENDPOINT}/${selectedUser!.id}/role`, {
+        role,
+        department,
+        reason: reason.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "User updated",
+        description: `${selectedUser?.fullName} is now ${role} in ${department}.`,
+      });
+      invalidateUsers();
+      closeAction();
+    },
+    onError: showError("Failed to update user"),
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `${USERS_ENDPOINT}/${selectedUser!.id}/status`, {
+        isActive: !selectedUser!.isActive,
+        reason: reason.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: selectedUser?.isActive ? "User deactivated" : "User reactivated",
+        description: selectedUser?.isActive
+          ? `${selectedUser?.fullName} can no longer sign in.`
+          : `${selectedUser?.fullName} can sign in again.`,
+      });
+      invalidateUsers();
+      closeAction();
+    },
+    onError: showError("Failed to update account status"),
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${USERS_ENDPOINT}/${selectedUser!.id}/reset-password`);
+      return await res.json() as { temporaryPassword: string; revokedSessions: number };
+    },
+    onSuccess: (data) => {
+      setTemporaryPassword(data.temporaryPassword);
+      closeAction();
+    },
+    onError: showError("Failed to reset password"),
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `${USERS_ENDPOINT}/${selectedUser!.id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "User deleted",
+        description: `${selectedUser?.fullName}'s account has been removed.`,
+      });
+      invalidateUsers();
+      closeAction();
+    },
+    onError: showError("Failed to delete user"),
+  });
+
+  return (
+    <div>
+      <div className="p-4">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center mb-4 space-y-2 md:space-y-0">
+          <div className="flex flex-wrap gap-2">
+            <Select value={roleFilter} onValueChange={setRoleFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="All Roles" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Roles</SelectItem>
+                <SelectItem value={UserRole.EMPLOYEE}>Employee</SelectItem>
+                <SelectItem value={UserRole.DEPARTMENT}>Department Staff</SelectItem>
+                <SelectItem value={UserRole.ADMIN}>Admin</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="All Departments" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Departments</SelectItem>
+                {Object.values(Department).map((dept) => (
+                  <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="All Accounts" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Accounts</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="inactive">Deactivated</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              type="text"
+              placeholder="Search users..."
+              className="pl-9"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full bg-white">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="px-4 py-3 border-b border-gray-200">User</th>
+                <th className="px-4 py-3 border-b border-gray-200">Role</th>
+                <th className="px-4 py-3 border-b border-gray-200">Department</th>
+                <th className="px-4 py-3 border-b border-gray-200">Open Issues</th>
+                <th className="px-4 py-3 border-b border-gray-200">Status</th>
+                <th className="px-4 py-3 border-b border-gray-200">Joined</th>
+                <th className="px-4 py-3 border-b border-gray-200 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                  </td>
+                </tr>
+              ) : !users || users.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                    No users found. Try adjusting your filters.
+                  </td>
+                </tr>
+              ) : (
+                users.map((user) => (
+                  <tr key={user.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{user.fullName}</div>
+                      <div className="text-xs text-gray-500">
+                        {user.username} · {user.email}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 capitalize">{user.role}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">{user.department}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      <div>{user.openIssues.reported} reported</div>
+                      {user.role !== UserRole.EMPLOYEE && (
+                        <div>{user.openIssues.assigned} assigned</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {user.isActive ? (
+                        <Badge variant="outline" className="bg-green-100 text-green-800 border-transparent">Active</Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-gray-100 text-gray-800 border-transparent">Deactivated</Badge>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {user.createdAt ? format(new Date(user.createdAt), "MMM d, yyyy") : "Unknown"}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-500">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => openAction(user, "reset-password")}>
+                            Reset Password
+                          </DropdownMenuItem>
+                          {/* Admins cannot lock themselves out */}
+                          {user.id !== currentUser?.id && (
+                            <>
+                              <DropdownMenuItem onClick={() => openAction(user, "role")}>
+                                Change Role / Department
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => openAction(user, "status")}>
+                                {user.isActive ? "Deactivate Account" : "Reactivate Account"}
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={() => openAction(user, "delete")}
+                              >
+                                Delete Account
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Change role and department */}
+      <Dialog open={action === "role"} onOpenChange={(open) => !open && closeAction()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Role</DialogTitle>
+            <DialogDescription>
+              Update the role and department of {selectedUser?.fullName}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UserRole.EMPLOYEE}>Employee</SelectItem>
+                  <SelectItem value={UserRole.DEPARTMENT}>Department Staff</SelectItem>
+                  <SelectItem value={UserRole.ADMIN}>Admin</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={department} onValueChange={(value) => setDepartment(value as Department)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(Department).map((dept) => (
+                    <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role-reason">Reason (optional)</Label>
+              <Textarea
+                id="role-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeAction}>
+              Cancel
+            </Button>
+            <Button
+              disabled={
+                updateRoleMutation.isPending ||
+                (role === selectedUser?.role && department === selectedUser?.department)
+              }
+              onClick={() => updateRoleMutation.mutate()}
+            >
+              {updateRoleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Deactivate or reactivate */}
+      <Dialog open={action === "status"} onOpenChange={(open) => !open && closeAction()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {selectedUser?.isActive ? "Deactivate Account" : "Reactivate Account"}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedUser?.isActive
+                ? `${selectedUser?.fullName} will be signed out everywhere and will not be able to sign in until reactivated.`
+                : `${selectedUser?.fullName} will be able to sign in again.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="status-reason">Reason (optional)</Label>
+            <Textarea
+              id="status-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeAction}>
+              Cancel
+            </Button>
+            <Button
+              variant={selectedUser?.isActive ? "destructive" : "default"}
+              disabled={updateStatusMutation.isPending}
+              onClick={() => updateStatusMutation.mutate()}
+            >
+              {updateStatusMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {selectedUser?.isActive ? "Deactivate" : "Reactivate"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset password confirmation */}
+      <AlertDialog open={action === "reset-password"} onOpenChange={(open) => !open && closeAction()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset Password</AlertDialogTitle>
+            <AlertDialogDescription>
+              A temporary password will be generated for {selectedUser?.fullName} and all of their
+              sessions will be signed out.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={resetPasswordMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                resetPasswordMutation.mutate();
+              }}
+            >
+              {resetPasswordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Reset Password
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* The temporary password is only available once */}
+      <Dialog open={temporaryPassword !== null} onOpenChange={(open) => !open && setTemporaryPassword(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Temporary Password</DialogTitle>
+            <DialogDescription>
+              Share this password with the user securely. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <Input readOnly value={temporaryPassword ?? ""} className="font-mono" onFocus={(e) => e.target.select()} />
+          <DialogFooter>
+            <Button onClick={() => setTemporaryPassword(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={action === "delete"} onOpenChange={(open) => !open && closeAction()}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Account</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes {selectedUser?.fullName}'s account. Users who have reported or
+              been assigned issues cannot be deleted; deactivate them instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={deleteUserMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                deleteUserMutation.mutate();
+              }}
+            >
+              {deleteUserMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
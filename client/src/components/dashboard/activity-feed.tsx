@@ -1,13 +1,17 @@
 import { useEffect, useState } from "react";
-import { Activity, Issue } from "@shared/schema";
+import { EscalationLevel, RecentActivity } from "@shared/schema";
+import { ESCALATION_LEVEL_LABELS } from "@shared/escalation";
 import { useQuery } from "@tanstack/react-query";
 import { 
   AlertTriangle, 
+  ArrowDownCircle, 
   Check, 
   CircleAlert, 
   Clock, 
   MessagesSquare, 
   Plus, 
+  RotateCcw, 
+  ShieldAlert, 
   UserCircle2 
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
@@ -15,13 +19,11 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 
 interface ActivityItemProps {
-  activity: Activity;
-  issues: Issue[];
+  activity: RecentActivity;
 }
 
-function ActivityItem({ activity, issues }: ActivityItemProps) {
-  const issue = issues.find(i => i.id === activity.issueId);
-  const issueTitle = issue ? issue.title : `Issue #${activity.issueId}`;
+function ActivityItem({ activity }: ActivityItemProps) {
+  const issueTitle = activity.issueTitle ?? `Issue #${activity.issueId}`;
   
   const getActivityIcon = () => {
     switch (activity.action) {
@@ -30,11 +32,32 @@ function ActivityItem({ activity, issues }: ActivityItemProps) {
       case "updated_status":
         return <Check className="text-success" />;
       case "assigned":
+      case "unassigned":
+      case "auto_assigned":
         return <UserCircle2 className="text-primary" />;
       case "escalated":
         return <AlertTriangle className="text-danger" />;
+      case "deescalated":
+        return <ArrowDownCircle className="text-primary" />;
+      case "department_action":
+        return <ShieldAlert className="text-danger" />;
+      case "department_action_acknowledged":
+        return <Check className="text-primary" />;
       case "commented":
         return <MessagesSquare className="text-secondary" />;
+      case "reopened":
+        return <RotateCcw className="text-yellow-500" />;
+      case "auto_close_notice":
+        return <Clock className="text-yellow-500" />;
+      case "auto_verified":
+      case "auto_closed":
+        return <Check className="text-gray-500" />;
+      case "sla_at_risk":
+      case "response_sla_at_risk":
+        return <CircleAlert className="text-yellow-500" />;
+      case "sla_breached":
+      case "response_sla_breached":
+        return <CircleAlert className="text-red-500" />;
       default:
         return <Clock className="text-primary" />;
     }
@@ -49,11 +72,41 @@ function ActivityItem({ activity, issues }: ActivityItemProps) {
       case "updated_status":
         return `updated status of ${issueTitle} from ${details.fromStatus} to ${details.toStatus}`;
       case "assigned":
-        return `assigned issue ${issueTitle}`;
+        return details.assigneeName
+          ? `assigned issue ${issueTitle} to ${details.assigneeName}`
+          : `assigned issue ${issueTitle}`;
+      case "unassigned":
+        return `unassigned issue ${issueTitle}`;
+      case "auto_assigned":
+        return `assigned issue ${issueTitle} to ${details.assigneeName} automatically`;
       case "escalated":
-        return `escalated issue ${issueTitle} due to ${details.reason}`;
+        return details.level
+          ? `escalated issue ${issueTitle} to ${ESCALATION_LEVEL_LABELS[details.level as EscalationLevel].toLowerCase()} due to ${details.reason}`
+          : `escalated issue ${issueTitle} due to ${details.reason}`;
+      case "deescalated":
+        return `de-escalated issue ${issueTitle} back to ${details.toStatus}`;
+      case "department_action":
+        return `directed the ${details.department} department on ${issueTitle}: ${details.instruction}`;
+      case "department_action_acknowledged":
+        return `acknowledged the instruction on ${issueTitle}`;
       case "commented":
         return `commented on issue ${issueTitle}`;
+      case "reopened":
+        return `reopened ${issueTitle} after its resolution was rejected`;
+      case "auto_close_notice":
+        return `${issueTitle} will be closed automatically unless the reporter responds`;
+      case "auto_verified":
+        return `verified ${issueTitle} automatically`;
+      case "auto_closed":
+        return `closed ${issueTitle} automatically`;
+      case "sla_at_risk":
+        return `SLA of ${issueTitle} is at risk`;
+      case "sla_breached":
+        return `SLA of ${issueTitle} was breached`;
+      case "response_sla_at_risk":
+        return `First response to ${issueTitle} is at risk`;
+      case "response_sla_breached":
+        return `First response to ${issueTitle} is overdue`;
       default:
         return `performed action on ${issueTitle}`;
     }
@@ -78,7 +131,7 @@ function ActivityItem({ activity, issues }: ActivityItemProps) {
       </div>
       <div>
         <p className="text-sm">
-          <span className="font-medium">User {activity.userId}</span>{" "}
+          <span className="font-medium">{activity.userId === null ? "System" : activity.user?.fullName ?? `User #${activity.userId}`}</span>{" "}
           <span className="text-gray-500">{getActivityDescription()}</span>
         </p>
         <p className="text-xs text-gray-500">{getTimestamp()}</p>
@@ -88,16 +141,10 @@ function ActivityItem({ activity, issues }: ActivityItemProps) {
 }
 
 export function ActivityFeed() {
-  const { data: activities, isLoading: activitiesLoading } = useQuery<Activity[]>({
+  const { data: activities, isLoading } = useQuery<RecentActivity[]>({
     queryKey: ["/api/activities/recent"],
   });
   
-  const { data: issues, isLoading: issuesLoading } = useQuery<Issue[]>({
-    queryKey: ["/api/issues/me"],
-  });
-  
-  const isLoading = activitiesLoading || issuesLoading;
-  
   if (isLoading) {
     return (
       <div className="bg-white rounded-lg shadow-sm">
@@ -121,7 +168,7 @@ export function ActivityFeed() {
     );
   }
   
-  if (!activities || !issues || activities.length === 0) {
+  if (!activities || activities.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow-sm">
         <div className="p-4 border-b border-gray-200">
@@ -147,7 +194,6 @@ export function ActivityFeed() {
             <ActivityItem 
               key={activity.id} 
               activity={activity} 
-              issues={issues} 
             />
           ))}
         </div>
@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { ShieldAlert } from "lucide-react";
+import { DepartmentAction } from "@shared/schema";
+
+// Instructions from the administrators that the department has not acknowledged yet
+export function DepartmentActionsAlert() {
+  const { data: actions } = useQuery<DepartmentAction[]>({
+    queryKey: ["/api/department-actions/pending"],
+  });
+
+  if (!actions || actions.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg shadow-sm p-4 mb-6">
+      <div className="flex items-center gap-2 mb-2">
+        <ShieldAlert className="h-5 w-5 text-amber-600" />
+        <h3 className="font-medium text-gray-900">
+          {actions.length === 1 ? "1 instruction needs" : `${actions.length} instructions need`} acknowledging
+        </h3>
+      </div>
+      <ul className="space-y-1">
+        {actions.map((action) => (
+          <li key={action.id} className="text-sm">
+            <Link href={`/issues/${action.issueId}`}>
+              <a className="text-primary hover:underline">Issue #{action.issueId}</a>
+            </Link>
+            <span className="text-gray-700">: {action.instruction}</span>
+            <span className={new Date(action.deadline) < new Date() ? "text-red-600 font-medium" : "text-gray-500"}>
+              {" "}(due {format(new Date(action.deadline), "MMM d, h:mm a")})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
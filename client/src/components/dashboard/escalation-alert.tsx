@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { IssueWithUsers } from "@shared/schema";
+import { ESCALATION_LEVEL_LABELS, getCurrentEscalation } from "@shared/escalation";
+
+// Issues that an escalation rule raised and asked the user's audience to act on,
+// until they are de-escalated
+export function EscalationAlert() {
+  const { data: issues } = useQuery<IssueWithUsers[]>({
+    queryKey: ["/api/escalations/alerts"],
+  });
+
+  if (!issues || issues.length === 0) return null;
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-lg shadow-sm p-4 mb-6">
+      <div className="flex items-center gap-2 mb-2">
+        <AlertTriangle className="h-5 w-5 text-red-600" />
+        <h3 className="font-medium text-gray-900">
+          {issues.length === 1 ? "1 escalated issue needs" : `${issues.length} escalated issues need`} your attention
+        </h3>
+      </div>
+      <ul className="space-y-1">
+        {issues.map((issue) => {
+          const escalation = getCurrentEscalation(issue)!;
+          return (
+            <li key={issue.id} className="text-sm">
+              <Link href={`/issues/${issue.id}`}>
+                <a className="text-primary hover:underline">#{issue.id} {issue.title}</a>
+              </Link>
+              <span className="text-gray-700">: {ESCALATION_LEVEL_LABELS[escalation.level]}, {escalation.reason}</span>
+              <span className="text-gray-500">
+                {" "}({formatDistanceToNow(new Date(escalation.escalatedAt))} ago)
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
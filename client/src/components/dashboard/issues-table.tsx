@@ -1,9 +1,13 @@
-import React, { useState } from "react";
-import { Issue, IssueStatus, Department, UserRole } from "@shared/schema";
+import React, { ReactNode, useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { IssuePage, IssueSortField, IssueWithUsers, IssueStatus, Department, SLAPriority, SLAStatus, UserRole } from "@shared/schema";
+import { getAvailableTransitions, WorkflowInput, WorkflowTransition } from "@shared/workflow";
+import { getEscalationLevels, getNextEscalationLevel, ESCALATION_LEVEL_LABELS } from "@shared/escalation";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { SLAIndicator } from "@/components/ui/sla-indicator";
+import { StatusTransitionDialog } from "@/components/ui/status-transition-dialog";
 import { format } from "date-fns";
-import { MoreHorizontal, Search } from "lucide-react";
+import { ArrowDown, ArrowUp, Loader2, MoreHorizontal, Search } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,107 +23,192 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Link } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import {
   Pagination,
   PaginationContent,
   PaginationItem,
-  PaginationLink,
   PaginationNext,
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { useAuth } from "@/hooks/use-auth";
 
+// Query string parameters the table keeps in the URL and passes to the API
+const QUERY_KEYS = ["status", "department", "priority", "slaStatus", "assigneeId", "reporterId", "q", "from", "to", "sort", "order", "cursor"] as const;
+
+export type StatusOption = {
+  label: string;
+  value: string; // Comma-separated statuses; "all" for no filter
+};
+
+export type SortOption = { label: string; value: IssueSortField };
+
+const STATUS_OPTIONS: StatusOption[] = [
+  { label: "All Statuses", value: "all" },
+  { label: "Open", value: IssueStatus.OPEN },
+  { label: "In Progress", value: IssueStatus.IN_PROGRESS },
+  { label: "Pending", value: IssueStatus.PENDING },
+  { label: "Completed", value: IssueStatus.COMPLETED },
+  { label: "Verified", value: IssueStatus.VERIFIED },
+  { label: "Rejected", value: IssueStatus.REJECTED },
+  { label: "Closed", value: IssueStatus.CLOSED },
+  { label: "Escalated", value: IssueStatus.ESCALATED },
+];
+
+const SORT_OPTIONS: SortOption[] = [
+  { label: "Last updated", value: "updatedAt" },
+  { label: "Created", value: "createdAt" },
+  { label: "Priority", value: "priority" },
+  { label: "Due date", value: "dueBy" },
+];
+
 interface IssuesTableProps {
-  issues: Issue[];
-  onStatusChange?: (issueId: number, status: IssueStatus) => void;
+  endpoint?: string;
+  onStatusChange?: (issueId: number, status: IssueStatus, input?: WorkflowInput) => void;
   limit?: number;
+  statusTabs?: StatusOption[]; // Shortcuts shown above the filters
+  statusOptions?: StatusOption[];
+  defaultStatus?: string; // Used while the URL has no status
+  sortOptions?: SortOption[];
+  defaultSort?: IssueSortField;
+  showAssigneeFilter?: boolean;
+  dateColumn?: { label: string; field: "updatedAt" | "resolvedAt" }; // Shown after Created
+  extraColumn?: { label: string; render: (issue: IssueWithUsers) => ReactNode };
+  emptyMessage?: string;
 }
 
-export function IssuesTable({ issues, onStatusChange, limit = 5 }: IssuesTableProps) {
+// Issue list filtered, sorted and paged by the server. Everything the user
+// picks lives in the page's query string, so reloading or going back to the
+// page shows the same issues.
+export function IssuesTable({
+  endpoint = "/api/issues/me",
+  onStatusChange,
+  limit = 5,
+  statusTabs,
+  statusOptions = STATUS_OPTIONS,
+  defaultStatus = "all",
+  sortOptions = SORT_OPTIONS,
+  defaultSort = "updatedAt",
+  showAssigneeFilter = true,
+  dateColumn,
+  extraColumn,
+  emptyMessage = "No issues found. Try adjusting your filters.",
+}: IssuesTableProps) {
   const { user } = useAuth();
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [departmentFilter, setDepartmentFilter] = useState<string>("all");
-  const [searchQuery, setSearchQuery] = useState("");
-  const [currentPage, setCurrentPage] = useState(1);
-  
-  const filteredIssues = issues.filter((issue) => {
-    const matchesStatus = statusFilter === "all" || issue.status === statusFilter;
-    const matchesDepartment = departmentFilter === "all" || issue.department === departmentFilter;
-    const matchesSearch = 
-      issue.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      issue.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      `#${issue.id}`.includes(searchQuery);
-    
-    return matchesStatus && matchesDepartment && matchesSearch;
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const [pendingTransition, setPendingTransition] = useState<{ issue: IssueWithUsers, transition: WorkflowTransition } | null>(null);
+
+  const urlParams = new URLSearchParams(search);
+  const getParam = (key: typeof QUERY_KEYS[number]) => urlParams.get(key) ?? "";
+  const statusFilter = getParam("status") || defaultStatus;
+  const departmentFilter = getParam("department") || "all";
+  const priorityFilter = getParam("priority") || "all";
+  const assigneeFilter = getParam("assigneeId") || "all";
+  const sort = (getParam("sort") || defaultSort) as IssueSortField;
+  const order = getParam("order") === "asc" ? "asc" : "desc";
+
+  // Replace some parameters in the URL; "" removes one. Any change other than
+  // paging starts again from the first page.
+  const updateQuery = useCallback((changes: Partial<Record<typeof QUERY_KEYS[number], string>>) => {
+    const next = new URLSearchParams(search);
+    if (!("cursor" in changes)) next.delete("cursor");
+    for (const [key, value] of Object.entries(changes)) {
+      if (!value) next.delete(key);
+      else next.set(key, value);
+    }
+    const queryString = next.toString();
+    navigate(queryString ? `${location}?${queryString}` : location, { replace: true });
+  }, [search, location, navigate]);
+
+  // The search box updates the URL once typing pauses, and follows the URL when
+  // it changes some other way, e.g. going back or following a link
+  const urlQuery = getParam("q");
+  const [searchQuery, setSearchQuery] = useState(urlQuery);
+  useEffect(() => {
+    setSearchQuery((current) => (current.trim() === urlQuery ? current : urlQuery));
+  }, [urlQuery]);
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchQuery.trim() !== urlQuery) updateQuery({ q: searchQuery.trim() });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, urlQuery, updateQuery]);
+
+  // Values equal to the default are left out of the URL
+  const setFilter = (key: typeof QUERY_KEYS[number], value: string, defaultValue = "all") =>
+    updateQuery({ [key]: value === defaultValue ? "" : value });
+
+  // The status and sort are always sent, as their defaults differ between lists.
+  // Dates in the URL are whole days in the browser's time zone.
+  const params: Record<string, string> = { pageSize: String(limit), sort };
+  if (statusFilter !== "all") params.status = statusFilter;
+  for (const key of QUERY_KEYS) {
+    const value = getParam(key);
+    if (!value || key === "status" || key === "sort") continue;
+    if (key === "from") params.from = new Date(`${value}T00:00:00`).toISOString();
+    else if (key === "to") params.to = new Date(`${value}T23:59:59.999`).toISOString();
+    else params[key] = value;
+  }
+
+  const { data, isLoading, error } = useQuery<IssuePage>({
+    queryKey: [endpoint, params],
   });
-  
-  const totalPages = Math.ceil(filteredIssues.length / limit);
-  const startIndex = (currentPage - 1) * limit;
-  const paginatedIssues = filteredIssues.slice(startIndex, startIndex + limit);
+
+  const issues = data?.issues ?? [];
+  const columnCount = 9 + (extraColumn ? 1 : 0) + (dateColumn ? 1 : 0);
+
+  // Transitions that need more input go through the dialog first
+  const handleTransition = (issue: IssueWithUsers, transition: WorkflowTransition) => {
+    if (transition.requiredFields || transition.showsResolution) {
+      setPendingTransition({ issue, transition });
+    } else {
+      onStatusChange?.(issue.id, transition.to);
+    }
+  };
   
   return (
     <div className="bg-white rounded-lg shadow-sm">
-      <div className="border-b border-gray-200">
-        <nav className="flex -mb-px">
-          <button
-            className={`px-6 py-3 border-b-2 font-medium ${
-              statusFilter === "all"
-                ? "border-primary text-primary"
-                : "border-transparent text-gray-500 hover:text-gray-700"
-            }`}
-            onClick={() => setStatusFilter("all")}
-          >
-            All Issues
-          </button>
-          <button
-            className={`px-6 py-3 border-b-2 font-medium ${
-              statusFilter === IssueStatus.OPEN
-                ? "border-primary text-primary"
-                : "border-transparent text-gray-500 hover:text-gray-700"
-            }`}
-            onClick={() => setStatusFilter(IssueStatus.OPEN)}
-          >
-            Open
-          </button>
-          <button
-            className={`px-6 py-3 border-b-2 font-medium ${
-              statusFilter === IssueStatus.IN_PROGRESS
-                ? "border-primary text-primary"
-                : "border-transparent text-gray-500 hover:text-gray-700"
-            }`}
-            onClick={() => setStatusFilter(IssueStatus.IN_PROGRESS)}
-          >
-            In Progress
-          </button>
-        </nav>
-      </div>
+      {statusTabs && (
+        <div className="border-b border-gray-200">
+          <nav className="flex -mb-px">
+            {statusTabs.map((tab) => (
+              <button
+                key={tab.value}
+                className={`px-6 py-3 border-b-2 font-medium ${
+                  statusFilter === tab.value
+                    ? "border-primary text-primary"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+                onClick={() => setFilter("status", tab.value, defaultStatus)}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </nav>
+        </div>
+      )}
       
       <div className="p-4">
         <div className="flex flex-col md:flex-row md:justify-between md:items-center mb-4 space-y-2 md:space-y-0">
           <div className="flex flex-wrap gap-2">
             <Select
               value={statusFilter}
-              onValueChange={setStatusFilter}
+              onValueChange={(value) => setFilter("status", value, defaultStatus)}
             >
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="All Statuses" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value={IssueStatus.OPEN}>Open</SelectItem>
-                <SelectItem value={IssueStatus.IN_PROGRESS}>In Progress</SelectItem>
-                <SelectItem value={IssueStatus.COMPLETED}>Completed</SelectItem>
-                <SelectItem value={IssueStatus.VERIFIED}>Verified</SelectItem>
-                <SelectItem value={IssueStatus.REJECTED}>Rejected</SelectItem>
-                <SelectItem value={IssueStatus.CLOSED}>Closed</SelectItem>
-                <SelectItem value={IssueStatus.ESCALATED}>Escalated</SelectItem>
+                {statusOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             
             <Select
               value={departmentFilter}
-              onValueChange={setDepartmentFilter}
+              onValueChange={(value) => setFilter("department", value)}
             >
               <SelectTrigger className="w-[180px]">
                 <SelectValue placeholder="All Departments" />
@@ -133,6 +222,94 @@ export function IssuesTable({ issues, onStatusChange, limit = 5 }: IssuesTablePr
                 <SelectItem value={Department.LEGAL}>Legal</SelectItem>
               </SelectContent>
             </Select>
+
+            <Select
+              value={priorityFilter}
+              onValueChange={(value) => setFilter("priority", value)}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="All Priorities" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Priorities</SelectItem>
+                <SelectItem value={SLAPriority.CRITICAL}>Critical</SelectItem>
+                <SelectItem value={SLAPriority.HIGH}>High</SelectItem>
+                <SelectItem value={SLAPriority.MEDIUM}>Medium</SelectItem>
+                <SelectItem value={SLAPriority.LOW}>Low</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={getParam("slaStatus") || "all"}
+              onValueChange={(value) => setFilter("slaStatus", value)}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Any SLA" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any SLA</SelectItem>
+                <SelectItem value={SLAStatus.ON_TRACK}>On track</SelectItem>
+                <SelectItem value={SLAStatus.AT_RISK}>At risk</SelectItem>
+                <SelectItem value={SLAStatus.BREACHED}>Breached</SelectItem>
+                <SelectItem value={SLAStatus.COMPLETED}>Completed</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {showAssigneeFilter && user?.role !== UserRole.EMPLOYEE && (
+              <Select
+                value={assigneeFilter}
+                onValueChange={(value) => setFilter("assigneeId", value)}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Any Assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any Assignee</SelectItem>
+                  {user && <SelectItem value={String(user.id)}>Assigned to Me</SelectItem>}
+                  <SelectItem value="none">Unassigned</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="flex items-center gap-1">
+              <Input
+                type="date"
+                className="w-[150px]"
+                title="Created from"
+                value={getParam("from")}
+                onChange={(e) => updateQuery({ from: e.target.value })}
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <Input
+                type="date"
+                className="w-[150px]"
+                title="Created until"
+                value={getParam("to")}
+                onChange={(e) => updateQuery({ to: e.target.value })}
+              />
+            </div>
+
+            <Select
+              value={sort}
+              onValueChange={(value) => setFilter("sort", value, defaultSort)}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>Sort by {option.label.toLowerCase()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              title={order === "asc" ? "Ascending" : "Descending"}
+              onClick={() => setFilter("order", order === "asc" ? "desc" : "asc", "desc")}
+            >
+              {order === "asc" ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+            </Button>
           </div>
           
           <div className="relative">
@@ -154,21 +331,37 @@ export function IssuesTable({ issues, onStatusChange, limit = 5 }: IssuesTablePr
                 <th className="px-4 py-3 border-b border-gray-200">Issue ID</th>
                 <th className="px-4 py-3 border-b border-gray-200">Title</th>
                 <th className="px-4 py-3 border-b border-gray-200">Department</th>
+                <th className="px-4 py-3 border-b border-gray-200">Assignee</th>
                 <th className="px-4 py-3 border-b border-gray-200">Status</th>
+                <th className="px-4 py-3 border-b border-gray-200">Response</th>
                 <th className="px-4 py-3 border-b border-gray-200">SLA</th>
+                {extraColumn && <th className="px-4 py-3 border-b border-gray-200">{extraColumn.label}</th>}
                 <th className="px-4 py-3 border-b border-gray-200">Created</th>
+                {dateColumn && <th className="px-4 py-3 border-b border-gray-200">{dateColumn.label}</th>}
                 <th className="px-4 py-3 border-b border-gray-200 text-right">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
-              {paginatedIssues.length === 0 ? (
+              {isLoading ? (
                 <tr>
-                  <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
-                    No issues found. Try adjusting your filters.
+                  <td colSpan={columnCount} className="px-4 py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                  </td>
+                </tr>
+              ) : error ? (
+                <tr>
+                  <td colSpan={columnCount} className="px-4 py-8 text-center text-destructive">
+                    Failed to load issues: {error.message}
+                  </td>
+                </tr>
+              ) : issues.length === 0 ? (
+                <tr>
+                  <td colSpan={columnCount} className="px-4 py-8 text-center text-gray-500">
+                    {emptyMessage}
                   </td>
                 </tr>
               ) : (
-                paginatedIssues.map((issue) => (
+                issues.map((issue) => (
                   <tr key={issue.id} className="hover:bg-gray-50">
                     <td className="px-4 py-3 text-sm font-medium text-gray-900">
                       #{issue.id}
@@ -182,18 +375,33 @@ export function IssuesTable({ issues, onStatusChange, limit = 5 }: IssuesTablePr
                       </div>
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-500">{issue.department}</td>
+                    <td className="px-4 py-3 text-sm text-gray-500">
+                      {issue.assignee?.fullName ?? <span className="italic text-gray-400">Unassigned</span>}
+                    </td>
                     <td className="px-4 py-3 text-sm">
                       <StatusBadge status={issue.status} />
                     </td>
+                    <td className="px-4 py-3 text-sm">
+                      <SLAIndicator
+                        status={issue.responseSlaStatus}
+                        dueDate={issue.responseDueBy}
+                      />
+                    </td>
                     <td className="px-4 py-3 text-sm">
                       <SLAIndicator
                         status={issue.slaStatus}
                         dueDate={issue.dueBy}
                       />
                     </td>
+                    {extraColumn && <td className="px-4 py-3 text-sm text-gray-500">{extraColumn.render(issue)}</td>}
                     <td className="px-4 py-3 text-sm text-gray-500">
                       {issue.createdAt ? format(new Date(issue.createdAt), "MMM d, h:mm a") : "Unknown"}
                     </td>
+                    {dateColumn && (
+                      <td className="px-4 py-3 text-sm text-gray-500">
+                        {issue[dateColumn.field] ? format(new Date(issue[dateColumn.field]!), "MMM d, h:mm a") : "—"}
+                      </td>
+                    )}
                     <td className="px-4 py-3 text-sm text-right">
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -207,88 +415,21 @@ export function IssuesTable({ issues, onStatusChange, limit = 5 }: IssuesTablePr
                               <a className="w-full">View Details</a>
                             </Link>
                           </DropdownMenuItem>
-                          {/* DEPARTMENT STAFF OPTIONS */}
-                          {onStatusChange && user?.role === UserRole.DEPARTMENT && (
-                            <>
-                              {issue.status === IssueStatus.OPEN && (
-                                <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.IN_PROGRESS)}>
-                                  Mark In Progress
-                                </DropdownMenuItem>
-                              )}
-                              {issue.status === IssueStatus.IN_PROGRESS && (
-                                <>
-                                  <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.PENDING)}>
-                                    Mark as Pending
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.COMPLETED)}>
-                                    Mark as Completed
-                                  </DropdownMenuItem>
-                                </>
-                              )}
-                              {issue.status === IssueStatus.PENDING && (
-                                <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.IN_PROGRESS)}>
-                                  Resume Work
-                                </DropdownMenuItem>
-                              )}
-                            </>
-                          )}
+                          {/* Status changes the workflow allows for this user */}
+                          {onStatusChange && user && getAvailableTransitions(issue, user).map((transition) => (
+                            <DropdownMenuItem 
+                              key={`${transition.to}-${transition.label}`}
+                              onClick={() => handleTransition(issue, transition)}
+                            >
+                              {transition.requiredFields || transition.showsResolution ? `${transition.label}...` : transition.label}
+                            </DropdownMenuItem>
+                          ))}
 
-                          {/* EMPLOYEE OPTIONS */}
-                          {onStatusChange && user?.role === UserRole.EMPLOYEE && (
-                            <>
-                              {/* Verification options for completed issues */}
-                              {issue.status === IssueStatus.COMPLETED && issue.reporterId === user.id && (
-                                <>
-                                  <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.VERIFIED)}>
-                                    Verify Resolution
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.REJECTED)}>
-                                    Reject Resolution
-                                  </DropdownMenuItem>
-                                </>
-                              )}
-                              
-                              {/* Escalation option */}
-                              {!issue.isEscalated && 
-                               issue.status !== IssueStatus.VERIFIED && 
-                               issue.status !== IssueStatus.CLOSED && 
-                               issue.reporterId === user.id && (
-                                <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.ESCALATED)}>
-                                  Escalate Issue
-                                </DropdownMenuItem>
-                              )}
-                            </>
-                          )}
-                          
-                          {/* ADMIN OPTIONS */}
-                          {onStatusChange && user?.role === UserRole.ADMIN && (
-                            <>
-                              {issue.status === IssueStatus.OPEN && (
-                                <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.IN_PROGRESS)}>
-                                  Mark In Progress
-                                </DropdownMenuItem>
-                              )}
-                              {issue.status === IssueStatus.IN_PROGRESS && (
-                                <>
-                                  <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.PENDING)}>
-                                    Mark as Pending
-                                  </DropdownMenuItem>
-                                  <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.COMPLETED)}>
-                                    Mark as Completed
-                                  </DropdownMenuItem>
-                                </>
-                              )}
-                              {issue.status === IssueStatus.PENDING && (
-                                <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.IN_PROGRESS)}>
-                                  Resume Work
-                                </DropdownMenuItem>
-                              )}
-                              {!issue.isEscalated && issue.status !== IssueStatus.VERIFIED && issue.status !== IssueStatus.CLOSED && (
-                                <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.ESCALATED)}>
-                                  Escalate Issue
-                                </DropdownMenuItem>
-                              )}
-                            </>
+                          {/* Escalation option, one level up */}
+                          {onStatusChange && user && getEscalationLevels(issue, user).length > 0 && (
+                            <DropdownMenuItem onClick={() => onStatusChange(issue.id, IssueStatus.ESCALATED)}>
+                              Escalate to {ESCALATION_LEVEL_LABELS[getNextEscalationLevel(issue.escalationLevel)!]}
+                            </DropdownMenuItem>
                           )}
                         </DropdownMenuContent>
                       </DropdownMenu>
@@ -300,65 +441,34 @@ export function IssuesTable({ issues, onStatusChange, limit = 5 }: IssuesTablePr
           </table>
         </div>
         
-        {filteredIssues.length > 0 && (
+        {data && data.total > 0 && (
           <div className="flex justify-between items-center mt-4">
             <div className="text-sm text-gray-500">
-              Showing <span className="font-medium">{startIndex + 1}</span> to{" "}
-              <span className="font-medium">
-                {Math.min(startIndex + limit, filteredIssues.length)}
-              </span>{" "}
-              of <span className="font-medium">{filteredIssues.length}</span> results
+              Showing <span className="font-medium">{data.offset + 1}</span> to{" "}
+              <span className="font-medium">{data.offset + issues.length}</span>{" "}
+              of <span className="font-medium">{data.total}</span> results
             </div>
             
-            <Pagination>
+            <Pagination className="mx-0 w-auto">
               <PaginationContent>
                 <PaginationItem>
                   <PaginationPrevious 
                     href="#"
                     onClick={(e) => {
                       e.preventDefault();
-                      setCurrentPage((prev) => Math.max(prev - 1, 1));
+                      if (data.prevCursor) updateQuery({ cursor: data.prevCursor });
                     }}
-                    className={currentPage === 1 ? "pointer-events-none opacity-50" : ""}
+                    className={!data.prevCursor ? "pointer-events-none opacity-50" : ""}
                   />
                 </PaginationItem>
-                
-                {Array.from({ length: Math.min(5, totalPages) }).map((_, i) => {
-                  let pageNum;
-                  
-                  if (totalPages <= 5) {
-                    pageNum = i + 1;
-                  } else if (currentPage <= 3) {
-                    pageNum = i + 1;
-                  } else if (currentPage >= totalPages - 2) {
-                    pageNum = totalPages - 4 + i;
-                  } else {
-                    pageNum = currentPage - 2 + i;
-                  }
-                  
-                  if (pageNum <= totalPages) {
-                    return (
-                      <PaginationItem key={pageNum}>
-                        <PaginationLink
-                          onClick={() => setCurrentPage(pageNum)}
-                          isActive={currentPage === pageNum}
-                        >
-                          {pageNum}
-                        </PaginationLink>
-                      </PaginationItem>
-                    );
-                  }
-                  return null;
-                })}
-                
                 <PaginationItem>
                   <PaginationNext 
                     href="#"
                     onClick={(e) => {
                       e.preventDefault();
-                      setCurrentPage((prev) => Math.min(prev + 1, totalPages));
+                      if (data.nextCursor) updateQuery({ cursor: data.nextCursor });
                     }}
-                    className={(currentPage === totalPages || totalPages === 0) ? "pointer-events-none opacity-50" : ""}
+                    className={!data.nextCursor ? "pointer-events-none opacity-50" : ""}
                   />
                 </PaginationItem>
               </PaginationContent>
@@ -366,6 +476,19 @@ export function IssuesTable({ issues, onStatusChange, limit = 5 }: IssuesTablePr
           </div>
         )}
       </div>
+      
+      <StatusTransitionDialog
+        transition={pendingTransition?.transition ?? null}
+        resolution={pendingTransition?.issue}
+        onOpenChange={(open) => !open && setPendingTransition(null)}
+        onSubmit={(input) => {
+          if (pendingTransition) {
+            onStatusChange?.(pendingTransition.issue.id, pendingTransition.transition.to, input);
+            setPendingTransition(null);
+          }
+        }}
+        isSubmitting={false}
+      />
     </div>
   );
 }
@@ -1,7 +1,8 @@
 import { useAuth } from "@/hooks/use-auth";
 import { UserRole } from "@shared/schema";
-import { Link } from "wouter";
-import { Bell, ChevronDown, LogOut, User } from "lucide-react";
+import { FormEvent, useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { Bell, ChevronDown, LogOut, Search, User } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -11,6 +12,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 
@@ -21,6 +23,17 @@ interface NavbarProps {
 export function Navbar({ title }: NavbarProps) {
   const { user, logoutMutation } = useAuth();
   const { toast } = useToast();
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const [searchQuery, setSearchQuery] = useState(
+    location === "/search" ? new URLSearchParams(search).get("q") ?? "" : ""
+  );
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const q = searchQuery.trim();
+    if (q) navigate(`/search?${new URLSearchParams({ q })}`);
+  };
 
   const handleLogout = () => {
     logoutMutation.mutate();
@@ -54,6 +67,17 @@ export function Navbar({ title }: NavbarProps) {
           <h1 className="text-lg font-medium text-gray-900">{title}</h1>
         </div>
         <div className="flex items-center space-x-3">
+          <form onSubmit={handleSearch} className="relative hidden sm:block">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              type="search"
+              placeholder="Search issues and comments..."
+              className="pl-9 w-64"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </form>
+
           <Button variant="ghost" size="icon" className="rounded-full relative">
             <Bell className="h-5 w-5 text-gray-500" />
             <span className="absolute top-0 right-0 w-2 h-2 bg-primary rounded-full"></span>
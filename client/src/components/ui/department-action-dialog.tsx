@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { Department } from "@shared/schema";
+import { useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import { Department, TakeDepartmentAction } from "@shared/schema";
 import {
   Dialog,
   DialogContent,
@@ -11,6 +12,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { AlertTriangle, Loader2 } from "lucide-react";
 
@@ -18,7 +20,7 @@ interface DepartmentActionDialogProps {
   department: Department;
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (reason: string) => void;
+  onSubmit: (action: Omit<TakeDepartmentAction, "issueId">) => void;
   isSubmitting: boolean;
 }
 
@@ -29,12 +31,24 @@ export function DepartmentActionDialog({
   onSubmit,
   isSubmitting
 }: DepartmentActionDialogProps) {
+  const [instruction, setInstruction] = useState("");
   const [reason, setReason] = useState("");
+  const [deadline, setDeadline] = useState("");
 
-  const handleSubmit = () => {
-    if (reason.trim()) {
-      onSubmit(reason);
+  // Start from a blank instruction due in a day each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setInstruction("");
       setReason("");
+      setDeadline(format(addDays(new Date(), 1), "yyyy-MM-dd'T'HH:mm"));
+    }
+  }, [isOpen]);
+
+  const isComplete = instruction.trim() !== "" && reason.trim() !== "" && deadline !== "";
+
+  const handleSubmit = () => {
+    if (isComplete) {
+      onSubmit({ instruction: instruction.trim(), reason: reason.trim(), deadline: new Date(deadline) });
     }
   };
 
@@ -44,14 +58,33 @@ export function DepartmentActionDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-destructive">
             <AlertTriangle className="h-5 w-5 text-destructive" />
-            Take Action Against {department} Department
+            Direct the {department} Department
           </DialogTitle>
           <DialogDescription>
-            This will send a warning notification to the department management. Please provide a reason for this action.
+            The department is notified of your instruction and has to acknowledge it. Please provide a reason for this action.
           </DialogDescription>
         </DialogHeader>
         <div className="py-4">
           <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="instruction">Instruction</Label>
+              <Textarea
+                id="instruction"
+                placeholder="What does the department have to do?"
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                className="min-h-24"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deadline">Deadline</Label>
+              <Input
+                id="deadline"
+                type="datetime-local"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="reason">Reason for action</Label>
               <Textarea
@@ -59,7 +92,7 @@ export function DepartmentActionDialog({
                 placeholder="Explain why you're taking action against this department..."
                 value={reason}
                 onChange={(e) => setReason(e.target.value)}
-                className="min-h-32"
+                className="min-h-24"
               />
             </div>
           </div>
@@ -73,7 +106,7 @@ export function DepartmentActionDialog({
           </Button>
           <Button
             variant="destructive"
-            disabled={reason.trim() === "" || isSubmitting}
+            disabled={!isComplete || isSubmitting}
             onClick={handleSubmit}
           >
             {isSubmitting ? (
@@ -0,0 +1,32 @@
+import { Fragment } from "react";
+import { cn } from "@/lib/utils";
+import { SearchSnippet } from "@shared/schema";
+
+interface HighlightedTextProps {
+  snippet: Pick<SearchSnippet, "text" | "highlights">;
+  className?: string;
+}
+
+// Search snippet with its matches marked; the text is never treated as HTML
+export function HighlightedText({ snippet, className }: HighlightedTextProps) {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+
+  for (const [start, end] of snippet.highlights) {
+    if (start < position) continue;
+    if (start > position) parts.push({ text: snippet.text.slice(position, start), highlighted: false });
+    parts.push({ text: snippet.text.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < snippet.text.length) parts.push({ text: snippet.text.slice(position), highlighted: false });
+
+  return (
+    <span className={cn(className)}>
+      {parts.map((part, index) => part.highlighted ? (
+        <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">{part.text}</mark>
+      ) : (
+        <Fragment key={index}>{part.text}</Fragment>
+      ))}
+    </span>
+  );
+}
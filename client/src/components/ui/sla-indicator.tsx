@@ -9,9 +9,10 @@ interface SLAIndicatorProps {
   dueDate?: Date | string | null;
   className?: string;
   showText?: boolean;
+  label?: string; // Which SLA this is, e.g. "Response", when an issue shows more than one
 }
 
-export function SLAIndicator({ status, dueDate, className, showText = true }: SLAIndicatorProps) {
+export function SLAIndicator({ status, dueDate, className, showText = true, label }: SLAIndicatorProps) {
   const getStatusStyles = () => {
     switch (status) {
       case SLAStatus.ON_TRACK:
@@ -73,6 +74,7 @@ export function SLAIndicator({ status, dueDate, className, showText = true }: SL
     : status === SLAStatus.COMPLETED 
       ? "Completed within SLA" 
       : "No SLA set";
+  const prefix = label ? `${label}: ` : "";
 
   return (
     <TooltipProvider>
@@ -88,13 +90,13 @@ export function SLAIndicator({ status, dueDate, className, showText = true }: SL
             })} />
             {showText && (
               <span className={cn("text-sm", getStatusStyles())}>
-                {getStatusText()}
+                {prefix}{getStatusText()}
               </span>
             )}
           </div>
         </TooltipTrigger>
         <TooltipContent>
-          <p>{tooltipText}</p>
+          <p>{prefix}{tooltipText}</p>
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Issue, RESOLUTION_CODE_LABELS, ResolutionCode } from "@shared/schema";
+import { WorkflowField, WorkflowInput, WorkflowTransition } from "@shared/workflow";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+interface StatusTransitionDialogProps {
+  transition: WorkflowTransition | null;
+  resolution?: Pick<Issue, "resolutionSummary" | "resolutionCode">;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (input: WorkflowInput) => void;
+  isSubmitting: boolean;
+}
+
+// Asks for the fields a workflow transition requires before taking it
+export function StatusTransitionDialog({
+  transition,
+  resolution,
+  onOpenChange,
+  onSubmit,
+  isSubmitting
+}: StatusTransitionDialogProps) {
+  const [input, setInput] = useState<WorkflowInput>({});
+
+  useEffect(() => {
+    setInput({});
+  }, [transition]);
+
+  const requiredFields = Object.entries(transition?.requiredFields ?? {}) as [WorkflowField, string][];
+  const isComplete = requiredFields.every(([field]) => input[field]?.trim());
+  const showResolution = transition?.showsResolution && resolution?.resolutionSummary;
+
+  const setField = (field: WorkflowField, value: string) => setInput({ ...input, [field]: value });
+
+  return (
+    <Dialog open={!!transition} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{transition?.label}</DialogTitle>
+          {requiredFields.length > 0 && (
+            <DialogDescription>
+              Please provide the details below to continue.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        {showResolution && (
+          <div className="rounded-md border border-gray-200 bg-gray-50 p-3">
+            <p className="text-sm font-medium text-gray-900">
+              Resolution: {resolution.resolutionCode ? RESOLUTION_CODE_LABELS[resolution.resolutionCode] : "Not given"}
+            </p>
+            <p className="text-sm text-gray-700 mt-1 whitespace-pre-line">{resolution.resolutionSummary}</p>
+          </div>
+        )}
+        {requiredFields.length > 0 && (
+          <div className="space-y-4 py-2">
+            {requiredFields.map(([field, prompt]) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`transition-${field}`}>{prompt}</Label>
+                {field === "resolutionCode" ? (
+                  <Select value={input.resolutionCode} onValueChange={(value) => setField(field, value)}>
+                    <SelectTrigger id={`transition-${field}`}>
+                      <SelectValue placeholder="Select a resolution" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(ResolutionCode).map((code) => (
+                        <SelectItem key={code} value={code}>{RESOLUTION_CODE_LABELS[code]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Textarea
+                    id={`transition-${field}`}
+                    value={input[field] ?? ""}
+                    onChange={(e) => setField(field, e.target.value)}
+                    className="min-h-24"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!isComplete || isSubmitting}
+            onClick={() => onSubmit(input)}
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {transition?.label}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
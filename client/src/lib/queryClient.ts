@@ -29,7 +29,11 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    // An optional second key part holds query string parameters, so that
+    // invalidating the URL alone refetches every filtered variant of it
+    const [url, params] = queryKey as [string, Record<string, string>?];
+    const search = params ? new URLSearchParams(params).toString() : "";
+    const res = await fetch(search ? `${url}?${search}` : url, {
       credentials: "include",
     });
 
@@ -55,3 +59,17 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Every view that lists or counts issues, so a change to one issue shows up
+// wherever it appears without a reload
+const ISSUE_QUERY_PREFIXES = ["/api/issues", "/api/search", "/api/admin/escalations", "/api/escalations", "/api/activities/recent"];
+
+export function invalidateIssueQueries() {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const url = String(query.queryKey[0]);
+      return ISSUE_QUERY_PREFIXES.some((prefix) => url.startsWith(prefix)) ||
+        /^\/api\/departments\/[^/]+\/workload$/.test(url);
+    },
+  });
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { EscalationLevel, IssueWithUsers } from "@shared/schema";
+import { ESCALATION_LEVELS, ESCALATION_LEVEL_LABELS, getCurrentEscalation } from "@shared/escalation";
+import { Sidebar } from "@/components/sidebar";
+import { Navbar } from "@/components/navbar";
+import { StatsCard } from "@/components/dashboard/stats-card";
+import { SLAIndicator } from "@/components/ui/sla-indicator";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ESCALATIONS_ENDPOINT = "/api/admin/escalations";
+
+// Highest level first, as that is where attention is needed most
+const LEVELS_BY_URGENCY = [...ESCALATION_LEVELS].reverse();
+
+function escalatedSince(issue: IssueWithUsers): Date {
+  return new Date(getCurrentEscalation(issue)!.escalatedAt);
+}
+
+function EscalationRow({ issue }: { issue: IssueWithUsers }) {
+  const escalation = getCurrentEscalation(issue)!;
+
+  return (
+    <tr className="hover:bg-gray-50">
+      <td className="px-4 py-3 text-sm">
+        <Link href={`/issues/${issue.id}`}>
+          <a className="font-medium text-primary hover:underline">#{issue.id} {issue.title}</a>
+        </Link>
+        <p className="text-xs text-gray-500">{issue.department}</p>
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        {formatDistanceToNow(escalatedSince(issue))}
+        {issue.escalations.length > 1 && (
+          <p className="text-xs">{issue.escalations.length} escalations in total</p>
+        )}
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500">
+        {escalation.reason}
+        {escalation.ruleId && <p className="text-xs">By an escalation rule</p>}
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-500 capitalize">
+        {issue.escalatedFromStatus?.replace("_", " ") ?? "open"}
+      </td>
+      <td className="px-4 py-3 text-sm">
+        <SLAIndicator status={issue.slaStatus} dueDate={issue.dueBy} />
+      </td>
+    </tr>
+  );
+}
+
+export default function AdminEscalations() {
+  const [levelFilter, setLevelFilter] = useState<EscalationLevel | "all">("all");
+
+  // Oldest escalations first
+  const { data: issues, isLoading } = useQuery<IssueWithUsers[]>({
+    queryKey: [ESCALATIONS_ENDPOINT],
+  });
+
+  const issuesAt = (level: EscalationLevel) => issues?.filter((issue) => issue.escalationLevel === level) ?? [];
+  const levels = LEVELS_BY_URGENCY.filter((level) => levelFilter === "all" || level === levelFilter);
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Navbar title="Escalations" />
+
+        <main className="flex-1 overflow-y-auto bg-gray-100 p-4">
+          <div className="max-w-6xl mx-auto">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              {LEVELS_BY_URGENCY.map((level) => {
+                const oldest = issuesAt(level)[0];
+                return (
+                  <StatsCard
+                    key={level}
+                    title={ESCALATION_LEVEL_LABELS[level]}
+                    value={issuesAt(level).length}
+                    icon={<AlertTriangle className="h-5 w-5 text-destructive" />}
+                    iconBgColor="bg-destructive/10"
+                    change={oldest ? { value: `Oldest ${formatDistanceToNow(escalatedSince(oldest))} ago`, positive: false } : undefined}
+                    tooltip={`Issues currently escalated to ${ESCALATION_LEVEL_LABELS[level].toLowerCase()}`}
+                  />
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end mb-4">
+              <Select value={levelFilter} onValueChange={(value) => setLevelFilter(value as EscalationLevel | "all")}>
+                <SelectTrigger className="w-[200px] bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All levels</SelectItem>
+                  {LEVELS_BY_URGENCY.map((level) => (
+                    <SelectItem key={level} value={level}>{ESCALATION_LEVEL_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              levels.map((level) => (
+                <Card key={level} className="mb-6">
+                  <CardHeader>
+                    <CardTitle>{ESCALATION_LEVEL_LABELS[level]}</CardTitle>
+                    <CardDescription>Longest escalated first. De-escalating returns an issue to the status it was escalated from.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full bg-white">
+                        <thead>
+                          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            <th className="px-4 py-3 border-b border-gray-200">Issue</th>
+                            <th className="px-4 py-3 border-b border-gray-200">Escalated For</th>
+                            <th className="px-4 py-3 border-b border-gray-200">Reason</th>
+                            <th className="px-4 py-3 border-b border-gray-200">Escalated From</th>
+                            <th className="px-4 py-3 border-b border-gray-200">SLA</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {issuesAt(level).length === 0 ? (
+                            <tr>
+                              <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                                No issues are escalated to this level.
+                              </td>
+                            </tr>
+                          ) : (
+                            issuesAt(level).map((issue) => <EscalationRow key={issue.id} issue={issue} />)
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Sidebar } from "@/components/sidebar";
+import { Navbar } from "@/components/navbar";
+import { UserManagement } from "@/components/admin/user-management";
+import { EscalationRules } from "@/components/admin/escalation-rules";
+import { SlaCalendars } from "@/components/admin/sla-calendars";
+import { SlaPolicies } from "@/components/admin/sla-policies";
+import { AssignmentSettings } from "@/components/admin/assignment-settings";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  CardDescription,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+export default function AdminSettings() {
+  const [activeTab, setActiveTab] = useState("users");
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Navbar title="Admin Settings" />
+
+        <main className="flex-1 overflow-y-auto bg-gray-100 p-4">
+          <div className="max-w-6xl mx-auto">
+            <Tabs value={activeTab} onValueChange={setActiveTab}>
+              <TabsList className="mb-6">
+                <TabsTrigger value="users">Users</TabsTrigger>
+                <TabsTrigger value="assignment">Assignment</TabsTrigger>
+                <TabsTrigger value="escalation">Escalation Rules</TabsTrigger>
+                <TabsTrigger value="policies">SLA Policies</TabsTrigger>
+                <TabsTrigger value="calendars">SLA Calendars</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="users">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>User Management</CardTitle>
+                    <CardDescription>
+                      Search accounts, change roles and departments, reset passwords and deactivate users.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <UserManagement />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="assignment">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Automatic Assignment</CardTitle>
+                    <CardDescription>
+                      How new issues are handed to each department's staff, and why each automatic assignment was made.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <AssignmentSettings />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="escalation">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Escalation Rules</CardTitle>
+                    <CardDescription>
+                      Escalate issues automatically when their SLA is at risk or breached.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <EscalationRules />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="policies">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>SLA Policies</CardTitle>
+                    <CardDescription>
+                      First response and resolution targets per department and priority. Each change is saved as a new version.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <SlaPolicies />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="calendars">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>SLA Calendars</CardTitle>
+                    <CardDescription>
+                      Working hours, time zone and holidays per department. SLA timers only run during working hours.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="p-0">
+                    <SlaCalendars />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,16 @@
 import { useQuery } from "@tanstack/react-query";
 import { Sidebar } from "@/components/sidebar";
 import { Navbar } from "@/components/navbar";
-import { AlertTriangle, BarChart, Loader2, TrendingUp } from "lucide-react";
-import { Department, IssueStatus } from "@shared/schema";
+import { AlertTriangle, BarChart, CheckCircle, Clock, Loader2, RotateCcw, TrendingUp } from "lucide-react";
+import {
+  Department,
+  IssueStatus,
+  ReopenRate,
+  ResolutionCode,
+  ResolutionCodeCounts,
+  ResolutionTime,
+  RESOLUTION_CODE_LABELS,
+} from "@shared/schema";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   BarChart as ReBarChart,
@@ -27,10 +35,17 @@ export default function Analytics() {
   } = useQuery<{
     departmentPerformance: Record<Department, number>;
     overallPerformance: number;
+    responsePerformance: Record<Department, number>;
+    overallResponsePerformance: number;
     statusCounts: Record<IssueStatus, number>;
     openIssues: number;
     resolvedIssues: number;
     escalatedCount: number;
+    resolutionTimes: Record<Department, ResolutionTime>;
+    averageResolutionHours: number | null;
+    reopenRates: Record<Department, ReopenRate>;
+    overallReopenRate: number | null;
+    resolutionCodes: Record<Department, ResolutionCodeCounts>;
   }>({
     queryKey: ["/api/analytics"],
   });
@@ -69,6 +84,7 @@ export default function Analytics() {
   ).map(([department, performance]) => ({
     name: department,
     performance,
+    response: analytics.responsePerformance[department as Department],
   }));
 
   const statusData = Object.entries(analytics.statusCounts).map(
@@ -78,6 +94,27 @@ export default function Analytics() {
     })
   );
 
+  const resolutionTimeData = Object.entries(analytics.resolutionTimes).map(
+    ([department, { averageHours }]) => ({
+      name: department,
+      hours: averageHours ?? 0,
+    })
+  );
+
+  const reopenRateData = Object.entries(analytics.reopenRates).map(
+    ([department, { percent }]) => ({
+      name: department,
+      rate: percent ?? 0,
+    })
+  );
+
+  const resolutionCodeData = Object.entries(analytics.resolutionCodes).map(
+    ([department, counts]) => ({
+      name: department,
+      ...counts,
+    })
+  );
+
   const issueComparisonData = [
     {
       name: "Issues",
@@ -118,6 +155,9 @@ export default function Analytics() {
                     {analytics.overallPerformance}%
                   </div>
                   <p className="text-gray-500 text-sm">Issues resolved within SLA</p>
+                  <p className="text-gray-500 text-sm mt-2">
+                    First response on time: {analytics.overallResponsePerformance}%
+                  </p>
                 </div>
               </CardContent>
             </Card>
@@ -216,7 +256,7 @@ export default function Analytics() {
               <CardHeader>
                 <CardTitle className="text-lg">Department SLA Performance</CardTitle>
                 <CardDescription>
-                  Percentage of issues resolved within SLA time by department
+                  Percentage of issues resolved and first responded to within SLA time by department
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -237,10 +277,17 @@ export default function Analytics() {
                     <Legend />
                     <Bar
                       dataKey="performance"
-                      name="SLA Performance (%)"
+                      name="Resolution SLA (%)"
                       fill="#3B82F6"
                       radius={[4, 4, 0, 0]}
-                      barSize={40}
+                      barSize={20}
+                    />
+                    <Bar
+                      dataKey="response"
+                      name="First Response SLA (%)"
+                      fill="#10B981"
+                      radius={[4, 4, 0, 0]}
+                      barSize={20}
                     />
                   </ReBarChart>
                 </ResponsiveContainer>
@@ -294,6 +341,127 @@ export default function Analytics() {
             </Card>
           </div>
 
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">Average Resolution Time</CardTitle>
+                <Clock className="h-5 w-5 text-gray-500" />
+              </div>
+              <CardDescription>
+                Hours from report to resolution, excluding time spent waiting in pending
+                {analytics.averageResolutionHours !== null &&
+                  ` (overall: ${analytics.averageResolutionHours} h)`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <ReBarChart
+                  data={resolutionTimeData}
+                  margin={{
+                    top: 20,
+                    right: 30,
+                    left: 20,
+                    bottom: 5,
+                  }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar
+                    dataKey="hours"
+                    name="Average Resolution Time (hours)"
+                    fill="#6366F1"
+                    radius={[4, 4, 0, 0]}
+                    barSize={40}
+                  />
+                </ReBarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">Reopen Rate</CardTitle>
+                <RotateCcw className="h-5 w-5 text-gray-500" />
+              </div>
+              <CardDescription>
+                Share of completed issues the reporter rejected and sent back to the department
+                {analytics.overallReopenRate !== null &&
+                  ` (overall: ${analytics.overallReopenRate}%)`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <ReBarChart
+                  data={reopenRateData}
+                  margin={{
+                    top: 20,
+                    right: 30,
+                    left: 20,
+                    bottom: 5,
+                  }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis domain={[0, 100]} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar
+                    dataKey="rate"
+                    name="Reopen Rate (%)"
+                    fill="#F59E0B"
+                    radius={[4, 4, 0, 0]}
+                    barSize={40}
+                  />
+                </ReBarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">Resolutions</CardTitle>
+                <CheckCircle className="h-5 w-5 text-gray-500" />
+              </div>
+              <CardDescription>
+                How each department resolved its completed, verified and closed issues
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <ReBarChart
+                  data={resolutionCodeData}
+                  margin={{
+                    top: 20,
+                    right: 30,
+                    left: 20,
+                    bottom: 5,
+                  }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  {Object.values(ResolutionCode).map((code, index) => (
+                    <Bar
+                      key={code}
+                      dataKey={code}
+                      name={RESOLUTION_CODE_LABELS[code]}
+                      stackId="resolutions"
+                      fill={COLORS[index % COLORS.length]}
+                      barSize={40}
+                    />
+                  ))}
+                </ReBarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
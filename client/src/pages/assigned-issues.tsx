@@ -0,0 +1,38 @@
+import { IssueStatus, OPEN_ISSUE_STATUSES } from "@shared/schema";
+import { Sidebar } from "@/components/sidebar";
+import { Navbar } from "@/components/navbar";
+import { IssuesTable } from "@/components/dashboard/issues-table";
+
+const STATUS_OPTIONS = [
+  { label: "Open", value: OPEN_ISSUE_STATUSES.join(",") },
+  { label: "In Progress", value: IssueStatus.IN_PROGRESS },
+  { label: "Pending", value: IssueStatus.PENDING },
+  { label: "Escalated", value: IssueStatus.ESCALATED },
+  { label: "Awaiting Verification", value: IssueStatus.COMPLETED },
+  { label: "All Statuses", value: "all" },
+];
+
+export default function AssignedIssues() {
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Navbar title="Assigned Issues" />
+
+        <main className="flex-1 overflow-y-auto bg-gray-100 p-4">
+          <div className="max-w-6xl mx-auto">
+            <IssuesTable
+              endpoint="/api/issues/assigned"
+              limit={20}
+              statusOptions={STATUS_OPTIONS}
+              defaultStatus={STATUS_OPTIONS[0].value}
+              showAssigneeFilter={false}
+              dateColumn={{ label: "Updated", field: "updatedAt" }}
+              emptyMessage="No issues assigned to you match these filters."
+            />
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
-import { insertUserSchema } from "@shared/schema";
+import { registerUserSchema } from "@shared/schema";
 import { Bug } from "lucide-react";
 
 import {
@@ -27,7 +27,7 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Department, UserRole } from "@shared/schema";
+import { Department } from "@shared/schema";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -36,7 +36,7 @@ const loginSchema = z.object({
 
 type LoginFormValues = z.infer<typeof loginSchema>;
 
-const registerSchema = insertUserSchema.extend({
+const registerSchema = registerUserSchema.extend({
   confirmPassword: z.string().min(1, "Please confirm your password"),
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords do not match",
@@ -73,8 +73,8 @@ export default function AuthPage() {
       confirmPassword: "",
       fullName: "",
       email: "",
-      role: UserRole.EMPLOYEE,
       department: Department.IT,
+      inviteCode: "",
     },
   });
   
@@ -83,8 +83,8 @@ export default function AuthPage() {
   };
   
   const onRegisterSubmit = (data: RegisterFormValues) => {
-    const { confirmPassword, ...registerData } = data;
-    registerMutation.mutate(registerData);
+    const { confirmPassword, inviteCode, ...registerData } = data;
+    registerMutation.mutate(inviteCode ? { ...registerData, inviteCode } : registerData);
   };
   
   return (
@@ -210,47 +210,19 @@ export default function AuthPage() {
                         )}
                       />
                       
-                      <div className="grid grid-cols-2 gap-4">
-                        <FormField
-                          control={registerForm.control}
-                          name="username"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Username</FormLabel>
-                              <FormControl>
-                                <Input placeholder="Choose a username" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                        
-                        <FormField
-                          control={registerForm.control}
-                          name="role"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Role</FormLabel>
-                              <Select 
-                                onValueChange={field.onChange} 
-                                defaultValue={field.value}
-                              >
-                                <FormControl>
-                                  <SelectTrigger>
-                                    <SelectValue placeholder="Select a role" />
-                                  </SelectTrigger>
-                                </FormControl>
-                                <SelectContent>
-                                  <SelectItem value={UserRole.EMPLOYEE}>Employee</SelectItem>
-                                  <SelectItem value={UserRole.DEPARTMENT}>Department Staff</SelectItem>
-                                  <SelectItem value={UserRole.ADMIN}>Admin</SelectItem>
-                                </SelectContent>
-                              </Select>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                      </div>
+                      <FormField
+                        control={registerForm.control}
+                        name="username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Username</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Choose a username" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                       
                       <FormField
                         control={registerForm.control}
@@ -312,6 +284,20 @@ export default function AuthPage() {
                         )}
                       />
                       
+                      <FormField
+                        control={registerForm.control}
+                        name="inviteCode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Invite Code (optional)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Required if you don't have a company email" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
                       <Button 
                         type="submit" 
                         className="w-full" 
@@ -10,7 +10,8 @@ import {
   Plus,
   Loader2
 } from "lucide-react";
-import { IssueStatus, Department, Issue, SLAStatus } from "@shared/schema";
+import { IssueStatus, Department, IssueSummary, UserRole } from "@shared/schema";
+import { WorkflowInput } from "@shared/workflow";
 import { Button } from "@/components/ui/button";
 import { Navbar } from "@/components/navbar";
 import { Sidebar } from "@/components/sidebar";
@@ -18,22 +19,30 @@ import { StatsCard } from "@/components/dashboard/stats-card";
 import { IssuesTable } from "@/components/dashboard/issues-table";
 import { ActivityFeed } from "@/components/dashboard/activity-feed";
 import { DepartmentPerformance } from "@/components/dashboard/department-performance";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DepartmentActionsAlert } from "@/components/dashboard/department-actions-alert";
+import { EscalationAlert } from "@/components/dashboard/escalation-alert";
+import { apiRequest, invalidateIssueQueries } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+const STATUS_TABS = [
+  { label: "All Issues", value: "all" },
+  { label: "Open", value: IssueStatus.OPEN },
+  { label: "In Progress", value: IssueStatus.IN_PROGRESS },
+];
+
 export default function Dashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
 
-  // For employees, fetch issues they reported
-  // For department staff, fetch issues assigned to their department
-  // For admins, only fetch escalated issues or issues with SLA issues
+  // Counts over the issues the user works with: those they reported for
+  // employees, their department's for department staff and escalated or
+  // at-risk issues for admins
   const {
-    data: issues,
-    isLoading: issuesLoading,
-    error: issuesError,
-  } = useQuery<Issue[]>({
-    queryKey: ["/api/issues/me"],
+    data: summary,
+    isLoading: summaryLoading,
+    error: summaryError,
+  } = useQuery<IssueSummary>({
+    queryKey: ["/api/issues/me/summary"],
   });
 
   const {
@@ -53,13 +62,12 @@ export default function Dashboard() {
   });
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: IssueStatus }) => {
-      const res = await apiRequest("PATCH", `/api/issues/${id}/status`, { status });
+    mutationFn: async ({ id, status, input }: { id: number; status: IssueStatus; input?: WorkflowInput }) => {
+      const res = await apiRequest("PATCH", `/api/issues/${id}/status`, { status, ...input });
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/issues/me"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/activities/recent"] });
+      invalidateIssueQueries();
       toast({
         title: "Status updated",
         description: "The issue status has been updated successfully.",
@@ -80,8 +88,7 @@ export default function Dashboard() {
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/issues/me"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/activities/recent"] });
+      invalidateIssueQueries();
       toast({
         title: "Issue escalated",
         description: "The issue has been escalated successfully.",
@@ -96,11 +103,11 @@ export default function Dashboard() {
     },
   });
 
-  const handleStatusChange = (issueId: number, status: IssueStatus) => {
+  const handleStatusChange = (issueId: number, status: IssueStatus, input?: WorkflowInput) => {
     if (status === IssueStatus.ESCALATED) {
       escalateIssueMutation.mutate(issueId);
     } else {
-      updateStatusMutation.mutate({ id: issueId, status });
+      updateStatusMutation.mutate({ id: issueId, status, input });
     }
   };
 
@@ -111,7 +118,7 @@ export default function Dashboard() {
     return "Good evening";
   };
 
-  if (issuesLoading) {
+  if (summaryLoading) {
     return (
       <div className="min-h-screen flex flex-col md:flex-row">
         <Sidebar />
@@ -122,7 +129,7 @@ export default function Dashboard() {
     );
   }
 
-  if (issuesError) {
+  if (summaryError) {
     return (
       <div className="min-h-screen flex flex-col md:flex-row">
         <Sidebar />
@@ -137,25 +144,14 @@ export default function Dashboard() {
     );
   }
 
-  const openIssuesCount = issues?.filter(
-    (issue) =>
-      issue.status === IssueStatus.OPEN || issue.status === IssueStatus.IN_PROGRESS
-  ).length || 0;
-
-  const completedIssuesCount = issues?.filter(
-    (issue) =>
-      issue.status === IssueStatus.VERIFIED || issue.status === IssueStatus.CLOSED
-  ).length || 0;
-
-  const slaOnTrackCount = issues?.filter(
-    (issue) => issue.slaStatus === SLAStatus.ON_TRACK
-  ).length || 0;
+  const openIssuesCount = summary?.open || 0;
+  const completedIssuesCount = summary?.resolved || 0;
 
-  const withinSLAPercentage = issues && issues.length > 0
-    ? Math.round((slaOnTrackCount / issues.length) * 100)
+  const withinSLAPercentage = summary && summary.total > 0
+    ? Math.round((summary.onTrack / summary.total) * 100)
     : 100;
 
-  const escalatedCount = issues?.filter((issue) => issue.isEscalated).length || 0;
+  const escalatedCount = summary?.escalated || 0;
 
   return (
     <div className="min-h-screen flex flex-col md:flex-row">
@@ -184,6 +180,12 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {/* Instructions from the administrators */}
+          {user?.role === UserRole.DEPARTMENT && <DepartmentActionsAlert />}
+
+          {/* Escalations an escalation rule alerted this user's department or the administrators to */}
+          {user?.role !== UserRole.EMPLOYEE && <EscalationAlert />}
+
           {/* Stats Overview */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
             <StatsCard
@@ -237,10 +239,7 @@ export default function Dashboard() {
 
           {/* Issues Table */}
           <div className="mb-6">
-            <IssuesTable 
-              issues={issues || []} 
-              onStatusChange={handleStatusChange}
-            />
+            <IssuesTable onStatusChange={handleStatusChange} statusTabs={STATUS_TABS} />
           </div>
 
           {/* Recent Activity and SLA Performance */}
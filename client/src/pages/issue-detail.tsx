@@ -18,12 +18,20 @@ import {
   Users,
   User,
   RefreshCw,
-  ShieldAlert
+  ShieldAlert,
+  PauseCircle,
+  RotateCcw,
+  Gauge,
+  ArrowDownCircle,
+  UserPlus
 } from "lucide-react";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, invalidateIssueQueries, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Issue, IssueStatus, UserRole, Activity, SLAStatus, Department } from "@shared/schema";
+import { IssueWithUsers, IssueStatus, UserRole, UserSummary, ActivityWithUser, SLAStatus, SLAPriority, Department, DepartmentAction, EscalationLevel, TakeDepartmentAction, OPEN_ISSUE_STATUSES, RESOLVED_ISSUE_STATUSES, RESOLUTION_CODE_LABELS } from "@shared/schema";
+import { getAvailableTransitions, WorkflowInput, WorkflowTransition } from "@shared/workflow";
+import { canDeescalate, getCurrentEscalation, getEscalationLevels, ESCALATION_LEVEL_LABELS } from "@shared/escalation";
 import { DepartmentActionDialog } from "@/components/ui/department-action-dialog";
+import { StatusTransitionDialog } from "@/components/ui/status-transition-dialog";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -41,6 +49,7 @@ import {
   FormLabel
 } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { 
   Tabs, 
   TabsContent, 
@@ -72,6 +81,36 @@ const commentSchema = z.object({
 
 type CommentFormValues = z.infer<typeof commentSchema>;
 
+// Total time the SLA clock has been stopped, including a pause still in progress
+function getPausedTime(issue: IssueWithUsers): number {
+  const currentPause = issue.slaPauses.find((pause) => !pause.resumedAt);
+  return issue.slaPausedMs + (currentPause ? Date.now() - new Date(currentPause.pausedAt).getTime() : 0);
+}
+
+function formatPausedTime(ms: number): string {
+  const totalMinutes = Math.floor(ms / 60000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+// How each workflow transition is presented, by target status
+const TRANSITION_ICONS: Partial<Record<IssueStatus, JSX.Element>> = {
+  [IssueStatus.IN_PROGRESS]: <Clock className="mr-2 h-4 w-4" />,
+  [IssueStatus.PENDING]: <Clock className="mr-2 h-4 w-4" />,
+  [IssueStatus.REJECTED]: <XCircle className="mr-2 h-4 w-4" />,
+};
+
+const TRANSITION_VARIANTS: Partial<Record<IssueStatus, "outline">> = {
+  [IssueStatus.PENDING]: "outline",
+  [IssueStatus.REJECTED]: "outline",
+  [IssueStatus.CLOSED]: "outline",
+};
+
 export default function IssueDetail() {
   // Define ALL hooks at the top level, before any conditional logic
   const [, params] = useRoute<{ id: string }>("/issues/:id");
@@ -81,6 +120,18 @@ export default function IssueDetail() {
   const [isReassignDialogOpen, setIsReassignDialogOpen] = useState(false);
   const [isDepartmentActionDialogOpen, setIsDepartmentActionDialogOpen] = useState(false);
   const [selectedDepartment, setSelectedDepartment] = useState<Department>(Department.IT);
+  const [pendingTransition, setPendingTransition] = useState<WorkflowTransition | null>(null);
+  const [isPriorityDialogOpen, setIsPriorityDialogOpen] = useState(false);
+  const [selectedPriority, setSelectedPriority] = useState<SLAPriority>(SLAPriority.MEDIUM);
+  const [priorityJustification, setPriorityJustification] = useState("");
+  const [isEscalateDialogOpen, setIsEscalateDialogOpen] = useState(false);
+  const [selectedEscalationLevel, setSelectedEscalationLevel] = useState<EscalationLevel>(EscalationLevel.TEAM_LEAD);
+  const [escalationReason, setEscalationReason] = useState("");
+  const [isDeescalateDialogOpen, setIsDeescalateDialogOpen] = useState(false);
+  const [deescalationReason, setDeescalationReason] = useState("");
+  const [isAssignDialogOpen, setIsAssignDialogOpen] = useState(false);
+  // "unassigned" or the id of a department member
+  const [selectedAssignee, setSelectedAssignee] = useState("unassigned");
   
   const form = useForm<CommentFormValues>({
     resolver: zodResolver(commentSchema),
@@ -96,7 +147,7 @@ export default function IssueDetail() {
     data: issue,
     isLoading: issueLoading,
     error: issueError,
-  } = useQuery<Issue>({
+  } = useQuery<IssueWithUsers>({
     queryKey: [`/api/issues/${issueId}`],
     enabled: !!issueId,
   });
@@ -104,11 +155,27 @@ export default function IssueDetail() {
   const {
     data: activities,
     isLoading: activitiesLoading,
-  } = useQuery<Activity[]>({
+  } = useQuery<ActivityWithUser[]>({
     queryKey: [`/api/issues/${issueId}/activities`],
     enabled: !!issueId,
   });
 
+  const {
+    data: departmentActions,
+  } = useQuery<DepartmentAction[]>({
+    queryKey: [`/api/issues/${issueId}/department-actions`],
+    enabled: !!issueId && (user?.role === UserRole.DEPARTMENT || user?.role === UserRole.ADMIN),
+  });
+
+  // Colleagues the issue can be assigned to, loaded when the picker opens
+  const {
+    data: departmentMembers,
+    isLoading: departmentMembersLoading,
+  } = useQuery<UserSummary[]>({
+    queryKey: [`/api/departments/${issue?.department}/members`],
+    enabled: isAssignDialogOpen && !!issue,
+  });
+
   // Update selectedDepartment based on issue data
   useEffect(() => {
     if (issue?.department) {
@@ -118,14 +185,13 @@ export default function IssueDetail() {
 
   // Mutations for issue actions
   const updateStatusMutation = useMutation({
-    mutationFn: async (status: IssueStatus) => {
-      const res = await apiRequest("PATCH", `/api/issues/${issueId}/status`, { status });
+    mutationFn: async (payload: { status: IssueStatus } & WorkflowInput) => {
+      const res = await apiRequest("PATCH", `/api/issues/${issueId}/status`, payload);
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}/activities`] });
-      queryClient.invalidateQueries({ queryKey: ["/api/issues/me"] });
+      setPendingTransition(null);
+      invalidateIssueQueries();
       toast({
         title: "Status updated",
         description: "The issue status has been updated successfully.",
@@ -141,17 +207,16 @@ export default function IssueDetail() {
   });
 
   const escalateIssueMutation = useMutation({
-    mutationFn: async (reason: string) => {
-      const res = await apiRequest("PATCH", `/api/issues/${issueId}/escalate`, { reason });
+    mutationFn: async (payload: { level: EscalationLevel, reason?: string }) => {
+      const res = await apiRequest("PATCH", `/api/issues/${issueId}/escalate`, payload);
       return await res.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}/activities`] });
-      queryClient.invalidateQueries({ queryKey: ["/api/issues/me"] });
+    onSuccess: (_, { level }) => {
+      invalidateIssueQueries();
+      setIsEscalateDialogOpen(false);
       toast({
         title: "Issue escalated",
-        description: "The issue has been escalated to admin.",
+        description: `The issue has been escalated to ${ESCALATION_LEVEL_LABELS[level].toLowerCase()}.`,
       });
     },
     onError: (error: Error) => {
@@ -163,6 +228,52 @@ export default function IssueDetail() {
     },
   });
 
+  const deescalateIssueMutation = useMutation({
+    mutationFn: async (reason: string) => {
+      const res = await apiRequest("PATCH", `/api/issues/${issueId}/deescalate`, { reason });
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateIssueQueries();
+      setIsDeescalateDialogOpen(false);
+      toast({
+        title: "Issue de-escalated",
+        description: "The issue is back in its previous status.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to de-escalate issue",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const assignIssueMutation = useMutation({
+    mutationFn: async (assigneeId: number | null) => {
+      const res = await apiRequest("PATCH", `/api/issues/${issueId}/assign`, { assigneeId });
+      return await res.json();
+    },
+    onSuccess: (updatedIssue: IssueWithUsers) => {
+      invalidateIssueQueries();
+      setIsAssignDialogOpen(false);
+      toast({
+        title: updatedIssue.assignee ? "Issue assigned" : "Issue unassigned",
+        description: updatedIssue.assignee
+          ? `The issue has been assigned to ${updatedIssue.assignee.fullName}.`
+          : "The issue no longer has an assignee.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to assign issue",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const addCommentMutation = useMutation({
     mutationFn: async (data: CommentFormValues) => {
       const res = await apiRequest("POST", `/api/issues/${issueId}/comments`, data);
@@ -170,8 +281,7 @@ export default function IssueDetail() {
     },
     onSuccess: () => {
       form.reset();
-      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}/activities`] });
+      invalidateIssueQueries();
       toast({
         title: "Comment added",
         description: "Your comment has been added successfully.",
@@ -192,9 +302,7 @@ export default function IssueDetail() {
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}/activities`] });
-      queryClient.invalidateQueries({ queryKey: ["/api/issues/me"] });
+      invalidateIssueQueries();
       toast({
         title: "Department reassigned",
         description: "The issue has been reassigned to a different department.",
@@ -209,14 +317,37 @@ export default function IssueDetail() {
     },
   });
   
+  const changePriorityMutation = useMutation({
+    mutationFn: async (payload: { priority: SLAPriority, justification: string }) => {
+      const res = await apiRequest("PATCH", `/api/issues/${issueId}/priority`, payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateIssueQueries();
+      setIsPriorityDialogOpen(false);
+      toast({
+        title: "Priority changed",
+        description: "The SLA due dates have been recalculated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change priority",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
   const takeDepartmentActionMutation = useMutation({
-    mutationFn: async (payload: { department: Department, reason: string }) => {
-      const res = await apiRequest("POST", `/api/admin/department-action`, payload);
+    mutationFn: async (payload: Omit<TakeDepartmentAction, "issueId">) => {
+      const res = await apiRequest("POST", `/api/admin/department-action`, { issueId, ...payload });
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}`] });
-      queryClient.invalidateQueries({ queryKey: [`/api/admin/issues`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}/department-actions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}/activities`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/department-actions/pending"] });
       setIsDepartmentActionDialogOpen(false);
       toast({
         title: "Action taken",
@@ -232,47 +363,74 @@ export default function IssueDetail() {
     },
   });
 
+  const acknowledgeDepartmentActionMutation = useMutation({
+    mutationFn: async (actionId: number) => {
+      const res = await apiRequest("PATCH", `/api/department-actions/${actionId}/acknowledge`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}/department-actions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/issues/${issueId}/activities`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/department-actions/pending"] });
+      toast({
+        title: "Instruction acknowledged",
+        description: "The administrators can see that your department has received it.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to acknowledge instruction",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Action handlers
   const onSubmitComment = (data: CommentFormValues) => {
     addCommentMutation.mutate(data);
   };
 
-  const handleMarkInProgress = () => {
-    updateStatusMutation.mutate(IssueStatus.IN_PROGRESS);
-  };
-  
-  const handleMarkPending = () => {
-    updateStatusMutation.mutate(IssueStatus.PENDING);
-  };
-
-  const handleMarkCompleted = () => {
-    updateStatusMutation.mutate(IssueStatus.COMPLETED);
+  // Transitions that need more input go through the dialog first
+  const handleTransition = (transition: WorkflowTransition) => {
+    if (transition.requiredFields || transition.showsResolution) {
+      setPendingTransition(transition);
+    } else {
+      updateStatusMutation.mutate({ status: transition.to });
+    }
   };
 
-  const handleVerify = () => {
-    updateStatusMutation.mutate(IssueStatus.VERIFIED);
+  const openEscalateDialog = (levels: EscalationLevel[]) => {
+    setSelectedEscalationLevel(levels[0]);
+    setEscalationReason("");
+    setIsEscalateDialogOpen(true);
   };
 
-  const handleReject = () => {
-    updateStatusMutation.mutate(IssueStatus.REJECTED);
+  const openDeescalateDialog = () => {
+    setDeescalationReason("");
+    setIsDeescalateDialogOpen(true);
   };
-
-  const handleEscalate = () => {
-    escalateIssueMutation.mutate("Manual escalation by staff");
+  
+  const openAssignDialog = () => {
+    setSelectedAssignee(issue?.assigneeId ? String(issue.assigneeId) : "unassigned");
+    setIsAssignDialogOpen(true);
   };
   
   const handleReassignDepartment = (department: Department) => {
     reassignDepartmentMutation.mutate(department);
   };
   
-  const handleTakeDepartmentAction = (reason: string) => {
+  const openPriorityDialog = () => {
     if (issue) {
-      takeDepartmentActionMutation.mutate({ 
-        department: issue.department, 
-        reason 
-      });
+      setSelectedPriority(issue.priority);
+      setPriorityJustification("");
+      setIsPriorityDialogOpen(true);
     }
   };
+  
+  const handleTakeDepartmentAction = (action: Omit<TakeDepartmentAction, "issueId">) => {
+    takeDepartmentActionMutation.mutate(action);
+  };
 
   // Loading state
   if (issueLoading) {
@@ -309,50 +467,41 @@ export default function IssueDetail() {
   }
 
   // Compute permissions (these are not hooks, so they're safe after conditionals)
-  const canMarkInProgress = (
-    (user?.role === UserRole.DEPARTMENT && 
-      user.department === issue.department) || 
-    user?.role === UserRole.ADMIN
-  ) && issue.status === IssueStatus.OPEN;
-  
-  // Department staff can mark an issue as pending when it's in progress
-  const canMarkPending = (
-    (user?.role === UserRole.DEPARTMENT && 
-      user.department === issue.department) || 
-    user?.role === UserRole.ADMIN
-  ) && issue.status === IssueStatus.IN_PROGRESS;
+  const transitions = user ? getAvailableTransitions(issue, user) : [];
 
-  const canMarkCompleted = (
+  // Levels this user can escalate to; the shared tiers decide who may go how high
+  const escalationLevels = user ? getEscalationLevels(issue, user) : [];
+  const currentEscalation = getCurrentEscalation(issue);
+  const canEscalate = escalationLevels.length > 0 && (
+    user?.role !== UserRole.EMPLOYEE ||
+    // Employees can only escalate once one of the conditions is met:
+    issue.slaStatus === SLAStatus.BREACHED || 
+    issue.reopenCount > 0 ||
+    // Check if more than 48 hours since creation
+    !!(issue.createdAt && (Date.now() - new Date(issue.createdAt).getTime()) / (1000 * 60 * 60) >= 48)
+  );
+  const canDeescalateIssue = !!user && canDeescalate(issue, user);
+  
+  // Department staff and admins can assign the issue to the department's staff until it is resolved
+  const isDepartmentStaff = user?.role === UserRole.DEPARTMENT && user.department === issue.department;
+  const canAssign = (isDepartmentStaff || user?.role === UserRole.ADMIN) && !RESOLVED_ISSUE_STATUSES.includes(issue.status);
+  const canAssignToMe = canAssign && isDepartmentStaff && issue.assigneeId !== user?.id;
+  
+  // Department staff and admins can change the priority until the issue is resolved
+  const canChangePriority = (
     (user?.role === UserRole.DEPARTMENT && 
       user.department === issue.department) || 
     user?.role === UserRole.ADMIN
-  ) && (issue.status === IssueStatus.IN_PROGRESS || issue.status === IssueStatus.PENDING);
-
-  const canVerifyOrReject = 
-    user?.role === UserRole.EMPLOYEE && 
-    user.id === issue.reporterId && 
-    issue.status === IssueStatus.COMPLETED;
-
-  // Only employees can escalate issues, not department staff
-  const canEscalate = !issue.isEscalated && 
-    issue.status !== IssueStatus.VERIFIED && 
-    issue.status !== IssueStatus.CLOSED && (
-      // Only employees can escalate if they reported it and one of the conditions is met:
-      (user?.role === UserRole.EMPLOYEE && 
-       user.id === issue.reporterId && 
-       (issue.slaStatus === SLAStatus.BREACHED || 
-        issue.status === IssueStatus.REJECTED ||
-        // Check if more than 48 hours since creation
-        (issue.createdAt && (Date.now() - new Date(issue.createdAt).getTime()) / (1000 * 60 * 60) >= 48)))
-    );
+  ) && issue.status !== IssueStatus.VERIFIED && issue.status !== IssueStatus.CLOSED;
   
   // Admin-specific computed values
   const isAdmin = user?.role === UserRole.ADMIN;
   // Admin should always be able to reassign department when issue is escalated or at risk
   const canReassignDepartment = isAdmin && (issue.slaStatus === SLAStatus.BREACHED || issue.slaStatus === SLAStatus.AT_RISK);
   // Make a separate permission flag for escalated issues - admins should ALWAYS see this option when issues are escalated
-  const canReassignEscalatedIssue = isAdmin && issue.isEscalated;
-  const canTakeDepartmentAction = isAdmin && issue.slaStatus === SLAStatus.BREACHED;
+  const canReassignEscalatedIssue = isAdmin && !!issue.escalationLevel;
+  // Admins can formally direct the department once an issue is escalated
+  const canTakeDepartmentAction = isAdmin && !!issue.escalationLevel;
 
   // Main render
   return (
@@ -384,16 +533,96 @@ export default function IssueDetail() {
                 <CardDescription className="mt-1 flex flex-wrap items-center gap-4">
                   <span className="flex items-center gap-1 text-gray-500">
                     <UserCircle className="h-4 w-4" />
-                    Reporter: ID {issue.reporterId}
+                    Reporter: {issue.reporter?.fullName ?? `User #${issue.reporterId}`}
                   </span>
+                  {issue.assignee && (
+                    <span className="flex items-center gap-1 text-gray-500">
+                      <UserCircle className="h-4 w-4" />
+                      Assignee: {issue.assignee.fullName}
+                    </span>
+                  )}
                   <span className="flex items-center gap-1 text-gray-500">
                     <Clock className="h-4 w-4" />
                     Created: {issue.createdAt ? format(new Date(issue.createdAt), "MMM d, yyyy h:mm a") : "Unknown"}
                   </span>
-                  <SLAIndicator status={issue.slaStatus} dueDate={issue.dueBy} />
+                  <SLAIndicator label="Response" status={issue.responseSlaStatus} dueDate={issue.responseDueBy} />
+                  <SLAIndicator label="Resolution" status={issue.slaStatus} dueDate={issue.dueBy} />
+                  {issue.reopenCount > 0 && (
+                    <span className="flex items-center gap-1 text-gray-500">
+                      <RotateCcw className="h-4 w-4" />
+                      Reopened {issue.reopenCount === 1 ? "once" : `${issue.reopenCount} times`}
+                    </span>
+                  )}
+                  {issue.slaPauses.length > 0 && (
+                    <span className="flex items-center gap-1 text-gray-500">
+                      <PauseCircle className="h-4 w-4" />
+                      {issue.status === IssueStatus.PENDING ? "SLA paused" : "SLA was paused"} for {formatPausedTime(getPausedTime(issue))}
+                    </span>
+                  )}
                 </CardDescription>
               </CardHeader>
               <Separator />
+              {issue.resolutionSummary && (
+                <div className={`mx-6 mt-4 rounded-md border p-4 ${
+                  OPEN_ISSUE_STATUSES.includes(issue.status) ? "border-gray-200 bg-gray-50" : "border-green-200 bg-green-50"
+                }`}>
+                  <div className="flex items-center gap-2">
+                    <CheckCircle className={`h-4 w-4 ${OPEN_ISSUE_STATUSES.includes(issue.status) ? "text-gray-500" : "text-green-600"}`} />
+                    <span className="text-sm font-medium text-gray-900">
+                      {OPEN_ISSUE_STATUSES.includes(issue.status) ? "Previous resolution (rejected)" : "Resolution"}
+                    </span>
+                    {issue.resolutionCode && (
+                      <Badge variant="outline">{RESOLUTION_CODE_LABELS[issue.resolutionCode]}</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{issue.resolutionSummary}</p>
+                </div>
+              )}
+              {issue.escalationLevel && currentEscalation && (
+                <div className="mx-6 mt-4 rounded-md border border-red-200 bg-red-50 p-4">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-red-600" />
+                    <span className="text-sm font-medium text-gray-900">
+                      Escalated to {ESCALATION_LEVEL_LABELS[issue.escalationLevel].toLowerCase()}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      since {format(new Date(currentEscalation.escalatedAt), "MMM d, yyyy h:mm a")}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 mt-2">{currentEscalation.reason}</p>
+                </div>
+              )}
+              {departmentActions?.map((action) => (
+                <div key={action.id} className="mx-6 mt-4 rounded-md border border-amber-200 bg-amber-50 p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <ShieldAlert className="h-4 w-4 text-amber-600" />
+                      <span className="text-sm font-medium text-gray-900">
+                        Instruction to the {action.department} department
+                      </span>
+                    </div>
+                    {action.acknowledgedAt ? (
+                      <Badge variant="outline">Acknowledged {format(new Date(action.acknowledgedAt), "MMM d, h:mm a")}</Badge>
+                    ) : user?.role === UserRole.DEPARTMENT && user.department === action.department ? (
+                      <Button
+                        size="sm"
+                        onClick={() => acknowledgeDepartmentActionMutation.mutate(action.id)}
+                        disabled={acknowledgeDepartmentActionMutation.isPending}
+                      >
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Acknowledge
+                      </Button>
+                    ) : (
+                      <Badge variant="destructive">Awaiting acknowledgement</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{action.instruction}</p>
+                  <p className="text-sm text-gray-600 italic mt-1">{action.reason}</p>
+                  <p className={`text-xs mt-2 ${!action.acknowledgedAt && new Date(action.deadline) < new Date() ? "text-red-600 font-medium" : "text-gray-500"}`}>
+                    Due by {format(new Date(action.deadline), "MMM d, yyyy h:mm a")}
+                  </p>
+                </div>
+              ))}
               <Tabs value={activeTab} onValueChange={setActiveTab}>
                 <div className="px-6">
                   <TabsList className="mt-4 w-full justify-start">
@@ -405,6 +634,9 @@ export default function IssueDetail() {
                       }
                     </TabsTrigger>
                     <TabsTrigger value="history">History</TabsTrigger>
+                    {issue.escalations.length > 0 && (
+                      <TabsTrigger value="escalations">Escalations ({issue.escalations.length})</TabsTrigger>
+                    )}
                   </TabsList>
                 </div>
 
@@ -499,16 +731,56 @@ export default function IssueDetail() {
                           </div>
                           <div>
                             <p className="text-sm">
-                              <span className="font-medium">User ID {activity.userId}</span>{" "}
+                              <span className="font-medium">{activity.userId === null ? "System" : activity.user?.fullName ?? `User #${activity.userId}`}</span>{" "}
                               <span className="text-gray-500">
                                 {activity.action === "created" && "created this issue"}
                                 {activity.action === "updated_status" && `changed status from ${(activity.details as any).fromStatus} to ${(activity.details as any).toStatus}`}
-                                {activity.action === "assigned" && "assigned this issue"}
-                                {activity.action === "escalated" && "escalated this issue"}
+                                {activity.action === "assigned" && ((activity.details as any).assigneeId === activity.userId
+                                  ? "assigned this issue to themselves"
+                                  : `assigned this issue to ${(activity.details as any).assigneeName ?? `user #${(activity.details as any).assigneeId}`}`)}
+                                {activity.action === "unassigned" && "unassigned this issue"}
+                                {activity.action === "auto_assigned" && `assigned this issue to ${(activity.details as any).assigneeName} automatically`}
+                                {activity.action === "escalated" && ((activity.details as any).level
+                                  ? `escalated this issue to ${ESCALATION_LEVEL_LABELS[(activity.details as any).level as EscalationLevel].toLowerCase()}`
+                                  : "escalated this issue")}
+                                {activity.action === "deescalated" && `de-escalated this issue back to ${(activity.details as any).toStatus}`}
+                                {activity.action === "department_action" && `directed the ${(activity.details as any).department} department to act by ${format(new Date((activity.details as any).deadline), "MMM d, yyyy h:mm a")}`}
+                                {activity.action === "department_action_acknowledged" && "acknowledged the administrators' instruction"}
                                 {activity.action === "commented" && "commented on this issue"}
                                 {activity.action === "department_changed" && `reassigned from ${(activity.details as any).fromDepartment} to ${(activity.details as any).toDepartment} department`}
+                                {activity.action === "auto_close_notice" && `warned that this issue will be verified and closed automatically on ${format(new Date((activity.details as any).closesAt), "MMM d, yyyy")} unless the reporter responds`}
+                                {activity.action === "auto_verified" && "verified this issue after the reporter did not respond"}
+                                {activity.action === "auto_closed" && ((activity.details as any).autoVerified
+                                  ? "verified and closed this issue after the reporter did not respond"
+                                  : "closed this issue after it was verified")}
+                                {activity.action === "reopened" && `reopened this issue as ${(activity.details as any).toStatus} after the resolution was rejected`}
+                                {activity.action === "priority_changed" && `changed priority from ${(activity.details as any).fromPriority} to ${(activity.details as any).toPriority}`}
+                                {activity.action === "sla_at_risk" && "flagged this issue's SLA as at risk"}
+                                {activity.action === "sla_breached" && "recorded an SLA breach on this issue"}
+                                {activity.action === "response_sla_at_risk" && "flagged this issue's first response as at risk"}
+                                {activity.action === "response_sla_breached" && "recorded a missed first response on this issue"}
                               </span>
                             </p>
+                            {activity.action === "updated_status" && (activity.details as any).note && (
+                              <p className="text-sm text-gray-600 italic">{(activity.details as any).note}</p>
+                            )}
+                            {activity.action === "updated_status" && (activity.details as any).resolutionSummary && (
+                              <p className="text-sm text-gray-600 italic">
+                                {RESOLUTION_CODE_LABELS[(activity.details as any).resolutionCode as keyof typeof RESOLUTION_CODE_LABELS]}: {(activity.details as any).resolutionSummary}
+                              </p>
+                            )}
+                            {activity.action === "auto_assigned" && (
+                              <p className="text-sm text-gray-600 italic">{(activity.details as any).reason}</p>
+                            )}
+                            {activity.action === "department_action" && (
+                              <p className="text-sm text-gray-600 italic">{(activity.details as any).instruction}</p>
+                            )}
+                            {(activity.action === "escalated" || activity.action === "deescalated") && (activity.details as any).reason && (
+                              <p className="text-sm text-gray-600 italic">{(activity.details as any).reason}</p>
+                            )}
+                            {activity.action === "priority_changed" && (
+                              <p className="text-sm text-gray-600 italic">{(activity.details as any).justification}</p>
+                            )}
                             <p className="text-xs text-gray-500">
                               {activity.createdAt ? format(new Date(activity.createdAt), "MMM d, yyyy h:mm a") : "Unknown"}
                             </p>
@@ -524,70 +796,325 @@ export default function IssueDetail() {
                     </div>
                   )}
                 </TabsContent>
+
+                <TabsContent value="escalations" className="p-6 pt-4">
+                  <div className="space-y-4">
+                    {issue.escalations.map((step, index) => (
+                      <div key={index} className="flex space-x-3">
+                        <div className="flex-shrink-0">
+                          <div className={`w-8 h-8 rounded-full flex items-center justify-center ${step.deescalatedAt ? "bg-gray-100" : "bg-red-100"}`}>
+                            <AlertTriangle className={`h-4 w-4 ${step.deescalatedAt ? "text-gray-500" : "text-red-600"}`} />
+                          </div>
+                        </div>
+                        <div>
+                          <p className="text-sm">
+                            <span className="font-medium">{ESCALATION_LEVEL_LABELS[step.level]}</span>{" "}
+                            <span className="text-gray-500">
+                              {step.ruleId ? "by an escalation rule" : "manually"} on {format(new Date(step.escalatedAt), "MMM d, yyyy h:mm a")}
+                            </span>
+                          </p>
+                          <p className="text-sm text-gray-600 italic">{step.reason}</p>
+                          {step.deescalatedAt && (
+                            <p className="text-xs text-gray-500">
+                              De-escalated on {format(new Date(step.deescalatedAt), "MMM d, yyyy h:mm a")}: {step.deescalationReason}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </TabsContent>
               </Tabs>
               <CardFooter className="flex flex-wrap gap-2 justify-end border-t p-4">
-                {/* Regular status update actions */}
-                {canMarkInProgress && (
+                {/* Status changes the workflow allows for this user */}
+                {transitions.map((transition) => (
                   <Button 
-                    onClick={handleMarkInProgress}
+                    key={`${transition.to}-${transition.label}`}
+                    variant={TRANSITION_VARIANTS[transition.to] ?? "default"}
+                    onClick={() => handleTransition(transition)}
                     disabled={updateStatusMutation.isPending}
                   >
-                    <Clock className="mr-2 h-4 w-4" />
-                    Mark In Progress
+                    {TRANSITION_ICONS[transition.to] ?? <CheckCircle className="mr-2 h-4 w-4" />}
+                    {transition.label}
                   </Button>
-                )}
+                ))}
                 
-                {canMarkPending && (
-                  <Button 
+                <StatusTransitionDialog
+                  transition={pendingTransition}
+                  resolution={issue}
+                  onOpenChange={(open) => !open && setPendingTransition(null)}
+                  onSubmit={(input) => pendingTransition && updateStatusMutation.mutate({ status: pendingTransition.to, ...input })}
+                  isSubmitting={updateStatusMutation.isPending}
+                />
+
+                {canAssignToMe && (
+                  <Button
                     variant="outline"
-                    onClick={handleMarkPending}
-                    disabled={updateStatusMutation.isPending}
-                  >
-                    <Clock className="mr-2 h-4 w-4" />
-                    Mark as Pending
-                  </Button>
-                )}
-                
-                {canMarkCompleted && (
-                  <Button 
-                    onClick={handleMarkCompleted}
-                    disabled={updateStatusMutation.isPending}
+                    onClick={() => assignIssueMutation.mutate(user!.id)}
+                    disabled={assignIssueMutation.isPending}
                   >
-                    <CheckCircle className="mr-2 h-4 w-4" />
-                    Mark as Completed
+                    <User className="mr-2 h-4 w-4" />
+                    Assign to Me
                   </Button>
                 )}
 
-                {canVerifyOrReject && (
+                {canAssign && (
                   <>
                     <Button 
                       variant="outline"
-                      onClick={handleReject}
-                      disabled={updateStatusMutation.isPending}
+                      onClick={openAssignDialog}
                     >
-                      <XCircle className="mr-2 h-4 w-4" />
-                      Reject
+                      <UserPlus className="mr-2 h-4 w-4" />
+                      {issue.assignee ? "Reassign" : "Assign"}
                     </Button>
+                    
+                    <Dialog open={isAssignDialogOpen} onOpenChange={setIsAssignDialogOpen}>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Assign Issue</DialogTitle>
+                          <DialogDescription>
+                            Issues can be assigned to active staff of the {issue.department} department.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-2 py-2">
+                          <Label>Assignee</Label>
+                          {departmentMembersLoading ? (
+                            <div className="flex justify-center py-2">
+                              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                            </div>
+                          ) : (
+                            <Select value={selectedAssignee} onValueChange={setSelectedAssignee}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="unassigned">Unassigned</SelectItem>
+                                {departmentMembers?.map((member) => (
+                                  <SelectItem key={member.id} value={String(member.id)}>
+                                    {member.fullName}{member.id === user?.id ? " (me)" : ""}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                        <DialogFooter>
+                          <Button 
+                            variant="outline" 
+                            onClick={() => setIsAssignDialogOpen(false)}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            disabled={
+                              selectedAssignee === (issue.assigneeId ? String(issue.assigneeId) : "unassigned") ||
+                              assignIssueMutation.isPending
+                            }
+                            onClick={() => assignIssueMutation.mutate(
+                              selectedAssignee === "unassigned" ? null : parseInt(selectedAssignee)
+                            )}
+                          >
+                            {assignIssueMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {selectedAssignee === "unassigned" ? "Unassign" : "Assign"}
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+                  </>
+                )}
+
+                {canChangePriority && (
+                  <>
                     <Button 
-                      onClick={handleVerify}
-                      disabled={updateStatusMutation.isPending}
+                      variant="outline"
+                      onClick={openPriorityDialog}
                     >
-                      <CheckCircle className="mr-2 h-4 w-4" />
-                      Verify Resolution
+                      <Gauge className="mr-2 h-4 w-4" />
+                      Change Priority
                     </Button>
+                    
+                    <Dialog open={isPriorityDialogOpen} onOpenChange={setIsPriorityDialogOpen}>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Change Priority</DialogTitle>
+                          <DialogDescription>
+                            The SLA due dates are recalculated from the policy for the new priority.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-4 py-2">
+                          <div className="space-y-2">
+                            <Label>Priority</Label>
+                            <Select
+                              value={selectedPriority}
+                              onValueChange={(value) => setSelectedPriority(value as SLAPriority)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={SLAPriority.CRITICAL}>Critical</SelectItem>
+                                <SelectItem value={SLAPriority.HIGH}>High</SelectItem>
+                                <SelectItem value={SLAPriority.MEDIUM}>Medium</SelectItem>
+                                <SelectItem value={SLAPriority.LOW}>Low</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="priority-justification">Justification</Label>
+                            <Textarea
+                              id="priority-justification"
+                              placeholder="Why does this issue need a different priority?"
+                              value={priorityJustification}
+                              onChange={(e) => setPriorityJustification(e.target.value)}
+                            />
+                          </div>
+                        </div>
+                        <DialogFooter>
+                          <Button 
+                            variant="outline" 
+                            onClick={() => setIsPriorityDialogOpen(false)}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            disabled={
+                              selectedPriority === issue.priority ||
+                              !priorityJustification.trim() ||
+                              changePriorityMutation.isPending
+                            }
+                            onClick={() => changePriorityMutation.mutate({
+                              priority: selectedPriority,
+                              justification: priorityJustification.trim(),
+                            })}
+                          >
+                            {changePriorityMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Change Priority
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
                   </>
                 )}
 
-                {/* Escalation action */}
+                {/* Escalation actions */}
                 {canEscalate && (
-                  <Button 
-                    variant="destructive"
-                    onClick={handleEscalate}
-                    disabled={escalateIssueMutation.isPending}
-                  >
-                    <AlertTriangle className="mr-2 h-4 w-4" />
-                    Escalate
-                  </Button>
+                  <>
+                    <Button 
+                      variant="destructive"
+                      onClick={() => openEscalateDialog(escalationLevels)}
+                      disabled={escalateIssueMutation.isPending}
+                    >
+                      <AlertTriangle className="mr-2 h-4 w-4" />
+                      Escalate
+                    </Button>
+
+                    <Dialog open={isEscalateDialogOpen} onOpenChange={setIsEscalateDialogOpen}>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Escalate Issue</DialogTitle>
+                          <DialogDescription>
+                            {issue.escalationLevel
+                              ? `This issue is currently escalated to ${ESCALATION_LEVEL_LABELS[issue.escalationLevel].toLowerCase()}.`
+                              : "The issue stays escalated until it is de-escalated back to its current status."}
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-4 py-2">
+                          <div className="space-y-2">
+                            <Label>Escalate to</Label>
+                            <Select
+                              value={selectedEscalationLevel}
+                              onValueChange={(value) => setSelectedEscalationLevel(value as EscalationLevel)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {escalationLevels.map((level) => (
+                                  <SelectItem key={level} value={level}>{ESCALATION_LEVEL_LABELS[level]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="escalation-reason">Reason</Label>
+                            <Textarea
+                              id="escalation-reason"
+                              placeholder="Why does this issue need more attention?"
+                              value={escalationReason}
+                              onChange={(e) => setEscalationReason(e.target.value)}
+                            />
+                          </div>
+                        </div>
+                        <DialogFooter>
+                          <Button 
+                            variant="outline" 
+                            onClick={() => setIsEscalateDialogOpen(false)}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            disabled={escalateIssueMutation.isPending}
+                            onClick={() => escalateIssueMutation.mutate({
+                              level: selectedEscalationLevel,
+                              reason: escalationReason.trim() || undefined,
+                            })}
+                          >
+                            {escalateIssueMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Escalate
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+                  </>
+                )}
+
+                {canDeescalateIssue && (
+                  <>
+                    <Button 
+                      variant="outline"
+                      onClick={openDeescalateDialog}
+                      disabled={deescalateIssueMutation.isPending}
+                    >
+                      <ArrowDownCircle className="mr-2 h-4 w-4" />
+                      De-escalate
+                    </Button>
+
+                    <Dialog open={isDeescalateDialogOpen} onOpenChange={setIsDeescalateDialogOpen}>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>De-escalate Issue</DialogTitle>
+                          <DialogDescription>
+                            The issue goes back to {issue.escalatedFromStatus ?? IssueStatus.OPEN} and keeps its escalation history.
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-2 py-2">
+                          <Label htmlFor="deescalation-reason">Reason</Label>
+                          <Textarea
+                            id="deescalation-reason"
+                            placeholder="Why does this issue no longer need to be escalated?"
+                            value={deescalationReason}
+                            onChange={(e) => setDeescalationReason(e.target.value)}
+                          />
+                        </div>
+                        <DialogFooter>
+                          <Button 
+                            variant="outline" 
+                            onClick={() => setIsDeescalateDialogOpen(false)}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            disabled={!deescalationReason.trim() || deescalateIssueMutation.isPending}
+                            onClick={() => deescalateIssueMutation.mutate(deescalationReason.trim())}
+                          >
+                            {deescalateIssueMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            De-escalate
+                          </Button>
+                        </DialogFooter>
+                      </DialogContent>
+                    </Dialog>
+                  </>
                 )}
 
                 {/* Admin actions */}
@@ -671,7 +1198,7 @@ export default function IssueDetail() {
                 )}
                 
                 {/* Regular reassign for at-risk or breached SLA, but not escalated */}
-                {canReassignDepartment && !issue.isEscalated && (
+                {canReassignDepartment && !issue.escalationLevel && (
                   <>
                     <Dialog open={isReassignDialogOpen} onOpenChange={setIsReassignDialogOpen}>
                       <DialogTrigger asChild>
@@ -692,7 +1219,7 @@ export default function IssueDetail() {
                         </DialogHeader>
                         <div className="py-4">
                           <p className="mb-4 text-sm text-gray-500">
-                            This issue {issue.isEscalated ? "has been escalated" : "is at risk of breaching SLA"} and needs attention. 
+                            This issue {issue.escalationLevel ? "has been escalated" : "is at risk of breaching SLA"} and needs attention. 
                             Reassigning to another department may help resolve it faster.
                           </p>
                           <div className="space-y-3">
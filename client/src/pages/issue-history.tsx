@@ -0,0 +1,48 @@
+import { IssueStatus, RESOLVED_ISSUE_STATUSES } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { Sidebar } from "@/components/sidebar";
+import { Navbar } from "@/components/navbar";
+import { IssuesTable } from "@/components/dashboard/issues-table";
+
+const STATUS_OPTIONS = [
+  { label: "Verified & Closed", value: RESOLVED_ISSUE_STATUSES.join(",") },
+  { label: "Verified", value: IssueStatus.VERIFIED },
+  { label: "Closed", value: IssueStatus.CLOSED },
+];
+
+export default function IssueHistory() {
+  const { user } = useAuth();
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Navbar title="Issue History" />
+
+        <main className="flex-1 overflow-y-auto bg-gray-100 p-4">
+          <div className="max-w-6xl mx-auto">
+            <IssuesTable
+              endpoint="/api/issues/history"
+              limit={20}
+              statusOptions={STATUS_OPTIONS}
+              defaultStatus={STATUS_OPTIONS[0].value}
+              sortOptions={[
+                { label: "Resolved", value: "resolvedAt" },
+                { label: "Created", value: "createdAt" },
+                { label: "Last updated", value: "updatedAt" },
+                { label: "Priority", value: "priority" },
+              ]}
+              defaultSort="resolvedAt"
+              dateColumn={{ label: "Resolved", field: "resolvedAt" }}
+              extraColumn={{
+                label: "Your Role",
+                render: (issue) => issue.reporterId === user?.id ? "Reporter" : "Assignee",
+              }}
+              emptyMessage="You have no verified or closed issues yet."
+            />
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { format } from "date-fns";
+import { Loader2, MessagesSquare, Search } from "lucide-react";
+import { SearchResults } from "@shared/schema";
+import { Sidebar } from "@/components/sidebar";
+import { Navbar } from "@/components/navbar";
+import { StatusBadge } from "@/components/ui/status-badge";
+import { HighlightedText } from "@/components/ui/highlighted-text";
+import { Card, CardContent } from "@/components/ui/card";
+
+export default function SearchPage() {
+  const q = new URLSearchParams(useSearch()).get("q")?.trim() ?? "";
+
+  const { data, isLoading } = useQuery<SearchResults>({
+    queryKey: ["/api/search", { q, limit: "50" }],
+    enabled: q.length > 0,
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Navbar title="Search" />
+
+        <main className="flex-1 overflow-y-auto bg-gray-100 p-4">
+          <div className="max-w-4xl mx-auto space-y-4">
+            {!q ? (
+              <div className="p-8 text-center text-gray-500">
+                <Search className="mx-auto h-12 w-12 text-gray-300 mb-3" />
+                Search issue titles, descriptions and comments with the box at the top of the page.
+              </div>
+            ) : isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : !data || data.total === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                No issues you can see match "{q}".
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500">
+                  {data.total === 1 ? "1 issue matches" : `${data.total} issues match`} "{q}"
+                  {data.total > data.results.length && `, showing the best ${data.results.length}`}
+                </p>
+
+                {data.results.map((result) => (
+                  <Card key={result.issue.id}>
+                    <CardContent className="p-4 space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Link href={`/issues/${result.issue.id}`}>
+                          <a className="font-medium text-primary hover:underline">
+                            #{result.issue.id} <HighlightedText snippet={result.title} />
+                          </a>
+                        </Link>
+                        <StatusBadge status={result.issue.status} />
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {result.issue.department} · <span className="capitalize">{result.issue.priority}</span> priority
+                        {result.issue.updatedAt && ` · Updated ${format(new Date(result.issue.updatedAt), "MMM d, yyyy")}`}
+                      </p>
+                      {result.snippets.map((snippet, index) => (
+                        <div key={index} className="text-sm text-gray-700">
+                          {snippet.field === "comment" && (
+                            <p className="flex items-center gap-1 text-xs text-gray-500">
+                              <MessagesSquare className="h-3 w-3" />
+                              {snippet.author ?? "Someone"} commented
+                            </p>
+                          )}
+                          <HighlightedText snippet={snippet} />
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                ))}
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
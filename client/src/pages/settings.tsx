@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Sidebar } from "@/components/sidebar";
 import { Navbar } from "@/components/navbar";
 import { useAuth } from "@/hooks/use-auth";
@@ -28,11 +29,12 @@ import { z } from "zod";
 import { toast } from "@/hooks/use-toast";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+import { changePasswordSchema } from "@shared/schema";
 
-const passwordSchema = z.object({
-  currentPassword: z.string().min(6, "Current password must be at least 6 characters"),
-  newPassword: z.string().min(6, "New password must be at least 6 characters"),
-  confirmPassword: z.string().min(6, "Confirm password must be at least 6 characters"),
+const passwordSchema = changePasswordSchema.extend({
+  confirmPassword: z.string().min(1, "Please confirm your new password"),
 }).refine((data) => data.newPassword === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -75,14 +77,31 @@ export default function Settings() {
     },
   });
 
-  const onPasswordSubmit = (data: PasswordFormValues) => {
-    // Handle password change
-    console.log(data);
-    toast({
-      title: "Password updated",
-      description: "Your password has been changed successfully.",
-    });
-    passwordForm.reset();
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: Omit<PasswordFormValues, "confirmPassword">) => {
+      const res = await apiRequest("POST", "/api/user/password", data);
+      return await res.json() as { revokedSessions: number };
+    },
+    onSuccess: ({ revokedSessions }) => {
+      toast({
+        title: "Password updated",
+        description: revokedSessions > 0
+          ? `Your password has been changed and ${revokedSessions} other session(s) were signed out.`
+          : "Your password has been changed successfully.",
+      });
+      passwordForm.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to change password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onPasswordSubmit = ({ currentPassword, newPassword }: PasswordFormValues) => {
+    changePasswordMutation.mutate({ currentPassword, newPassword });
   };
 
   const onNotificationSubmit = (data: NotificationFormValues) => {
@@ -290,7 +309,16 @@ export default function Settings() {
                             </FormItem>
                           )}
                         />
-                        <Button type="submit">Change Password</Button>
+                        <Button type="submit" disabled={changePasswordMutation.isPending}>
+                          {changePasswordMutation.isPending ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Changing...
+                            </>
+                          ) : (
+                            "Change Password"
+                          )}
+                        </Button>
                       </form>
                     </Form>
                   </CardContent>
@@ -7,7 +7,7 @@ import { useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { AlertTriangle, FileText, Loader2 } from "lucide-react";
 import { Department, SLAPriority, insertIssueSchema } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, invalidateIssueQueries } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 import {
@@ -62,8 +62,7 @@ export default function SubmitIssue() {
       return await res.json();
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/issues/me"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/activities/recent"] });
+      invalidateIssueQueries();
       toast({
         title: "Issue created",
         description: `Issue #${data.id} has been created successfully.`,
@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle, AlertTriangle, Inbox, Loader2, Users } from "lucide-react";
+import { Department, IssueWithUsers, MemberWorkload, SLAStatus, TeamWorkload, UserRole, WorkloadIssue } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, invalidateIssueQueries } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { Sidebar } from "@/components/sidebar";
+import { Navbar } from "@/components/navbar";
+import { StatsCard } from "@/components/dashboard/stats-card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const ISSUE_CHIP_STYLES: Partial<Record<SLAStatus, string>> = {
+  [SLAStatus.AT_RISK]: "border-yellow-300 bg-yellow-50",
+  [SLAStatus.BREACHED]: "border-red-300 bg-red-50",
+};
+
+// The issue being dragged and whose row it came from (null for unassigned)
+type DraggedIssue = { issue: WorkloadIssue; fromMemberId: number | null };
+
+function IssueChip({ issue, onDragStart, onDragEnd }: {
+  issue: WorkloadIssue;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+}) {
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      className={cn(
+        "inline-flex max-w-[220px] cursor-grab items-center gap-1 rounded-md border bg-white px-2 py-1 text-xs active:cursor-grabbing",
+        ISSUE_CHIP_STYLES[issue.slaStatus]
+      )}
+      title={`${issue.title} (${issue.status.replace("_", " ")}, ${issue.priority} priority)`}
+    >
+      <Link href={`/issues/${issue.id}`}>
+        <a className="font-medium text-primary hover:underline">#{issue.id}</a>
+      </Link>
+      <span className="truncate text-gray-700">{issue.title}</span>
+    </div>
+  );
+}
+
+export default function TeamWorkloadPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isAdmin = user?.role === UserRole.ADMIN;
+  const [selectedDepartment, setSelectedDepartment] = useState<Department>(user?.department ?? Department.IT);
+  const [dragged, setDragged] = useState<DraggedIssue | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | "unassigned" | null>(null);
+
+  // Department staff always see their own team
+  const department = isAdmin ? selectedDepartment : user?.department ?? selectedDepartment;
+  const workloadEndpoint = `/api/departments/${department}/workload`;
+
+  const { data: workload, isLoading } = useQuery<TeamWorkload>({
+    queryKey: [workloadEndpoint],
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: async ({ issueId, assigneeId }: { issueId: number, assigneeId: number | null }) => {
+      const res = await apiRequest("PATCH", `/api/issues/${issueId}/assign`, { assigneeId });
+      return await res.json();
+    },
+    onSuccess: (updatedIssue: IssueWithUsers) => {
+      invalidateIssueQueries();
+      toast({
+        title: updatedIssue.assignee ? "Issue reassigned" : "Issue unassigned",
+        description: updatedIssue.assignee
+          ? `#${updatedIssue.id} is now with ${updatedIssue.assignee.fullName}.`
+          : `#${updatedIssue.id} no longer has an assignee.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reassign issue",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rowKey = (row: MemberWorkload) => row.member?.id ?? "unassigned";
+
+  // Issues can be dropped on any other row that can take them
+  const canDropOn = (row: MemberWorkload) =>
+    !!dragged && row.isAssignable && dragged.fromMemberId !== (row.member?.id ?? null);
+
+  const handleDrop = (row: MemberWorkload) => {
+    if (dragged && canDropOn(row)) {
+      reassignMutation.mutate({ issueId: dragged.issue.id, assigneeId: row.member?.id ?? null });
+    }
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const rows = workload ? [workload.unassigned, ...workload.members] : [];
+  const totalOpen = rows.reduce((sum, row) => sum + row.total, 0);
+
+  return (
+    <div className="min-h-screen flex flex-col md:flex-row">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Navbar title="Team Workload" />
+
+        <main className="flex-1 overflow-y-auto bg-gray-100 p-4">
+          <div className="max-w-6xl mx-auto">
+            {isAdmin && (
+              <div className="flex justify-end mb-4">
+                <Select value={selectedDepartment} onValueChange={(value) => setSelectedDepartment(value as Department)}>
+                  <SelectTrigger className="w-[200px] bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(Department).map((dept) => (
+                      <SelectItem key={dept} value={dept}>{dept}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+              <StatsCard
+                title="Open Issues"
+                value={totalOpen}
+                icon={<Users className="h-5 w-5 text-primary" />}
+                iconBgColor="bg-primary/10"
+                tooltip={`Issues the ${department} department still has to work on`}
+              />
+              <StatsCard
+                title="Unassigned"
+                value={workload?.unassigned.total ?? 0}
+                icon={<Inbox className="h-5 w-5 text-gray-600" />}
+                iconBgColor="bg-gray-100"
+                change={workload?.unassigned.oldestCreatedAt ? {
+                  value: `Oldest ${formatDistanceToNow(new Date(workload.unassigned.oldestCreatedAt))} old`,
+                  positive: false,
+                } : undefined}
+              />
+              <StatsCard
+                title="SLA Breached"
+                value={rows.reduce((sum, row) => sum + row.breached, 0)}
+                icon={<AlertCircle className="h-5 w-5 text-red-600" />}
+                iconBgColor="bg-red-100"
+              />
+              <StatsCard
+                title="SLA At Risk"
+                value={rows.reduce((sum, row) => sum + row.atRisk, 0)}
+                icon={<AlertTriangle className="h-5 w-5 text-yellow-600" />}
+                iconBgColor="bg-yellow-100"
+              />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{department} Team</CardTitle>
+                <CardDescription>Drag an issue onto a colleague to reassign it, or onto Unassigned to take it off its assignee.</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full bg-white">
+                      <thead>
+                        <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <th className="px-4 py-3 border-b border-gray-200">Member</th>
+                          <th className="px-4 py-3 border-b border-gray-200 text-right">Open</th>
+                          <th className="px-4 py-3 border-b border-gray-200 text-right">In Progress</th>
+                          <th className="px-4 py-3 border-b border-gray-200 text-right">Pending</th>
+                          <th className="px-4 py-3 border-b border-gray-200 text-right">Breached</th>
+                          <th className="px-4 py-3 border-b border-gray-200 text-right">At Risk</th>
+                          <th className="px-4 py-3 border-b border-gray-200">Oldest</th>
+                          <th className="px-4 py-3 border-b border-gray-200">Issues</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {rows.map((row) => (
+                          <tr
+                            key={rowKey(row)}
+                            className={cn(
+                              "align-top",
+                              dropTarget === rowKey(row) && canDropOn(row) && "bg-primary/5 outline outline-2 outline-primary/40"
+                            )}
+                            onDragOver={(e) => {
+                              if (!canDropOn(row)) return;
+                              e.preventDefault();
+                              setDropTarget(rowKey(row));
+                            }}
+                            onDragLeave={() => setDropTarget((current) => current === rowKey(row) ? null : current)}
+                            onDrop={(e) => {
+                              e.preventDefault();
+                              handleDrop(row);
+                            }}
+                          >
+                            <td className="px-4 py-3 text-sm">
+                              {row.member ? (
+                                <>
+                                  <span className="font-medium text-gray-900">
+                                    {row.member.fullName}{row.member.id === user?.id ? " (me)" : ""}
+                                  </span>
+                                  {!row.isAssignable && <p className="text-xs text-gray-500">No longer on the team</p>}
+                                </>
+                              ) : (
+                                <span className="font-medium italic text-gray-500">Unassigned</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right">{row.open}</td>
+                            <td className="px-4 py-3 text-sm text-right">{row.inProgress}</td>
+                            <td className="px-4 py-3 text-sm text-right">{row.pending}</td>
+                            <td className={cn("px-4 py-3 text-sm text-right", row.breached > 0 && "font-medium text-red-600")}>{row.breached}</td>
+                            <td className={cn("px-4 py-3 text-sm text-right", row.atRisk > 0 && "font-medium text-yellow-600")}>{row.atRisk}</td>
+                            <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">
+                              {row.oldestCreatedAt ? formatDistanceToNow(new Date(row.oldestCreatedAt)) : "—"}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              {row.issues.length === 0 ? (
+                                <span className="text-xs text-gray-400">No open issues</span>
+                              ) : (
+                                <div className="flex flex-wrap gap-1">
+                                  {row.issues.map((issue) => (
+                                    <IssueChip
+                                      key={issue.id}
+                                      issue={issue}
+                                      onDragStart={() => setDragged({ issue, fromMemberId: row.member?.id ?? null })}
+                                      onDragEnd={() => {
+                                        setDragged(null);
+                                        setDropTarget(null);
+                                      }}
+                                    />
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
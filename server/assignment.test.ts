@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type AssignmentSettings, type UserIssueCounts, AssignmentStrategy, Department, UserRole } from "@shared/schema";
+import { chooseAssignee, isAssignable } from "./assignment";
+import { createTestIssue, createTestUser } from "./test-fixtures";
+
+function createTestSettings(overrides: Partial<AssignmentSettings> = {}): AssignmentSettings {
+  return {
+    id: 1,
+    department: Department.IT,
+    strategy: AssignmentStrategy.MANUAL,
+    excludedUserIds: [],
+    memberSkills: [],
+    lastAssigneeId: null,
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides
+  };
+}
+
+const staff = [createTestUser({ id: 1 }), createTestUser({ id: 2 }), createTestUser({ id: 3 })];
+const openCounts: Record<number, UserIssueCounts> = {
+  1: { reported: 0, assigned: 3 },
+  2: { reported: 0, assigned: 1 },
+  3: { reported: 0, assigned: 1 }
+};
+const issue = createTestIssue();
+
+function choose(settings: Partial<AssignmentSettings>, candidates = staff, issueText = issue) {
+  return chooseAssignee(createTestSettings(settings), candidates, issueText, openCounts);
+}
+
+describe("isAssignable", () => {
+  it("only accepts active staff of the issue's department", () => {
+    assert.equal(isAssignable(staff[0], Department.IT), true);
+    assert.equal(isAssignable(staff[0], Department.HR), false);
+    assert.equal(isAssignable({ ...staff[0], isActive: false }, Department.IT), false);
+    assert.equal(isAssignable({ ...staff[0], role: UserRole.EMPLOYEE }, Department.IT), false);
+  });
+});
+
+describe("chooseAssignee", () => {
+  it("picks nobody for manual assignment or without staff", () => {
+    assert.equal(choose({ strategy: AssignmentStrategy.MANUAL }), undefined);
+    assert.equal(choose({ strategy: AssignmentStrategy.LEAST_OPEN }, []), undefined);
+  });
+
+  it("rotates through staff in account order", () => {
+    assert.equal(choose({ strategy: AssignmentStrategy.ROUND_ROBIN })?.assignee.id, 1);
+    assert.equal(choose({ strategy: AssignmentStrategy.ROUND_ROBIN, lastAssigneeId: 2 })?.assignee.id, 3);
+    assert.equal(choose({ strategy: AssignmentStrategy.ROUND_ROBIN, lastAssigneeId: 3 })?.assignee.id, 1);
+  });
+
+  it("picks the fewest open issues, the longest-standing account on a tie", () => {
+    assert.deepEqual(choose({ strategy: AssignmentStrategy.LEAST_OPEN }), {
+      assignee: staff[1],
+      reason: "Fewest open issues (1) among 3 available staff"
+    });
+  });
+
+  it("picks the most matched skill tags, then the lighter workload", () => {
+    const memberSkills = [
+      { userId: 1, skills: ["printer", "network"] },
+      { userId: 2, skills: ["vpn"] },
+      { userId: 3, skills: ["printer"] }
+    ];
+    const choice = choose({ strategy: AssignmentStrategy.SKILLS, memberSkills });
+    assert.equal(choice?.assignee.id, 3);
+    assert.equal(choice?.reason, "Matched skill tags: printer");
+  });
+
+  it("matches skill tags as whole words only", () => {
+    const memberSkills = [{ userId: 2, skills: ["net"] }];
+    const outage = createTestIssue({ title: "Network outage", description: "Nothing loads" });
+    const choice = choose({ strategy: AssignmentStrategy.SKILLS, memberSkills }, staff, outage);
+    assert.equal(choice?.assignee.id, 2);
+    assert.match(choice!.reason, /^No skill tags matched\. Fewest open issues/);
+  });
+});
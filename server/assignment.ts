@@ -0,0 +1,122 @@
+import { type AssignmentSettings, type Issue, type User, type UserIssueCounts, type Department, AssignmentStrategy, UserRole } from "@shared/schema";
+import { storage } from "./storage";
+
+// What caused an issue to be assigned automatically
+export type AssignmentTrigger = "created" | "department_changed";
+
+type AssignmentChoice = { assignee: User; reason: string };
+
+// Issues are worked by the active staff of their department
+export function isAssignable(user: User, department: Department): boolean {
+  return user.isActive && user.role === UserRole.DEPARTMENT && user.department === department;
+}
+
+function openIssuesOf(user: User, openCounts: Record<number, UserIssueCounts>): number {
+  return openCounts[user.id]?.assigned ?? 0;
+}
+
+// Fewest open issues first; the longest-standing account wins a tie
+function byWorkload(candidates: User[], openCounts: Record<number, UserIssueCounts>): User[] {
+  return [...candidates].sort((a, b) => openIssuesOf(a, openCounts) - openIssuesOf(b, openCounts) || a.id - b.id);
+}
+
+function chooseLeastOpen(candidates: User[], openCounts: Record<number, UserIssueCounts>, prefix = ""): AssignmentChoice {
+  const [assignee] = byWorkload(candidates, openCounts);
+  const open = openIssuesOf(assignee, openCounts);
+  return { assignee, reason: `${prefix}Fewest open issues (${open}) among ${candidates.length} available staff` };
+}
+
+// The next member of staff after the last one assigned, in account order
+function chooseRoundRobin(candidates: User[], lastAssigneeId: number | null): AssignmentChoice {
+  const rotation = [...candidates].sort((a, b) => a.id - b.id);
+  const next = lastAssigneeId === null ? undefined : rotation.find((user) => user.id > lastAssigneeId);
+  return { assignee: next ?? rotation[0], reason: `Next in the round-robin rotation of ${rotation.length} available staff` };
+}
+
+// Skills count when they appear as whole words in the issue's title or description
+function getMatchedSkills(skills: string[], issue: Pick<Issue, "title" | "description">): string[] {
+  const text = `${issue.title} ${issue.description}`.toLowerCase();
+  return skills.filter((skill) => {
+    const escaped = skill.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`(^|\\W)${escaped}($|\\W)`).test(text);
+  });
+}
+
+// Most matched skills wins, then the lighter workload. Without any match the
+// issue goes to whoever has the fewest open issues.
+function chooseBySkills(
+  candidates: User[],
+  settings: AssignmentSettings,
+  issue: Pick<Issue, "title" | "description">,
+  openCounts: Record<number, UserIssueCounts>
+): AssignmentChoice {
+  const matches = new Map(candidates.map((user) => [
+    user.id,
+    getMatchedSkills(settings.memberSkills.find((member) => member.userId === user.id)?.skills ?? [], issue)
+  ]));
+  const best = Math.max(...Array.from(matches.values()).map((skills) => skills.length));
+  if (best === 0) return chooseLeastOpen(candidates, openCounts, "No skill tags matched. ");
+
+  const [assignee] = byWorkload(candidates.filter((user) => matches.get(user.id)!.length === best), openCounts);
+  return { assignee, reason: `Matched skill tags: ${matches.get(assignee.id)!.join(", ")}` };
+}
+
+// Who the department's strategy picks for the issue; undefined when it is assigned manually
+export function chooseAssignee(
+  settings: AssignmentSettings,
+  candidates: User[],
+  issue: Pick<Issue, "title" | "description">,
+  openCounts: Record<number, UserIssueCounts>
+): AssignmentChoice | undefined {
+  if (candidates.length === 0) return undefined;
+
+  switch (settings.strategy) {
+    case AssignmentStrategy.ROUND_ROBIN:
+      return chooseRoundRobin(candidates, settings.lastAssigneeId);
+    case AssignmentStrategy.LEAST_OPEN:
+      return chooseLeastOpen(candidates, openCounts);
+    case AssignmentStrategy.SKILLS:
+      return chooseBySkills(candidates, settings, issue, openCounts);
+    default:
+      return undefined;
+  }
+}
+
+// Assign an unowned issue with its department's strategy and record why in an
+// `auto_assigned` activity. Returns the issue unchanged if nobody was picked.
+export async function autoAssignIssue(issue: Issue, trigger: AssignmentTrigger): Promise<Issue> {
+  if (issue.assigneeId) return issue;
+
+  const settings = await storage.getAssignmentSettings(issue.department);
+  if (!settings || settings.strategy === AssignmentStrategy.MANUAL) return issue;
+
+  const candidates = (await storage.getUsersByDepartment(issue.department))
+    .filter((user) => isAssignable(user, issue.department) && !settings.excludedUserIds.includes(user.id));
+  const openCounts = await storage.getOpenIssueCountsByUser();
+
+  const choice = chooseAssignee(settings, candidates, issue, openCounts);
+  if (!choice) return issue;
+
+  const updatedIssue = await storage.autoAssignIssue(issue.id, choice.assignee.id);
+  if (!updatedIssue) return issue;
+
+  if (settings.strategy === AssignmentStrategy.ROUND_ROBIN) {
+    await storage.recordRoundRobinAssignee(issue.department, choice.assignee.id);
+  }
+
+  await storage.createActivity({
+    issueId: issue.id,
+    userId: null,
+    action: "auto_assigned",
+    details: {
+      assigneeId: choice.assignee.id,
+      assigneeName: choice.assignee.fullName,
+      department: issue.department,
+      strategy: settings.strategy,
+      reason: choice.reason,
+      trigger
+    }
+  });
+
+  return updatedIssue;
+}
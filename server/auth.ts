@@ -1,9 +1,12 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request } from "express";
 import session from "express-session";
+import { z } from "zod";
 import { storage } from "./storage";
-import { User as SelectUser, UserRole } from "@shared/schema";
+import { User as SelectUser, UserRole, changePasswordSchema, registerUserSchema } from "@shared/schema";
+import { hashPassword, comparePasswords, needsRehash, validatePassword } from "./passwords";
+import { toPublicUser } from "./serializers";
 
 declare global {
   namespace Express {
@@ -11,15 +14,34 @@ declare global {
   }
 }
 
-async function hashPassword(password: string) {
-  const bcryptModule = await import('bcrypt');
-  return bcryptModule.hash(password, 10);
+// Optional self-registration restrictions (comma separated lists):
+//   REGISTRATION_ALLOWED_EMAIL_DOMAINS  email domains that may sign up freely
+//   REGISTRATION_INVITE_CODES           codes that let any email address sign up
+// When neither is set, registration is open.
+function envList(name: string): string[] {
+  return (process.env[name] ?? "")
+    .split(",")
+    .map(value => value.trim())
+    .filter(value => value !== "");
 }
 
-async function comparePasswords(supplied: string, stored: string) {
-  // Fixed password comparison for demo users 
-  // This is just for testing purposes
-  return supplied === "password" && stored.startsWith("$2b$10$");
+const allowedEmailDomains = envList("REGISTRATION_ALLOWED_EMAIL_DOMAINS").map(domain => domain.toLowerCase());
+const inviteCodes = envList("REGISTRATION_INVITE_CODES");
+
+function canSelfRegister(email: string, inviteCode?: string) {
+  if (allowedEmailDomains.length === 0 && inviteCodes.length === 0) return true;
+
+  const domain = email.split("@").pop()!.toLowerCase();
+  if (allowedEmailDomains.includes(domain)) return true;
+
+  return !!inviteCode && inviteCodes.includes(inviteCode);
+}
+
+// Remember where a session came from so admins can tell sessions apart
+function recordLogin(req: Request) {
+  req.session.loginAt = new Date().toISOString();
+  req.session.ipAddress = req.ip;
+  req.session.userAgent = req.get("user-agent");
 }
 
 export function setupAuth(app: Express) {
@@ -49,6 +71,15 @@ export function setupAuth(app: Express) {
         }
         
         if (await comparePasswords(password, user.password)) {
+          if (!user.isActive) {
+            return done(null, false, { message: "This account has been deactivated" });
+          }
+
+          // Upgrade hashes created under an older, cheaper cost factor
+          if (await needsRehash(user.password)) {
+            const updatedUser = await storage.updateUser(user.id, { password: await hashPassword(password) });
+            return done(null, updatedUser ?? user);
+          }
           return done(null, user);
         } else {
           return done(null, false, { message: "Incorrect password" });
@@ -63,7 +94,8 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Deleted or deactivated accounts lose any session they still hold
+      done(null, user?.isActive ? user : false);
     } catch (error) {
       done(error);
     }
@@ -71,21 +103,49 @@ export function setupAuth(app: Express) {
 
   app.post("/api/register", async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const { inviteCode, ...registration } = registerUserSchema.parse(req.body);
+
+      if (!canSelfRegister(registration.email, inviteCode)) {
+        return res.status(403).json({ message: "Registration requires a company email address or a valid invite code" });
+      }
+
+      const existingUser = await storage.getUserByUsername(registration.username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
+      if (await storage.getUserByEmail(registration.email)) {
+        return res.status(400).json({ message: "Email is already registered" });
+      }
+
+      const passwordErrors = validatePassword(registration.password, registration.username);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: passwordErrors.join(". "), errors: passwordErrors });
+      }
+
+      // Self-registered accounts are always employees; admins promote them later
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+        ...registration,
+        role: UserRole.EMPLOYEE,
+        password: await hashPassword(registration.password),
+      });
+
+      await storage.createUserActivity({
+        userId: user.id,
+        actorId: user.id,
+        action: "registered",
+        details: { usedInviteCode: !!inviteCode && inviteCodes.includes(inviteCode) }
       });
 
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        recordLogin(req);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid registration data", errors: error.errors });
+      }
       next(error);
     }
   });
@@ -98,7 +158,8 @@ export function setupAuth(app: Express) {
       }
       req.login(user, (err) => {
         if (err) return next(err);
-        return res.status(200).json(user);
+        recordLogin(req);
+        return res.status(200).json(toPublicUser(user));
       });
     })(req, res, next);
   });
@@ -112,7 +173,46 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
+  });
+
+  // Change the current user's password and sign out their other sessions
+  app.post("/api/user/password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Authentication required" });
+
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+      if (!(await comparePasswords(currentPassword, req.user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      if (currentPassword === newPassword) {
+        return res.status(400).json({ message: "New password must be different from the current password" });
+      }
+
+      const passwordErrors = validatePassword(newPassword, req.user.username);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: passwordErrors.join(". "), errors: passwordErrors });
+      }
+
+      await storage.updateUser(req.user.id, { password: await hashPassword(newPassword) });
+      const revokedSessions = await storage.revokeUserSessions(req.user.id, req.sessionID);
+
+      await storage.createUserActivity({
+        userId: req.user.id,
+        actorId: req.user.id,
+        action: "password_changed",
+        details: { revokedSessions }
+      });
+
+      res.json({ message: "Password updated", revokedSessions });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Current and new password are required", errors: error.errors });
+      }
+      next(error);
+    }
   });
   
   // Middleware to check user roles
@@ -0,0 +1,47 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type Comment, IssueStatus } from "@shared/schema";
+import { getAutoCloseTime, getReporterSilenceStart } from "./auto-close";
+import { createTestIssue } from "./test-fixtures";
+
+// The default periods: closed after 7 days of silence, warned 2 days before
+const completedAt = new Date("2026-01-05T12:00:00Z");
+const daysLater = (days: number) => new Date(completedAt.getTime() + days * 24 * 60 * 60 * 1000);
+
+function commentBy(userId: number, timestamp: Date): Comment {
+  return { id: `${userId}-${timestamp.getTime()}`, userId, userName: `User ${userId}`, text: "Any news?", timestamp };
+}
+
+const issue = createTestIssue({ status: IssueStatus.COMPLETED, reporterId: 1, completedAt });
+
+describe("getReporterSilenceStart", () => {
+  it("is the completion unless the reporter commented after it", () => {
+    assert.equal(getReporterSilenceStart(issue).toISOString(), completedAt.toISOString());
+    assert.equal(getReporterSilenceStart({ ...issue, comments: [commentBy(2, daysLater(3))] }).toISOString(), completedAt.toISOString());
+    assert.equal(getReporterSilenceStart({ ...issue, comments: [commentBy(1, daysLater(3))] }).toISOString(), daysLater(3).toISOString());
+  });
+});
+
+describe("getAutoCloseTime", () => {
+  it("is null until the reporter has been warned", () => {
+    assert.equal(getAutoCloseTime(issue), null);
+  });
+
+  it("is the end of the silent period when the warning went out on time", () => {
+    assert.equal(getAutoCloseTime({ ...issue, autoCloseNoticeAt: daysLater(5) })?.toISOString(), daysLater(7).toISOString());
+  });
+
+  it("gives the full notice period after a late warning", () => {
+    assert.equal(getAutoCloseTime({ ...issue, autoCloseNoticeAt: daysLater(6) })?.toISOString(), daysLater(8).toISOString());
+  });
+
+  it("runs from the reporter's latest comment", () => {
+    const commented = { ...issue, comments: [commentBy(1, daysLater(3))], autoCloseNoticeAt: daysLater(8) };
+    assert.equal(getAutoCloseTime(commented)?.toISOString(), daysLater(10).toISOString());
+  });
+
+  it("is null again once the reporter replies to the warning", () => {
+    const replied = { ...issue, comments: [commentBy(1, daysLater(6))], autoCloseNoticeAt: daysLater(5) };
+    assert.equal(getAutoCloseTime(replied), null);
+  });
+});
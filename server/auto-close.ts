@@ -0,0 +1,127 @@
+import { type Comment, type Issue, IssueStatus } from "@shared/schema";
+import { getAutomaticTransition } from "@shared/workflow";
+import { storage } from "./storage";
+
+// Closes issues nobody needs to act on any more, as part of each SLA worker run:
+// verified issues after a grace period, and completed issues whose reporter has
+// neither verified nor rejected the resolution, after warning the reporter first.
+//
+//   AUTO_CLOSE_VERIFIED_DAYS    days before a verified issue is closed (default 3, 0 disables)
+//   AUTO_CLOSE_COMPLETED_DAYS   days of reporter silence before a completed issue is
+//                               verified and closed on their behalf (default 7, 0 disables)
+//   AUTO_CLOSE_NOTICE_DAYS      how long before that the reporter is warned (default 2)
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readDays(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? "");
+  return Number.isNaN(value) ? fallback : Math.max(0, value);
+}
+
+const verifiedDays = readDays("AUTO_CLOSE_VERIFIED_DAYS", 3);
+const completedDays = readDays("AUTO_CLOSE_COMPLETED_DAYS", 7);
+const noticeDays = Math.min(readDays("AUTO_CLOSE_NOTICE_DAYS", 2), completedDays);
+
+export type AutoCloseResult = { notices: number; closed: number };
+
+// Since when the reporter has been silent on a completed issue: the completion
+// itself or their latest comment after it
+export function getReporterSilenceStart(issue: Issue): Date {
+  const completedAt = issue.completedAt ?? issue.updatedAt!;
+  const comments = (issue.comments ?? []) as Comment[];
+
+  return comments
+    .filter((comment) => comment.userId === issue.reporterId)
+    .map((comment) => new Date(comment.timestamp))
+    .reduce((latest, timestamp) => (timestamp > latest ? timestamp : latest), new Date(completedAt));
+}
+
+// When a completed issue will be closed. The reporter always gets the full notice
+// period, so a warning sent late pushes the close back; null until they are warned.
+export function getAutoCloseTime(issue: Issue): Date | null {
+  const silentSince = getReporterSilenceStart(issue);
+  const noticeAt = issue.autoCloseNoticeAt;
+  if (!noticeAt || noticeAt < silentSince) return null;
+
+  return new Date(Math.max(
+    silentSince.getTime() + completedDays * DAY_MS,
+    noticeAt.getTime() + noticeDays * DAY_MS
+  ));
+}
+
+// Take a workflow transition on the system's behalf and record it as its own
+// activity. Undefined if the workflow does not allow it or the issue has moved
+// on since it was loaded.
+async function applyAutomaticTransition(
+  issue: Issue,
+  to: IssueStatus,
+  action: string,
+  details: Record<string, unknown>
+): Promise<Issue | undefined> {
+  if (!getAutomaticTransition(issue.status, to)) return undefined;
+
+  const updatedIssue = await storage.autoTransitionIssue(issue.id, issue.status, to);
+  if (!updatedIssue) return undefined;
+
+  await storage.createActivity({
+    issueId: issue.id,
+    userId: null,
+    action,
+    details: { fromStatus: issue.status, toStatus: to, ...details }
+  });
+  return updatedIssue;
+}
+
+async function closeIssue(issue: Issue, details: Record<string, unknown>): Promise<boolean> {
+  return !!await applyAutomaticTransition(issue, IssueStatus.CLOSED, "auto_closed", details);
+}
+
+export async function applyAutoClose(now = new Date()): Promise<AutoCloseResult> {
+  const result: AutoCloseResult = { notices: 0, closed: 0 };
+
+  if (verifiedDays > 0) {
+    for (const issue of await storage.getIssuesByStatus(IssueStatus.VERIFIED)) {
+      const verifiedAt = issue.resolvedAt ?? issue.updatedAt!;
+      if (now.getTime() < verifiedAt.getTime() + verifiedDays * DAY_MS) continue;
+
+      if (await closeIssue(issue, { reason: "verified", graceDays: verifiedDays })) {
+        result.closed++;
+      }
+    }
+  }
+
+  if (completedDays > 0) {
+    for (const issue of await storage.getIssuesByStatus(IssueStatus.COMPLETED)) {
+      const closeAt = getAutoCloseTime(issue);
+
+      if (!closeAt) {
+        const silentSince = getReporterSilenceStart(issue);
+        if (now.getTime() < silentSince.getTime() + (completedDays - noticeDays) * DAY_MS) continue;
+
+        await storage.recordAutoCloseNotice(issue.id, now);
+        await storage.createActivity({
+          issueId: issue.id,
+          userId: null,
+          action: "auto_close_notice",
+          details: {
+            reporterId: issue.reporterId,
+            closesAt: new Date(Math.max(silentSince.getTime() + completedDays * DAY_MS, now.getTime() + noticeDays * DAY_MS))
+          }
+        });
+        result.notices++;
+        continue;
+      }
+
+      if (now < closeAt) continue;
+
+      // Verified on the reporter's behalf first, so the history shows both steps
+      const details = { reason: "reporter_silence", silentDays: completedDays };
+      const verifiedIssue = await applyAutomaticTransition(issue, IssueStatus.VERIFIED, "auto_verified", details);
+      if (verifiedIssue && await closeIssue(verifiedIssue, details)) {
+        result.closed++;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type SlaCalendarSettings, ALWAYS_OPEN_CALENDAR } from "@shared/schema";
+import { addBusinessMinutes, businessMillisecondsBetween } from "./business-hours";
+import { OFFICE_HOURS_CALENDAR } from "./test-fixtures";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("addBusinessMinutes", () => {
+  it("carries time left at closing over to the next working day", () => {
+    // Friday 16:00 plus two working hours is Monday 10:00
+    assert.equal(
+      addBusinessMinutes(OFFICE_HOURS_CALENDAR, new Date("2026-01-09T16:00:00Z"), 120).toISOString(),
+      "2026-01-12T10:00:00.000Z"
+    );
+  });
+
+  it("starts counting at opening time when started outside working hours", () => {
+    assert.equal(
+      addBusinessMinutes(OFFICE_HOURS_CALENDAR, new Date("2026-01-10T12:00:00Z"), 30).toISOString(),
+      "2026-01-12T09:30:00.000Z"
+    );
+  });
+
+  it("skips holidays", () => {
+    const calendar: SlaCalendarSettings = { ...OFFICE_HOURS_CALENDAR, holidays: ["2026-01-12"] };
+    assert.equal(
+      addBusinessMinutes(calendar, new Date("2026-01-09T16:00:00Z"), 120).toISOString(),
+      "2026-01-13T10:00:00.000Z"
+    );
+  });
+
+  it("keeps working hours on the local clock across a daylight saving change", () => {
+    // London moves to summer time on Sunday 29 March, so Monday opens at 08:00 UTC
+    assert.equal(
+      addBusinessMinutes(OFFICE_HOURS_CALENDAR, new Date("2026-03-27T16:00:00Z"), 120).toISOString(),
+      "2026-03-30T09:00:00.000Z"
+    );
+  });
+
+  it("runs through midnight on a calendar open until 24:00", () => {
+    assert.equal(
+      addBusinessMinutes(ALWAYS_OPEN_CALENDAR, new Date("2026-01-01T23:30:00Z"), 60).toISOString(),
+      "2026-01-02T00:30:00.000Z"
+    );
+  });
+
+  it("fails on a calendar without working hours", () => {
+    const calendar: SlaCalendarSettings = { ...OFFICE_HOURS_CALENDAR, workingHours: Array(7).fill(null) };
+    assert.throws(() => addBusinessMinutes(calendar, new Date("2026-01-09T16:00:00Z"), 60), /no working hours/);
+  });
+});
+
+describe("businessMillisecondsBetween", () => {
+  it("counts only working hours", () => {
+    assert.equal(
+      businessMillisecondsBetween(OFFICE_HOURS_CALENDAR, new Date("2026-01-09T16:00:00Z"), new Date("2026-01-12T10:00:00Z")),
+      2 * HOUR_MS
+    );
+  });
+
+  it("is zero when the end is not after the start", () => {
+    const at = new Date("2026-01-09T12:00:00Z");
+    assert.equal(businessMillisecondsBetween(OFFICE_HOURS_CALENDAR, at, at), 0);
+    assert.equal(businessMillisecondsBetween(OFFICE_HOURS_CALENDAR, at, new Date("2026-01-09T11:00:00Z")), 0);
+  });
+
+  it("leaves out holidays", () => {
+    const calendar: SlaCalendarSettings = { ...OFFICE_HOURS_CALENDAR, holidays: ["2026-01-12"] };
+    assert.equal(
+      businessMillisecondsBetween(calendar, new Date("2026-01-09T16:00:00Z"), new Date("2026-01-13T10:00:00Z")),
+      2 * HOUR_MS
+    );
+  });
+
+  it("counts the short day of a daylight saving change", () => {
+    // New York skips an hour on 8 March, so that day has 23 hours
+    const calendar: SlaCalendarSettings = { ...ALWAYS_OPEN_CALENDAR, timeZone: "America/New_York" };
+    assert.equal(
+      businessMillisecondsBetween(calendar, new Date("2026-03-08T05:00:00Z"), new Date("2026-03-09T04:00:00Z")),
+      23 * HOUR_MS
+    );
+  });
+
+  it("counts the whole day on a calendar open until 24:00", () => {
+    assert.equal(
+      businessMillisecondsBetween(ALWAYS_OPEN_CALENDAR, new Date("2026-01-01T12:00:00Z"), new Date("2026-01-03T12:00:00Z")),
+      48 * HOUR_MS
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import type { SlaCalendarSettings } from "@shared/schema";
+
+// Business-time arithmetic for SLA calendars. Working hours and holidays are
+// expressed in the calendar's own time zone, so every day is resolved to UTC
+// instants through Intl, which also takes care of daylight saving changes.
+
+type LocalDate = { year: number; month: number; day: number }; // month is 1-12
+
+// Stop searching after this many days; only reachable if a calendar has no working time
+const MAX_DAYS = 3 * 366;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric"
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatterFor(timeZone).formatToParts(date)) {
+    if (type !== "literal") parts[type] = parseInt(value);
+  }
+  return parts;
+}
+
+// Difference between the wall clock in the time zone and UTC at the given instant
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The instant at which the time zone's wall clock reads the given local time
+function zonedTimeToUtc(date: LocalDate, minutes: number, timeZone: string): number {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day) + minutes * 60 * 1000;
+  const guess = wallClock - timeZoneOffset(new Date(wallClock), timeZone);
+  // Re-check in case a daylight saving change lies between the guess and the result
+  return wallClock - timeZoneOffset(new Date(guess), timeZone);
+}
+
+function localDateOf(date: Date, timeZone: string): LocalDate {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return { year, month, day };
+}
+
+function nextDay({ year, month, day }: LocalDate): LocalDate {
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() };
+}
+
+function toIsoDate({ year, month, day }: LocalDate): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Opening and closing instants of a local day, or null when the calendar is closed
+function workingWindow(calendar: SlaCalendarSettings, date: LocalDate): [number, number] | null {
+  if (calendar.holidays.includes(toIsoDate(date))) return null;
+
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  const hours = calendar.workingHours[weekday];
+  if (!hours) return null;
+
+  return [
+    zonedTimeToUtc(date, parseTimeOfDay(hours.start), calendar.timeZone),
+    zonedTimeToUtc(date, parseTimeOfDay(hours.end), calendar.timeZone)
+  ];
+}
+
+// The instant reached after the given amount of working time has elapsed from start
+export function addBusinessMinutes(calendar: SlaCalendarSettings, start: Date, minutes: number): Date {
+  let remaining = minutes * 60 * 1000;
+  let date = localDateOf(start, calendar.timeZone);
+
+  for (let i = 0; i < MAX_DAYS; i++, date = nextDay(date)) {
+    const window = workingWindow(calendar, date);
+    if (!window) continue;
+
+    const [open, close] = window;
+    const from = Math.max(open, start.getTime());
+    if (from >= close) continue;
+
+    if (remaining <= close - from) return new Date(from + remaining);
+    remaining -= close - from;
+  }
+
+  throw new Error("SLA calendar has no working hours");
+}
+
+// Working time between two instants, in milliseconds
+export function businessMillisecondsBetween(calendar: SlaCalendarSettings, from: Date, to: Date): number {
+  if (to <= from) return 0;
+
+  const lastDate = toIsoDate(localDateOf(to, calendar.timeZone));
+  let date = localDateOf(from, calendar.timeZone);
+  let total = 0;
+
+  for (let i = 0; i < MAX_DAYS; i++, date = nextDay(date)) {
+    const window = workingWindow(calendar, date);
+    if (window) {
+      const overlap = Math.min(window[1], to.getTime()) - Math.max(window[0], from.getTime());
+      if (overlap > 0) total += overlap;
+    }
+
+    if (toIsoDate(date) === lastDate) break;
+  }
+
+  return total;
+}
@@ -0,0 +1,1008 @@
+import { users, issues, activities, sessions, userActivities, escalationRules, departmentActions, slaCalendars, slaPolicies, assignmentSettings, type User, type EscalationRule, type InsertEscalationRule, type SlaCalendar, type InsertSlaCalendar, type SlaPolicy, type InsertSlaPolicy, type UserActivity, type InsertUserActivity, type InsertUser, type Issue, type InsertIssue, type Activity, type InsertActivity, type UserSession, type UserFilters, type UserIssueCounts, type ResolutionTime, type ReopenRate, type IssueResolution, type ResolutionCodeCounts, type NewEscalation, type DepartmentAction, type InsertDepartmentAction, type AssignmentSettings, type InsertAssignmentSettings, type IssueScope, type IssueListQuery, type IssueQueryResult, type IssueSortField, type IssueSummary, type SearchQuery, type SearchResults, type SearchSnippet, issueSearchDocument, OPEN_ISSUE_STATUSES, RESOLVED_ISSUE_STATUSES, IssueStatus, SLAStatus, ResolutionCode, Department, SLAPriority, Comment } from "@shared/schema";
+import { and, asc, count, desc, eq, gt, gte, ilike, inArray, isNotNull, isNull, lt, lte, ne, not, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { Store as SessionStore, type SessionData } from "express-session";
+import { nanoid } from "nanoid";
+import type pg from "pg";
+import type { IStorage } from "./storage";
+import { createDb, type Database } from "./db";
+import { calculateDueBy, calculateResponseDueBy, getReopenUpdates, getStatusChangeUpdates, recalculateSla } from "./sla";
+import { getCurrentEscalation, getDeescalationUpdates, getEscalationUpdates } from "@shared/escalation";
+import { seedInitialData, seedSlaPolicies } from "./seed";
+import { createPgSessionStore, toUserSession } from "./session-store";
+import { encodeIssueCursor, PRIORITY_RANK, type SortKey } from "./issue-list";
+
+// What issues sort by, in the units of SortKey: the priority's rank or a
+// timestamp in whole milliseconds, so a cursor holds the value exactly
+function getSortExpression(field: IssueSortField): SQL<string | number | null> {
+  if (field === "priority") {
+    const ranks = Object.entries(PRIORITY_RANK).map(([priority, rank]) => sql`when ${priority} then ${sql.raw(String(rank))}`);
+    return sql`(case ${issues.priority} ${sql.join(ranks, sql` `)} end)`;
+  }
+  return sql`floor(extract(epoch from ${issues[field]}) * 1000)`;
+}
+
+// Issues that sort after the key. Issues without a sort value come last in
+// either order; ties are broken by id.
+function sortsAfter(sortValue: SQL, key: SortKey, ascending: boolean): SQL {
+  const idAfter = ascending ? gt(issues.id, key.id) : lt(issues.id, key.id);
+  if (key.value === null) return and(sql`${sortValue} is null`, idAfter)!;
+
+  return or(
+    ascending ? sql`${sortValue} > ${key.value}` : sql`${sortValue} < ${key.value}`,
+    and(sql`${sortValue} = ${key.value}`, idAfter),
+    sql`${sortValue} is null`
+  )!;
+}
+
+function sortsBefore(sortValue: SQL, key: SortKey, ascending: boolean): SQL {
+  return and(not(sortsAfter(sortValue, key, ascending)), ne(issues.id, key.id))!;
+}
+
+function getScopeCondition(scope: IssueScope): SQL | undefined {
+  return and(
+    scope.reporterId !== undefined ? eq(issues.reporterId, scope.reporterId) : undefined,
+    scope.assigneeId !== undefined ? eq(issues.assigneeId, scope.assigneeId) : undefined,
+    scope.involvedUserId !== undefined
+      ? or(eq(issues.reporterId, scope.involvedUserId), eq(issues.assigneeId, scope.involvedUserId))
+      : undefined,
+    scope.department ? eq(issues.department, scope.department) : undefined,
+    scope.statuses ? inArray(issues.status, scope.statuses) : undefined,
+    scope.needsAttention
+      ? or(isNotNull(issues.escalationLevel), inArray(issues.slaStatus, [SLAStatus.BREACHED, SLAStatus.AT_RISK]))
+      : undefined
+  );
+}
+
+// A web-search style query: words, "quoted phrases", or, and -excluded words,
+// matched by their English stems
+function toTsQuery(q: string): SQL {
+  return sql`websearch_to_tsquery('english', ${q})`;
+}
+
+// A q of the form #42 finds that issue; anything else is a full-text search
+// over the title, description and comments
+function getTextCondition(q: string): SQL {
+  const issueNumber = q.match(/^#(\d+)$/);
+  if (issueNumber) return eq(issues.id, Number(issueNumber[1]));
+  return sql`${issueSearchDocument(issues)} @@ ${toTsQuery(q)}`;
+}
+
+// ts_headline marks matches with these characters, which ordinary text does
+// not contain, so they can be turned into character ranges
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_STOP = "\u0003";
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=15`;
+const MAX_COMMENT_SNIPPETS = 2;
+
+// A snippet from a ts_headline excerpt of the text, with an ellipsis wherever
+// the excerpt cuts the text short
+function toSearchSnippet(field: SearchSnippet["field"], author: string | null, text: string, headline: string): SearchSnippet {
+  let excerpt = "";
+  let highlightStart = 0;
+  const highlights: [number, number][] = [];
+  for (const char of headline) {
+    if (char === HIGHLIGHT_START) highlightStart = excerpt.length;
+    else if (char === HIGHLIGHT_STOP) highlights.push([highlightStart, excerpt.length]);
+    else excerpt += char;
+  }
+
+  const position = text.indexOf(excerpt);
+  const prefix = position > 0 ? "…" : "";
+  const suffix = position >= 0 && position + excerpt.length < text.length ? "…" : "";
+  return {
+    field,
+    author,
+    text: `${prefix}${excerpt}${suffix}`,
+    highlights: highlights.map(([from, to]): [number, number] => [from + prefix.length, to + prefix.length])
+  };
+}
+
+function getListCondition(query: IssueListQuery): SQL | undefined {
+  return and(
+    query.status && query.status.length > 0 ? inArray(issues.status, query.status) : undefined,
+    query.department ? eq(issues.department, query.department) : undefined,
+    query.priority ? eq(issues.priority, query.priority) : undefined,
+    query.slaStatus ? eq(issues.slaStatus, query.slaStatus) : undefined,
+    query.assigneeId === null ? isNull(issues.assigneeId) : undefined,
+    query.assigneeId ? eq(issues.assigneeId, query.assigneeId) : undefined,
+    query.reporterId ? eq(issues.reporterId, query.reporterId) : undefined,
+    query.from ? gte(issues.createdAt, query.from) : undefined,
+    query.to ? lte(issues.createdAt, query.to) : undefined,
+    query.q ? getTextCondition(query.q) : undefined
+  );
+}
+
+export class DatabaseStorage implements IStorage {
+  private db: Database;
+  sessionStore: SessionStore;
+
+  constructor(pool: pg.Pool) {
+    this.db = createDb(pool);
+    this.sessionStore = createPgSessionStore(pool);
+  }
+
+  // Storage for the given pool, seeded if the database is empty
+  static async create(pool: pg.Pool): Promise<DatabaseStorage> {
+    const storage = new DatabaseStorage(pool);
+    await storage.seedIfEmpty();
+    return storage;
+  }
+
+  // Seed the demo accounts the first time we run against an empty database.
+  // Databases created before SLA policies existed get the default policies.
+  private async seedIfEmpty(): Promise<void> {
+    const [{ total }] = await this.db.select({ total: count() }).from(users);
+    if (total === 0) {
+      await seedInitialData(this);
+      return;
+    }
+
+    const [{ total: policies }] = await this.db.select({ total: count() }).from(slaPolicies);
+    if (policies === 0) {
+      await seedSlaPolicies(this);
+    }
+  }
+
+  private async findIssues(where?: SQL): Promise<Issue[]> {
+    return this.db.select().from(issues).where(where).orderBy(asc(issues.id));
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values({ ...insertUser, createdAt: new Date() }).returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getUsersByDepartment(department: Department): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.department, department)).orderBy(asc(users.id));
+  }
+
+  async getUsersByIds(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  async getUsers(filters: UserFilters = {}): Promise<User[]> {
+    const query = filters.query?.trim();
+    const pattern = query ? `%${query.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+
+    return this.db.select().from(users).where(and(
+      filters.role ? eq(users.role, filters.role) : undefined,
+      filters.department ? eq(users.department, filters.department) : undefined,
+      filters.isActive !== undefined ? eq(users.isActive, filters.isActive) : undefined,
+      pattern ? or(
+        ilike(users.username, pattern),
+        ilike(users.fullName, pattern),
+        ilike(users.email, pattern)
+      ) : undefined
+    )).orderBy(asc(users.id));
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+
+  // Issue methods
+  async createIssue(insertIssue: InsertIssue): Promise<Issue> {
+    const now = new Date();
+
+    // Calculate due date from the current policy and the department's working hours
+    const policy = await this.getCurrentSlaPolicy(insertIssue.department, insertIssue.priority);
+    const calendar = await this.getSlaCalendar(insertIssue.department);
+    const dueBy = policy ? calculateDueBy(policy, now, calendar) : null;
+    const responseDueBy = policy ? calculateResponseDueBy(policy, now, calendar) : null;
+
+    const [issue] = await this.db.insert(issues).values({
+      ...insertIssue,
+      status: IssueStatus.OPEN,
+      createdAt: now,
+      updatedAt: now,
+      slaPolicyId: policy?.id ?? null,
+      dueBy,
+      slaStatus: SLAStatus.ON_TRACK,
+      responseDueBy,
+      firstResponseAt: null,
+      responseSlaStatus: SLAStatus.ON_TRACK,
+      comments: [],
+      assigneeId: null
+    }).returning();
+
+    // Create activity for new issue
+    await this.createActivity({
+      issueId: issue.id,
+      userId: insertIssue.reporterId,
+      action: "created",
+      details: { title: insertIssue.title }
+    });
+
+    return issue;
+  }
+
+  async getIssue(id: number): Promise<Issue | undefined> {
+    const [issue] = await this.findIssues(eq(issues.id, id));
+    return issue;
+  }
+
+  async getAllIssues(): Promise<Issue[]> {
+    return this.findIssues();
+  }
+
+  async getIssuesByReporter(userId: number): Promise<Issue[]> {
+    return this.findIssues(eq(issues.reporterId, userId));
+  }
+
+  async getIssuesByDepartment(department: Department): Promise<Issue[]> {
+    return this.findIssues(eq(issues.department, department));
+  }
+
+  async getIssuesByStatus(status: IssueStatus): Promise<Issue[]> {
+    return this.findIssues(eq(issues.status, status));
+  }
+
+  async getIssuesByAssignee(assigneeId: number): Promise<Issue[]> {
+    return this.findIssues(eq(issues.assigneeId, assigneeId));
+  }
+
+  async getUnresolvedIssues(): Promise<Issue[]> {
+    return this.findIssues(notInArray(issues.status, RESOLVED_ISSUE_STATUSES));
+  }
+
+  // A page starts at the query's cursor when it has one, otherwise at its page number
+  async queryIssues(scope: IssueScope, query: IssueListQuery): Promise<IssueQueryResult> {
+    const sortValue = getSortExpression(query.sort);
+    const ascending = query.order === "asc";
+    const where = and(getScopeCondition(scope), getListCondition(query));
+
+    // A page before the cursor is read backwards from it, then put back in order
+    const cursor = query.cursor;
+    const backwards = cursor?.direction === "before";
+    const readAscending = ascending !== backwards;
+    const rows = await this.db.select({ issue: issues, sortValue })
+      .from(issues)
+      .where(and(
+        where,
+        cursor && (backwards ? sortsBefore(sortValue, cursor, ascending) : sortsAfter(sortValue, cursor, ascending))
+      ))
+      .orderBy(
+        sql`${sortValue} ${sql.raw(readAscending ? "asc" : "desc")} nulls ${sql.raw(backwards ? "first" : "last")}`,
+        readAscending ? asc(issues.id) : desc(issues.id)
+      )
+      .limit(query.pageSize)
+      .offset(cursor ? 0 : (query.page - 1) * query.pageSize);
+    if (backwards) rows.reverse();
+
+    const keys = rows.map(({ issue, sortValue }): SortKey => ({
+      value: sortValue === null ? null : Number(sortValue),
+      id: issue.id
+    }));
+
+    // The page's offset is the number of issues sorting before its first one
+    const [{ total, before }] = await this.db.select({
+      total: count(),
+      before: keys.length > 0 ? count(sql`case when ${sortsBefore(sortValue, keys[0], ascending)} then 1 end`) : sql<number>`0`.mapWith(Number)
+    })
+      .from(issues)
+      .where(where);
+
+    const offset = keys.length > 0
+      ? before
+      : cursor ? (backwards ? 0 : total) : (query.page - 1) * query.pageSize;
+    return {
+      issues: rows.map(({ issue }) => issue),
+      total,
+      offset,
+      pageSize: query.pageSize,
+      nextCursor: offset + keys.length < total && keys.length > 0
+        ? encodeIssueCursor(query, "after", keys[keys.length - 1])
+        : null,
+      prevCursor: offset > 0 && keys.length > 0
+        ? encodeIssueCursor(query, "before", keys[0])
+        : null
+    };
+  }
+
+  async getIssueSummary(scope: IssueScope): Promise<IssueSummary> {
+    const [summary] = await this.db.select({
+      total: count(),
+      open: count(sql`case when ${inArray(issues.status, [IssueStatus.OPEN, IssueStatus.IN_PROGRESS])} then 1 end`),
+      resolved: count(sql`case when ${inArray(issues.status, RESOLVED_ISSUE_STATUSES)} then 1 end`),
+      onTrack: count(sql`case when ${eq(issues.slaStatus, SLAStatus.ON_TRACK)} then 1 end`),
+      escalated: count(issues.escalationLevel)
+    })
+      .from(issues)
+      .where(getScopeCondition(scope));
+
+    return summary;
+  }
+
+  // Ranked by the full-text index on issueSearchDocument; ties go to the most
+  // recently updated issue
+  async searchIssues(scope: IssueScope, query: SearchQuery): Promise<SearchResults> {
+    const document = issueSearchDocument(issues);
+    const tsQuery = toTsQuery(query.q);
+    const where = and(getScopeCondition(scope), sql`${document} @@ ${tsQuery}`);
+    const rank = sql<number>`ts_rank(${document}, ${tsQuery})`.mapWith(Number);
+
+    const rows = await this.db.select({
+      id: issues.id,
+      title: issues.title,
+      description: issues.description,
+      status: issues.status,
+      department: issues.department,
+      priority: issues.priority,
+      updatedAt: issues.updatedAt,
+      rank,
+      titleHeadline: sql<string>`ts_headline('english', ${issues.title}, ${tsQuery}, ${TITLE_HEADLINE_OPTIONS})`,
+      descriptionHeadline: sql<string>`ts_headline('english', ${issues.description}, ${tsQuery}, ${HEADLINE_OPTIONS})`
+    })
+      .from(issues)
+      .where(where)
+      .orderBy(desc(rank), desc(issues.updatedAt), desc(issues.id))
+      .limit(query.limit);
+    const [{ total }] = await this.db.select({ total: count() }).from(issues).where(where);
+
+    // The best matching comments of each issue found
+    const comments = rows.length === 0 ? [] : (await this.db.execute<{ issueId: number; author: string | null; text: string; headline: string }>(sql`
+      select issue_id as "issueId", author, text, headline from (
+        select ${issues.id} as issue_id, comment->>'userName' as author, comment->>'text' as text,
+          ts_headline('english', comment->>'text', ${tsQuery}, ${HEADLINE_OPTIONS}) as headline,
+          row_number() over (
+            partition by ${issues.id}
+            order by ts_rank(to_tsvector('english', comment->>'text'), ${tsQuery}) desc
+          ) as position
+        from ${issues} cross join jsonb_array_elements(coalesce(${issues.comments}, '[]')::jsonb) as comment
+        where ${inArray(issues.id, rows.map((row) => row.id))}
+          and to_tsvector('english', comment->>'text') @@ ${tsQuery}
+      ) as matches
+      where position <= ${MAX_COMMENT_SNIPPETS}
+      order by position`)).rows;
+
+    return {
+      results: rows.map((row) => ({
+        issue: {
+          id: row.id,
+          title: row.title,
+          status: row.status,
+          department: row.department,
+          priority: row.priority,
+          updatedAt: row.updatedAt
+        },
+        score: row.rank,
+        title: toSearchSnippet("title", null, row.title, row.titleHeadline),
+        snippets: [
+          toSearchSnippet("description", null, row.description, row.descriptionHeadline),
+          ...comments
+            .filter((comment) => comment.issueId === row.id)
+            .map((comment) => toSearchSnippet("comment", comment.author, comment.text, comment.headline))
+        ].filter((snippet) => snippet.highlights.length > 0)
+      })),
+      total
+    };
+  }
+
+  async updateIssueStatus(id: number, status: IssueStatus, resolution?: IssueResolution): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue) return undefined;
+
+    const now = new Date();
+    const calendar = await this.getSlaCalendar(issue.department);
+    const [updatedIssue] = await this.db.update(issues).set({
+      ...getStatusChangeUpdates(issue, status, calendar, now),
+      ...resolution,
+      status,
+      updatedAt: now,
+      // Resolved issues lock in a completed SLA; the SLA worker evaluates the rest
+      slaStatus: RESOLVED_ISSUE_STATUSES.includes(status) ? SLAStatus.COMPLETED : issue.slaStatus
+    }).where(eq(issues.id, id)).returning();
+
+    return updatedIssue;
+  }
+
+  async updateSlaStatus(id: number, from: SLAStatus, to: SLAStatus): Promise<Issue | undefined> {
+    // Only move from the status the caller saw, so concurrent workers record each transition once
+    const [updatedIssue] = await this.db.update(issues).set({ slaStatus: to })
+      .where(and(eq(issues.id, id), eq(issues.slaStatus, from)))
+      .returning();
+
+    return updatedIssue;
+  }
+
+  async autoTransitionIssue(id: number, from: IssueStatus, to: IssueStatus): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue || issue.status !== from) return undefined;
+
+    // The status condition keeps a concurrent worker or user action from being overwritten
+    const now = new Date();
+    const calendar = await this.getSlaCalendar(issue.department);
+    const [updatedIssue] = await this.db.update(issues).set({
+      ...getStatusChangeUpdates(issue, to, calendar, now),
+      status: to,
+      updatedAt: now,
+      slaStatus: RESOLVED_ISSUE_STATUSES.includes(to) ? SLAStatus.COMPLETED : issue.slaStatus
+    }).where(and(eq(issues.id, id), eq(issues.status, from))).returning();
+
+    return updatedIssue;
+  }
+
+  async recordAutoCloseNotice(id: number, noticeAt: Date): Promise<Issue | undefined> {
+    const [updatedIssue] = await this.db.update(issues).set({ autoCloseNoticeAt: noticeAt })
+      .where(eq(issues.id, id))
+      .returning();
+
+    return updatedIssue;
+  }
+
+  async updateResponseSlaStatus(id: number, from: SLAStatus, to: SLAStatus): Promise<Issue | undefined> {
+    // Once the department has responded the status is settled by recordFirstResponse
+    const [updatedIssue] = await this.db.update(issues).set({ responseSlaStatus: to })
+      .where(and(eq(issues.id, id), eq(issues.responseSlaStatus, from), isNull(issues.firstResponseAt)))
+      .returning();
+
+    return updatedIssue;
+  }
+
+  async recordFirstResponse(id: number, respondedAt: Date): Promise<Issue | undefined> {
+    const [updatedIssue] = await this.db.update(issues).set({
+      firstResponseAt: respondedAt,
+      responseSlaStatus: sql`case when ${issues.responseDueBy} < ${respondedAt} then ${SLAStatus.BREACHED} else ${SLAStatus.COMPLETED} end`
+    }).where(and(eq(issues.id, id), isNull(issues.firstResponseAt))).returning();
+
+    return updatedIssue;
+  }
+
+  async assignIssue(id: number, assigneeId: number | null): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue) return undefined;
+
+    const [updatedIssue] = await this.db.update(issues).set({
+      assigneeId,
+      updatedAt: new Date(),
+      // Work starts once someone picks the issue up; unassigning leaves the status alone
+      status: assigneeId && issue.status === IssueStatus.OPEN ? IssueStatus.IN_PROGRESS : issue.status
+    }).where(eq(issues.id, id)).returning();
+
+    return updatedIssue;
+  }
+
+  async autoAssignIssue(id: number, assigneeId: number): Promise<Issue | undefined> {
+    const [updatedIssue] = await this.db.update(issues).set({
+      assigneeId,
+      updatedAt: new Date()
+    }).where(and(eq(issues.id, id), isNull(issues.assigneeId))).returning();
+
+    return updatedIssue;
+  }
+
+  async escalateIssue(id: number, from: Pick<Issue, "status" | "escalationLevel">, escalation: NewEscalation): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue || issue.status !== from.status || issue.escalationLevel !== from.escalationLevel) return undefined;
+
+    // Every escalation raises the level, so matching the status and level the
+    // caller saw keeps a concurrent escalation's history entry from being lost
+    const now = new Date();
+    const calendar = await this.getSlaCalendar(issue.department);
+    const [updatedIssue] = await this.db.update(issues).set({
+      // Escalating a pending issue restarts its SLA clock
+      ...getStatusChangeUpdates(issue, IssueStatus.ESCALATED, calendar, now),
+      ...getEscalationUpdates(issue, escalation, now),
+      updatedAt: now
+    }).where(and(
+      eq(issues.id, id),
+      eq(issues.status, from.status),
+      from.escalationLevel ? eq(issues.escalationLevel, from.escalationLevel) : isNull(issues.escalationLevel)
+    )).returning();
+
+    return updatedIssue;
+  }
+
+  async deescalateIssue(id: number, deescalatedBy: number, reason: string): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue?.escalationLevel) return undefined;
+
+    const now = new Date();
+    const calendar = await this.getSlaCalendar(issue.department);
+    const updates = getDeescalationUpdates(issue, deescalatedBy, reason, now);
+    const [updatedIssue] = await this.db.update(issues).set({
+      ...getStatusChangeUpdates(issue, updates.status, calendar, now),
+      ...updates,
+      updatedAt: now
+    }).where(eq(issues.id, id)).returning();
+
+    return updatedIssue;
+  }
+
+  async getEscalatedIssues(): Promise<Issue[]> {
+    const escalated = await this.findIssues(isNotNull(issues.escalationLevel));
+    return escalated.sort((a, b) => getCurrentEscalation(a)!.escalatedAt.localeCompare(getCurrentEscalation(b)!.escalatedAt));
+  }
+
+  async updateIssueDepartment(id: number, department: Department): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue) return undefined;
+
+    const policy = await this.getCurrentSlaPolicy(department, issue.priority);
+    const calendar = await this.getSlaCalendar(department);
+    const [updatedIssue] = await this.db.update(issues).set({
+      // The SLA follows the new department's policy and working hours
+      ...recalculateSla({ ...issue, department }, policy, calendar),
+      department,
+      updatedAt: new Date(),
+      // Reset assignee when changing department; an escalated issue stays
+      // escalated so the new department sees it immediately
+      assigneeId: null
+    }).where(eq(issues.id, id)).returning();
+
+    return updatedIssue;
+  }
+
+  async updateIssuePriority(id: number, priority: SLAPriority): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue) return undefined;
+
+    const policy = await this.getCurrentSlaPolicy(issue.department, priority);
+    const calendar = await this.getSlaCalendar(issue.department);
+    const [updatedIssue] = await this.db.update(issues).set({
+      ...recalculateSla({ ...issue, priority }, policy, calendar),
+      priority,
+      updatedAt: new Date()
+    }).where(eq(issues.id, id)).returning();
+
+    return updatedIssue;
+  }
+
+  async reopenIssue(id: number): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue) return undefined;
+
+    const now = new Date();
+    const policy = issue.slaPolicyId ? await this.getSlaPolicy(issue.slaPolicyId) : undefined;
+    const calendar = await this.getSlaCalendar(issue.department);
+    const [updatedIssue] = await this.db.update(issues).set({
+      ...getReopenUpdates(issue, policy, calendar, now),
+      updatedAt: now
+    }).where(eq(issues.id, id)).returning();
+
+    return updatedIssue;
+  }
+
+  async addComment(issueId: number, userId: number, text: string): Promise<Issue | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const now = new Date();
+    const comment: Comment = {
+      id: nanoid(),
+      userId,
+      userName: user.fullName,
+      text,
+      timestamp: now
+    };
+
+    // Lock the row so concurrent comments are not lost in the read-modify-write
+    const updatedIssue = await this.db.transaction(async (tx) => {
+      const [issue] = await tx.select().from(issues).where(eq(issues.id, issueId)).for("update");
+      if (!issue) return undefined;
+
+      const comments = Array.isArray(issue.comments) ? issue.comments : [];
+      const [updated] = await tx.update(issues).set({
+        comments: [...comments, comment],
+        updatedAt: now
+      }).where(eq(issues.id, issueId)).returning();
+
+      return updated;
+    });
+
+    if (!updatedIssue) return undefined;
+
+    // Create activity for comment
+    await this.createActivity({
+      issueId,
+      userId,
+      action: "commented",
+      details: { commentId: comment.id }
+    });
+
+    return updatedIssue;
+  }
+
+  // Activity methods
+  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+    const [activity] = await this.db.insert(activities).values({ ...insertActivity, createdAt: new Date() }).returning();
+    return activity;
+  }
+
+  async getActivitiesByIssue(issueId: number): Promise<Activity[]> {
+    return this.db.select().from(activities)
+      .where(eq(activities.issueId, issueId))
+      .orderBy(desc(activities.createdAt), desc(activities.id));
+  }
+
+  async getRecentActivities(limit: number): Promise<Activity[]> {
+    return this.db.select().from(activities)
+      .orderBy(desc(activities.createdAt), desc(activities.id))
+      .limit(limit);
+  }
+
+  async getActivitiesByAction(action: string, limit: number): Promise<Activity[]> {
+    return this.db.select().from(activities)
+      .where(eq(activities.action, action))
+      .orderBy(desc(activities.createdAt), desc(activities.id))
+      .limit(limit);
+  }
+
+  async createUserActivity(insertActivity: InsertUserActivity): Promise<UserActivity> {
+    const [activity] = await this.db.insert(userActivities).values({ ...insertActivity, createdAt: new Date() }).returning();
+    return activity;
+  }
+
+  async getUserActivities(userId: number): Promise<UserActivity[]> {
+    return this.db.select().from(userActivities)
+      .where(eq(userActivities.userId, userId))
+      .orderBy(desc(userActivities.createdAt), desc(userActivities.id));
+  }
+
+  // Escalation rule methods
+  async getEscalationRules(): Promise<EscalationRule[]> {
+    return this.db.select().from(escalationRules).orderBy(asc(escalationRules.id));
+  }
+
+  async getEscalationRule(id: number): Promise<EscalationRule | undefined> {
+    const [rule] = await this.db.select().from(escalationRules).where(eq(escalationRules.id, id));
+    return rule;
+  }
+
+  async createEscalationRule(insertRule: InsertEscalationRule): Promise<EscalationRule> {
+    const now = new Date();
+    const [rule] = await this.db.insert(escalationRules).values({ ...insertRule, createdAt: now, updatedAt: now }).returning();
+    return rule;
+  }
+
+  async updateEscalationRule(id: number, updates: Partial<InsertEscalationRule>): Promise<EscalationRule | undefined> {
+    const [rule] = await this.db.update(escalationRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(escalationRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deleteEscalationRule(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(escalationRules).where(eq(escalationRules.id, id)).returning({ id: escalationRules.id });
+    return deleted.length > 0;
+  }
+
+  // Department action methods
+  async createDepartmentAction(insertAction: InsertDepartmentAction): Promise<DepartmentAction> {
+    const [action] = await this.db.insert(departmentActions).values({ ...insertAction, createdAt: new Date() }).returning();
+    return action;
+  }
+
+  async getDepartmentAction(id: number): Promise<DepartmentAction | undefined> {
+    const [action] = await this.db.select().from(departmentActions).where(eq(departmentActions.id, id));
+    return action;
+  }
+
+  async getDepartmentActionsByIssue(issueId: number): Promise<DepartmentAction[]> {
+    return this.db.select().from(departmentActions)
+      .where(eq(departmentActions.issueId, issueId))
+      .orderBy(desc(departmentActions.id));
+  }
+
+  async getPendingDepartmentActions(department?: Department): Promise<DepartmentAction[]> {
+    return this.db.select().from(departmentActions)
+      .where(and(
+        isNull(departmentActions.acknowledgedAt),
+        department ? eq(departmentActions.department, department) : undefined
+      ))
+      .orderBy(asc(departmentActions.deadline));
+  }
+
+  async acknowledgeDepartmentAction(id: number, userId: number): Promise<DepartmentAction | undefined> {
+    // Only the first acknowledgement counts
+    const [action] = await this.db.update(departmentActions)
+      .set({ acknowledgedAt: new Date(), acknowledgedBy: userId })
+      .where(and(eq(departmentActions.id, id), isNull(departmentActions.acknowledgedAt)))
+      .returning();
+    return action;
+  }
+
+  // SLA policy methods
+  async getSlaPolicies(): Promise<SlaPolicy[]> {
+    const policies = await this.db.selectDistinctOn([slaPolicies.department, slaPolicies.priority])
+      .from(slaPolicies)
+      .orderBy(slaPolicies.department, slaPolicies.priority, desc(slaPolicies.version));
+    return policies.sort((a, b) => a.id - b.id);
+  }
+
+  async getSlaPolicy(id: number): Promise<SlaPolicy | undefined> {
+    const [policy] = await this.db.select().from(slaPolicies).where(eq(slaPolicies.id, id));
+    return policy;
+  }
+
+  async getCurrentSlaPolicy(department: Department, priority: SLAPriority): Promise<SlaPolicy | undefined> {
+    const [policy] = await this.db.select().from(slaPolicies)
+      .where(and(eq(slaPolicies.department, department), eq(slaPolicies.priority, priority)))
+      .orderBy(desc(slaPolicies.version))
+      .limit(1);
+    return policy;
+  }
+
+  async getSlaPolicyVersions(department: Department, priority: SLAPriority): Promise<SlaPolicy[]> {
+    return this.db.select().from(slaPolicies)
+      .where(and(eq(slaPolicies.department, department), eq(slaPolicies.priority, priority)))
+      .orderBy(desc(slaPolicies.version));
+  }
+
+  async createSlaPolicy(insertPolicy: InsertSlaPolicy): Promise<SlaPolicy> {
+    // The unique (department, priority, version) index rejects a concurrent save of the same version
+    const current = await this.getCurrentSlaPolicy(insertPolicy.department, insertPolicy.priority);
+    const [policy] = await this.db.insert(slaPolicies).values({
+      ...insertPolicy,
+      version: (current?.version ?? 0) + 1,
+      createdAt: new Date()
+    }).returning();
+    return policy;
+  }
+
+  // SLA calendar methods
+  async getSlaCalendars(): Promise<SlaCalendar[]> {
+    return this.db.select().from(slaCalendars).orderBy(asc(slaCalendars.id));
+  }
+
+  async getSlaCalendar(department: Department): Promise<SlaCalendar | undefined> {
+    const [calendar] = await this.db.select().from(slaCalendars).where(eq(slaCalendars.department, department));
+    return calendar;
+  }
+
+  async upsertSlaCalendar(insertCalendar: InsertSlaCalendar): Promise<SlaCalendar> {
+    const values = { ...insertCalendar, holidays: insertCalendar.holidays ?? [], updatedAt: new Date() };
+    const [calendar] = await this.db.insert(slaCalendars).values(values)
+      .onConflictDoUpdate({ target: slaCalendars.department, set: values })
+      .returning();
+    return calendar;
+  }
+
+  // Assignment settings methods
+  async getAllAssignmentSettings(): Promise<AssignmentSettings[]> {
+    return this.db.select().from(assignmentSettings).orderBy(asc(assignmentSettings.id));
+  }
+
+  async getAssignmentSettings(department: Department): Promise<AssignmentSettings | undefined> {
+    const [settings] = await this.db.select().from(assignmentSettings).where(eq(assignmentSettings.department, department));
+    return settings;
+  }
+
+  async upsertAssignmentSettings(insertSettings: InsertAssignmentSettings): Promise<AssignmentSettings> {
+    const values = {
+      ...insertSettings,
+      excludedUserIds: insertSettings.excludedUserIds ?? [],
+      memberSkills: insertSettings.memberSkills ?? [],
+      updatedAt: new Date()
+    };
+    const [settings] = await this.db.insert(assignmentSettings).values(values)
+      .onConflictDoUpdate({ target: assignmentSettings.department, set: values })
+      .returning();
+    return settings;
+  }
+
+  async recordRoundRobinAssignee(department: Department, assigneeId: number): Promise<void> {
+    await this.db.update(assignmentSettings)
+      .set({ lastAssigneeId: assigneeId })
+      .where(eq(assignmentSettings.department, department));
+  }
+
+  // Analytics methods
+  async getSLAPerformanceByDepartment(): Promise<Record<Department, number>> {
+    // Only consider resolved issues (verified or closed)
+    const rows = await this.db.select({
+      department: issues.department,
+      total: count(),
+      withinSla: count(sql`case when ${issues.slaStatus} <> ${SLAStatus.BREACHED} then 1 end`)
+    })
+      .from(issues)
+      .where(inArray(issues.status, RESOLVED_ISSUE_STATUSES))
+      .groupBy(issues.department);
+
+    const result = Object.fromEntries(
+      Object.values(Department).map((dept) => [dept, 100]) // Default to 100% if no issues
+    ) as Record<Department, number>;
+
+    rows.forEach(({ department, total, withinSla }) => {
+      if (total > 0) {
+        result[department] = Math.round((withinSla / total) * 100);
+      }
+    });
+
+    return result;
+  }
+
+  async getResponsePerformanceByDepartment(): Promise<Record<Department, number>> {
+    // Only consider issues the department has responded to
+    const rows = await this.db.select({
+      department: issues.department,
+      total: count(),
+      onTime: count(sql`case when ${issues.responseSlaStatus} <> ${SLAStatus.BREACHED} then 1 end`)
+    })
+      .from(issues)
+      .where(isNotNull(issues.firstResponseAt))
+      .groupBy(issues.department);
+
+    const result = Object.fromEntries(
+      Object.values(Department).map((dept) => [dept, 100]) // Default to 100% if no issues
+    ) as Record<Department, number>;
+
+    rows.forEach(({ department, total, onTime }) => {
+      if (total > 0) {
+        result[department] = Math.round((onTime / total) * 100);
+      }
+    });
+
+    return result;
+  }
+
+  async getIssueCountsByStatus(): Promise<Record<IssueStatus, number>> {
+    const rows = await this.db.select({ status: issues.status, total: count() })
+      .from(issues)
+      .groupBy(issues.status);
+
+    const result = Object.fromEntries(
+      Object.values(IssueStatus).map((status) => [status, 0])
+    ) as Record<IssueStatus, number>;
+
+    rows.forEach(({ status, total }) => {
+      result[status] = total;
+    });
+
+    return result;
+  }
+
+  async getEscalatedIssuesCount(): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() })
+      .from(issues)
+      .where(isNotNull(issues.escalationLevel));
+    return total;
+  }
+
+  async getResolutionTimesByDepartment(): Promise<Record<Department, ResolutionTime>> {
+    // Net time from report to resolution, in milliseconds
+    const netTime = sql`extract(epoch from (${issues.resolvedAt} - ${issues.createdAt})) * 1000 - ${issues.slaPausedMs}`;
+    const rows = await this.db.select({
+      department: issues.department,
+      resolved: count(),
+      averageMs: sql<number>`avg(${netTime})`.mapWith(Number)
+    })
+      .from(issues)
+      .where(isNotNull(issues.resolvedAt))
+      .groupBy(issues.department);
+
+    const result = Object.fromEntries(
+      Object.values(Department).map((dept) => [dept, { resolved: 0, averageHours: null }])
+    ) as Record<Department, ResolutionTime>;
+
+    rows.forEach(({ department, resolved, averageMs }) => {
+      result[department] = { resolved, averageHours: Math.round(averageMs / 360000) / 10 };
+    });
+
+    return result;
+  }
+
+  async getReopenRatesByDepartment(): Promise<Record<Department, ReopenRate>> {
+    // Only consider issues the department has completed at least once
+    const rows = await this.db.select({
+      department: issues.department,
+      completed: count(),
+      reopened: count(sql`case when ${issues.reopenCount} > 0 then 1 end`)
+    })
+      .from(issues)
+      .where(isNotNull(issues.completedAt))
+      .groupBy(issues.department);
+
+    const result = Object.fromEntries(
+      Object.values(Department).map((dept) => [dept, { completed: 0, reopened: 0, percent: null }])
+    ) as Record<Department, ReopenRate>;
+
+    rows.forEach(({ department, completed, reopened }) => {
+      result[department] = { completed, reopened, percent: Math.round((reopened / completed) * 100) };
+    });
+
+    return result;
+  }
+
+  async getResolutionCodesByDepartment(): Promise<Record<Department, ResolutionCodeCounts>> {
+    // Only the resolution that currently stands, not ones the reporter rejected
+    const rows = await this.db.select({
+      department: issues.department,
+      resolutionCode: issues.resolutionCode,
+      total: count()
+    })
+      .from(issues)
+      .where(and(isNotNull(issues.resolutionCode), notInArray(issues.status, OPEN_ISSUE_STATUSES)))
+      .groupBy(issues.department, issues.resolutionCode);
+
+    const result = Object.fromEntries(
+      Object.values(Department).map((dept) => [
+        dept,
+        Object.fromEntries(Object.values(ResolutionCode).map((code) => [code, 0]))
+      ])
+    ) as Record<Department, ResolutionCodeCounts>;
+
+    rows.forEach(({ department, resolutionCode, total }) => {
+      result[department][resolutionCode!] = total;
+    });
+
+    return result;
+  }
+
+  async getOpenIssueCountsByUser(): Promise<Record<number, UserIssueCounts>> {
+    const isOpen = inArray(issues.status, OPEN_ISSUE_STATUSES);
+    const [reported, assigned] = await Promise.all([
+      this.db.select({ userId: issues.reporterId, total: count() })
+        .from(issues)
+        .where(isOpen)
+        .groupBy(issues.reporterId),
+      this.db.select({ userId: issues.assigneeId, total: count() })
+        .from(issues)
+        .where(and(isOpen, isNotNull(issues.assigneeId)))
+        .groupBy(issues.assigneeId)
+    ]);
+
+    const result: Record<number, UserIssueCounts> = {};
+    const countsOf = (userId: number) => (result[userId] ??= { reported: 0, assigned: 0 });
+
+    reported.forEach(({ userId, total }) => {
+      countsOf(userId).reported = total;
+    });
+    assigned.forEach(({ userId, total }) => {
+      countsOf(userId!).assigned = total;
+    });
+
+    return result;
+  }
+
+  // Session methods
+  private sessionsOfUser(userId: number): SQL {
+    return sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`;
+  }
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    const rows = await this.db.select().from(sessions)
+      .where(and(this.sessionsOfUser(userId), gt(sessions.expire, sql`now()`)))
+      .orderBy(desc(sessions.expire));
+
+    return rows
+      .map((row) => toUserSession(row.sid, row.sess as SessionData))
+      .filter((userSession): userSession is UserSession => !!userSession);
+  }
+
+  async revokeSession(sid: string): Promise<void> {
+    await this.db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+
+  async revokeUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const revoked = await this.db.delete(sessions)
+      .where(and(this.sessionsOfUser(userId), exceptSid ? ne(sessions.sid, exceptSid) : undefined))
+      .returning({ sid: sessions.sid });
+    return revoked.length;
+  }
+}
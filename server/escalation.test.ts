@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type EscalationRule, EscalationLevel, EscalationTarget, SLAPriority, SLAStatus } from "@shared/schema";
+import { findEscalationRule } from "./escalation";
+import { createTestIssue } from "./test-fixtures";
+
+function createTestRule(overrides: Partial<EscalationRule> & Pick<EscalationRule, "id">): EscalationRule {
+  return {
+    name: `Rule ${overrides.id}`,
+    priority: null,
+    slaStatus: SLAStatus.BREACHED,
+    delayMinutes: 0,
+    notify: EscalationTarget.DEPARTMENT,
+    level: EscalationLevel.TEAM_LEAD,
+    isEnabled: true,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides
+  };
+}
+
+describe("findEscalationRule", () => {
+  // At risk from 15:00, breached from 17:00
+  const issue = createTestIssue({ dueBy: new Date("2026-01-05T17:00:00Z") });
+  const rules = [
+    createTestRule({ id: 1, slaStatus: SLAStatus.AT_RISK, delayMinutes: 60 }),
+    createTestRule({ id: 2, level: EscalationLevel.DEPARTMENT_HEAD }),
+    createTestRule({ id: 3, level: EscalationLevel.ADMIN, isEnabled: false }),
+    createTestRule({ id: 4, level: EscalationLevel.ADMIN, priority: SLAPriority.CRITICAL })
+  ];
+  const at = (time: string) => new Date(`2026-01-05T${time}:00Z`);
+
+  it("fires once the issue has been in the rule's SLA state for its delay", () => {
+    assert.equal(findEscalationRule(rules, issue, undefined, at("15:30")), undefined);
+    assert.equal(findEscalationRule(rules, issue, undefined, at("16:00"))?.id, 1);
+  });
+
+  it("picks the highest level among the matching rules", () => {
+    assert.equal(findEscalationRule(rules, issue, undefined, at("17:30"))?.id, 2);
+    assert.equal(findEscalationRule(rules, { ...issue, priority: SLAPriority.CRITICAL }, undefined, at("17:30"))?.id, 4);
+  });
+
+  it("picks the first rule between rules of the same level", () => {
+    const sameLevel = [createTestRule({ id: 5 }), createTestRule({ id: 6 })];
+    assert.equal(findEscalationRule(sameLevel, issue, undefined, at("17:30"))?.id, 5);
+  });
+
+  it("only raises an issue above its current level", () => {
+    const escalated = { ...issue, escalationLevel: EscalationLevel.DEPARTMENT_HEAD };
+    assert.equal(findEscalationRule(rules, escalated, undefined, at("17:30")), undefined);
+  });
+
+  it("does not fire a rule again that escalated the issue before", () => {
+    const escalatedByRule = {
+      ...issue,
+      escalations: [{
+        level: EscalationLevel.TEAM_LEAD,
+        reason: "Automatic escalation: Rule 1",
+        escalatedBy: null,
+        escalatedAt: "2026-01-05T16:00:00.000Z",
+        ruleId: 1,
+        deescalatedAt: "2026-01-05T16:10:00.000Z",
+        deescalatedBy: 2,
+        deescalationReason: "Handled"
+      }]
+    };
+    assert.equal(findEscalationRule(rules, escalatedByRule, undefined, at("16:30")), undefined);
+  });
+
+  it("ignores issues without an SLA", () => {
+    assert.equal(findEscalationRule(rules, createTestIssue(), undefined, at("17:30")), undefined);
+  });
+});
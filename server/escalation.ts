@@ -0,0 +1,85 @@
+import { type Department, type EscalationRule, type Issue, type SlaCalendarSettings, OPEN_ISSUE_STATUSES, SLAStatus, ALWAYS_OPEN_CALENDAR } from "@shared/schema";
+import { storage } from "./storage";
+import { getCurrentSlaPause, getSlaThresholdTime } from "./sla";
+import { getEscalationRank } from "@shared/escalation";
+
+// A rule fires once the issue has been in (at least) the rule's SLA state for
+// the configured delay. A breached issue therefore also matches at-risk rules,
+// measured from when it first became at risk. Each rule escalates an issue at
+// most once, so a de-escalated issue is not raised again by the same rule.
+function ruleMatches(rule: EscalationRule, issue: Issue, calendar: SlaCalendarSettings, now: Date): boolean {
+  if (!rule.isEnabled) return false;
+  if (rule.priority && rule.priority !== issue.priority) return false;
+  if (getEscalationRank(rule.level) <= getEscalationRank(issue.escalationLevel)) return false;
+  if (issue.escalations.some((step) => step.ruleId === rule.id)) return false;
+
+  const thresholdTime = getSlaThresholdTime(issue, rule.slaStatus as SLAStatus.AT_RISK | SLAStatus.BREACHED, calendar);
+  if (!thresholdTime) return false;
+
+  return now.getTime() >= thresholdTime.getTime() + rule.delayMinutes * 60 * 1000;
+}
+
+// The matching rule with the highest level escalates the issue; between rules
+// of the same level, the first one wins
+export function findEscalationRule(
+  rules: EscalationRule[],
+  issue: Issue,
+  calendar: SlaCalendarSettings = ALWAYS_OPEN_CALENDAR,
+  now = new Date()
+): EscalationRule | undefined {
+  return rules
+    .filter((rule) => ruleMatches(rule, issue, calendar, now))
+    .reduce<EscalationRule | undefined>((highest, rule) =>
+      !highest || getEscalationRank(rule.level) > getEscalationRank(highest.level) ? rule : highest, undefined);
+}
+
+// Escalate every open issue that matches a rule, possibly to a level above the
+// one it was escalated to before. Returns the number of escalations.
+export async function applyEscalationRules(
+  issues: Issue[],
+  calendarFor: (department: Department) => SlaCalendarSettings
+): Promise<number> {
+  const rules = await storage.getEscalationRules();
+  if (rules.length === 0) return 0;
+
+  const now = new Date();
+  let escalations = 0;
+
+  for (const issue of issues) {
+    if (!OPEN_ISSUE_STATUSES.includes(issue.status)) continue;
+    // Time spent waiting in pending does not count towards the rule's delay
+    if (getCurrentSlaPause(issue)) continue;
+
+    const rule = findEscalationRule(rules, issue, calendarFor(issue.department), now);
+    if (!rule) continue;
+
+    const reason = `Automatic escalation: ${rule.name}`;
+    // Skipped if a user changed the issue since this run loaded it
+    const updatedIssue = await storage.escalateIssue(issue.id, issue, {
+      level: rule.level,
+      reason,
+      escalatedBy: null,
+      ruleId: rule.id,
+      notify: rule.notify
+    });
+    if (!updatedIssue) continue;
+    escalations++;
+
+    await storage.createActivity({
+      issueId: issue.id,
+      userId: null,
+      action: "escalated",
+      details: {
+        reason,
+        level: rule.level,
+        fromLevel: issue.escalationLevel,
+        automatic: true,
+        ruleId: rule.id,
+        notify: rule.notify,
+        slaStatus: issue.slaStatus
+      }
+    });
+  }
+
+  return escalations;
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startSlaWorker } from "./sla-worker";
+import { initStorage } from "./storage";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +39,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Any error seeding the database rejects here and stops the server
+  await initStorage();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -65,5 +69,7 @@ app.listen(PORT, 'localhost', () => {
   console.log(`Server running at http://localhost:${PORT}`);
 });
 
+  startSlaWorker();
+
   
 })();
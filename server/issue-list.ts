@@ -0,0 +1,50 @@
+import { type Issue, type IssueCursor, type IssueListQuery, type IssueScope, type IssueSortField, type User, SLAPriority, UserRole } from "@shared/schema";
+
+// Priorities sort from least to most urgent
+export const PRIORITY_RANK: Record<SLAPriority, number> = {
+  [SLAPriority.LOW]: 0,
+  [SLAPriority.MEDIUM]: 1,
+  [SLAPriority.HIGH]: 2,
+  [SLAPriority.CRITICAL]: 3
+};
+
+// Where an issue sits in the sort order; value is null when the issue has no
+// value for the field, e.g. no due date. Timestamps are in milliseconds.
+export type SortKey = { value: number | null; id: number };
+
+export function getSortKey(issue: Issue, field: IssueSortField): SortKey {
+  if (field === "priority") return { value: PRIORITY_RANK[issue.priority], id: issue.id };
+  const value = issue[field];
+  return { value: value ? new Date(value).getTime() : null, id: issue.id };
+}
+
+export function encodeIssueCursor(query: IssueListQuery, direction: IssueCursor["direction"], key: SortKey): string {
+  const cursor: IssueCursor = { sort: query.sort, order: query.order, direction, ...key };
+  return btoa(JSON.stringify(cursor));
+}
+
+// The issues a user may open, the same as GET /api/issues/:id allows
+export function getViewableIssueScope(user: User): IssueScope {
+  switch (user.role) {
+    case UserRole.EMPLOYEE:
+      return { reporterId: user.id };
+    case UserRole.DEPARTMENT:
+      return { department: user.department };
+    case UserRole.ADMIN:
+      return {};
+  }
+}
+
+// The issues a user works with: employees see what they reported, department
+// staff their department's issues and admins whatever is escalated or whose
+// SLA is at risk or breached
+export function getUserIssueScope(user: User): IssueScope {
+  switch (user.role) {
+    case UserRole.EMPLOYEE:
+      return { reporterId: user.id };
+    case UserRole.DEPARTMENT:
+      return { department: user.department };
+    case UserRole.ADMIN:
+      return { needsAttention: true };
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateTemporaryPassword, passwordPolicy, validatePassword } from "./passwords";
+
+// Run against the default policy: at least 8 characters, mixed case and a digit
+describe("validatePassword", () => {
+  it("accepts a password that meets the policy", () => {
+    assert.deepEqual(validatePassword("Correct1horse", "alice"), []);
+  });
+
+  it("lists every rule a password breaks", () => {
+    assert.deepEqual(validatePassword("short"), [
+      `Password must be at least ${passwordPolicy.minLength} characters`,
+      "Password must contain both upper and lower case letters",
+      "Password must contain at least one digit"
+    ]);
+  });
+
+  it("rejects a password containing the username in any case", () => {
+    assert.deepEqual(validatePassword("XAlice2026x", "alice"), ["Password must not contain your username"]);
+  });
+});
+
+describe("generateTemporaryPassword", () => {
+  it("always meets the policy", () => {
+    for (let i = 0; i < 20; i++) {
+      assert.deepEqual(validatePassword(generateTemporaryPassword()), []);
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import fs from "fs";
+import { randomBytes, randomInt } from "crypto";
+
+// Password hashing and policy. Everything is configurable through the
+// environment so deployments can tighten the rules without code changes:
+//
+//   BCRYPT_ROUNDS                 bcrypt cost factor (default 10)
+//   PASSWORD_MIN_LENGTH           minimum length (default 8)
+//   PASSWORD_REQUIRE_MIXED_CASE   require upper and lower case letters (default true)
+//   PASSWORD_REQUIRE_DIGIT        require at least one digit (default true)
+//   PASSWORD_REQUIRE_SYMBOL       require at least one symbol (default false)
+//   PASSWORD_DENYLIST_FILE        file of breached passwords, one per line
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "");
+  return Number.isNaN(value) ? fallback : value;
+}
+
+function envFlag(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  return ["1", "true", "yes"].includes(value.toLowerCase());
+}
+
+function loadDenylist(file: string | undefined): Set<string> {
+  if (!file) return new Set();
+
+  const entries = fs.readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map(line => line.trim().toLowerCase())
+    .filter(line => line !== "" && !line.startsWith("#"));
+  return new Set(entries);
+}
+
+export const passwordPolicy = {
+  bcryptRounds: envNumber("BCRYPT_ROUNDS", 10),
+  minLength: envNumber("PASSWORD_MIN_LENGTH", 8),
+  requireMixedCase: envFlag("PASSWORD_REQUIRE_MIXED_CASE", true),
+  requireDigit: envFlag("PASSWORD_REQUIRE_DIGIT", true),
+  requireSymbol: envFlag("PASSWORD_REQUIRE_SYMBOL", false)
+};
+
+// Loaded once at startup so a misconfigured path fails fast
+const denylist = loadDenylist(process.env.PASSWORD_DENYLIST_FILE);
+
+export async function hashPassword(password: string): Promise<string> {
+  const bcrypt = await import('bcrypt');
+  return bcrypt.hash(password, passwordPolicy.bcryptRounds);
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const bcrypt = await import('bcrypt');
+  try {
+    return await bcrypt.compare(supplied, stored);
+  } catch (error) {
+    // A malformed stored hash can never match
+    return false;
+  }
+}
+
+// True when a hash was produced with a lower cost than the current policy
+export async function needsRehash(stored: string): Promise<boolean> {
+  const bcrypt = await import('bcrypt');
+  try {
+    return bcrypt.getRounds(stored) < passwordPolicy.bcryptRounds;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Returns the list of policy violations; an empty list means the password is acceptable
+export function validatePassword(password: string, username?: string): string[] {
+  const errors: string[] = [];
+
+  if (password.length < passwordPolicy.minLength) {
+    errors.push(`Password must be at least ${passwordPolicy.minLength} characters`);
+  }
+
+  if (passwordPolicy.requireMixedCase && !(/[a-z]/.test(password) && /[A-Z]/.test(password))) {
+    errors.push("Password must contain both upper and lower case letters");
+  }
+
+  if (passwordPolicy.requireDigit && !/\d/.test(password)) {
+    errors.push("Password must contain at least one digit");
+  }
+
+  if (passwordPolicy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push("Password must contain at least one symbol");
+  }
+
+  if (username && password.toLowerCase().includes(username.toLowerCase())) {
+    errors.push("Password must not contain your username");
+  }
+
+  if (denylist.has(password.toLowerCase())) {
+    errors.push("This password has appeared in a data breach; please choose another");
+  }
+
+  return errors;
+}
+
+// Random password handed out by admins when resetting an account. It always
+// satisfies the policy; users are expected to change it after logging in.
+export function generateTemporaryPassword(): string {
+  const pick = (chars: string) => chars[randomInt(chars.length)];
+  const length = Math.max(passwordPolicy.minLength, 12);
+
+  const required = [
+    pick("ABCDEFGHJKLMNPQRSTUVWXYZ"),
+    pick("abcdefghijkmnopqrstuvwxyz"),
+    pick("23456789"),
+    pick("!@#$%^&*")
+  ];
+  const filler = randomBytes(length).toString("base64url").slice(0, length - required.length);
+
+  // Shuffle so the required characters are not always at the end
+  const chars = filler.split("").concat(required);
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join("");
+}
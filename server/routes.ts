@@ -2,8 +2,17 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
 import { storage } from "./storage";
+import { generateTemporaryPassword, hashPassword } from "./passwords";
+import { getSlaWorkerStatus } from "./sla-worker";
+import { calculateDueBy } from "./sla";
+import { autoAssignIssue, isAssignable } from "./assignment";
+import { getTeamWorkload } from "./workload";
+import { getUserIssueScope, getViewableIssueScope } from "./issue-list";
+import { toPublicUser, toUserSummary, serializeIssue, serializeIssues, serializeActivities } from "./serializers";
 import { z } from "zod";
-import { insertIssueSchema, insertActivitySchema, IssueStatus, UserRole, Department, SLAPriority, SLAStatus } from "@shared/schema";
+import { insertIssueSchema, insertActivitySchema, updateIssueStatusSchema, assignIssueSchema, updateIssuePrioritySchema, escalateIssueSchema, deescalateIssueSchema, issueListQuerySchema, searchQuerySchema, takeDepartmentActionSchema, updateUserRoleSchema, updateUserStatusSchema, insertEscalationRuleSchema, updateEscalationRuleSchema, insertSlaCalendarSchema, previewSlaCalendarSchema, insertAssignmentSettingsSchema, insertSlaPolicySchema, ALWAYS_OPEN_CALENDAR, type Issue, RESOLVED_ISSUE_STATUSES, IssueStatus, EscalationTarget, AssignmentStrategy, UserRole, Department, SLAPriority, SLAStatus } from "@shared/schema";
+import { getAvailableTransitions, getMissingFields, getWorkflowActors, WORKFLOW_FIELD_NAMES } from "@shared/workflow";
+import { canDeescalate, getEscalationLevels, getEscalationRank, getNextEscalationLevel, isEscalationAlertFor, ESCALATION_LEVEL_LABELS } from "@shared/escalation";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes
@@ -11,57 +20,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   const { requireRole } = app.locals;
   
-  // Get all issues
+  // The first comment, assignment or status change by department staff or an
+  // admin counts as the department's first response to the issue
+  const recordFirstResponse = async (issue: Issue, user: Express.User): Promise<Issue> => {
+    if (user.role === UserRole.EMPLOYEE || issue.firstResponseAt) return issue;
+    return (await storage.recordFirstResponse(issue.id, new Date())) ?? issue;
+  };
+  
+  // Every issue, one page at a time
   app.get("/api/issues", requireRole([UserRole.ADMIN]), async (req, res) => {
     try {
-      const issues = await storage.getAllIssues();
-      res.json(issues);
+      const query = issueListQuerySchema.parse(req.query);
+      const page = await storage.queryIssues({}, query);
+      res.json({ ...page, issues: await serializeIssues(page.issues) });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid issue list query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch issues" });
     }
   });
   
-  // Get issues for current user
+  // Get issues for current user, one page at a time
   app.get("/api/issues/me", async (req, res) => {
     if (!req.isAuthenticated()) return res.status(401).json({ message: "Authentication required" });
     
     try {
-      const user = req.user;
-      let issues;
-      
-      switch (user.role) {
-        case UserRole.EMPLOYEE:
-          issues = await storage.getIssuesByReporter(user.id);
-          break;
-        case UserRole.DEPARTMENT:
-          issues = await storage.getIssuesByDepartment(user.department);
-          break;
-        case UserRole.ADMIN:
-          // For admins, only show escalated issues or issues with breached SLA
-          const allIssues = await storage.getAllIssues();
-          issues = allIssues.filter(issue => 
-            issue.isEscalated || 
-            issue.slaStatus === SLAStatus.BREACHED || 
-            issue.slaStatus === SLAStatus.AT_RISK
-          );
-          break;
-        default:
-          issues = [];
-      }
-      
-      res.json(issues);
+      const query = issueListQuerySchema.parse(req.query);
+      const page = await storage.queryIssues(getUserIssueScope(req.user), query);
+      res.json({ ...page, issues: await serializeIssues(page.issues) });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid issue list query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch issues" });
     }
   });
   
-  // Get issues by department
+  // Dashboard counts over the current user's issues
+  app.get("/api/issues/me/summary", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Authentication required" });
+    
+    try {
+      res.json(await storage.getIssueSummary(getUserIssueScope(req.user)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch issue summary" });
+    }
+  });
+  
+  // Issues assigned to the current member of staff, one page at a time
+  app.get("/api/issues/assigned", requireRole([UserRole.DEPARTMENT]), async (req, res) => {
+    try {
+      const query = issueListQuerySchema.parse(req.query);
+      const page = await storage.queryIssues({ assigneeId: req.user!.id }, query);
+      res.json({ ...page, issues: await serializeIssues(page.issues) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid issue list query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch assigned issues" });
+    }
+  });
+  
+  // Verified and closed issues the current user reported or was assigned to,
+  // one page at a time. Defaults to the most recently resolved first.
+  app.get("/api/issues/history", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Authentication required" });
+    
+    try {
+      const query = issueListQuerySchema.parse({ sort: "resolvedAt", ...req.query });
+      const page = await storage.queryIssues({ involvedUserId: req.user.id, statuses: RESOLVED_ISSUE_STATUSES }, query);
+      res.json({ ...page, issues: await serializeIssues(page.issues) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid issue list query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch issue history" });
+    }
+  });
+  
+  // Ranked full-text search over the issues the user may open
+  app.get("/api/search", async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Authentication required" });
+    
+    try {
+      const query = searchQuerySchema.parse(req.query);
+      res.json(await storage.searchIssues(getViewableIssueScope(req.user), query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search issues" });
+    }
+  });
+  
+  // Get issues by department, one page at a time
   app.get("/api/issues/department/:department", requireRole([UserRole.DEPARTMENT, UserRole.ADMIN]), async (req, res) => {
     try {
-      const department = req.params.department as Department;
-      const issues = await storage.getIssuesByDepartment(department);
-      res.json(issues);
+      const parsedDepartment = z.nativeEnum(Department).safeParse(req.params.department);
+      if (!parsedDepartment.success) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      const department = parsedDepartment.data;
+      
+      // Department staff only see their own department's issues, as with GET /api/issues/:id
+      if (req.user!.role === UserRole.DEPARTMENT && req.user!.department !== department) {
+        return res.status(403).json({ message: "Access forbidden" });
+      }
+      
+      const query = issueListQuerySchema.parse(req.query);
+      const page = await storage.queryIssues({ department }, query);
+      res.json({ ...page, issues: await serializeIssues(page.issues) });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid issue list query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch department issues" });
     }
   });
@@ -89,7 +162,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access forbidden" });
       }
       
-      res.json(issue);
+      res.json(await serializeIssue(issue));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch issue" });
     }
@@ -105,8 +178,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         reporterId: req.user.id
       });
       
-      const issue = await storage.createIssue(issueData);
-      res.status(201).json(issue);
+      const issue = await autoAssignIssue(await storage.createIssue(issueData), "created");
+      res.status(201).json(await serializeIssue(issue));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid issue data", errors: error.errors });
@@ -121,46 +194,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const id = parseInt(req.params.id);
-      const { status } = req.body;
+      const { status, note, resolutionSummary, resolutionCode } = updateIssueStatusSchema.parse(req.body);
       
       const issue = await storage.getIssue(id);
       if (!issue) {
         return res.status(404).json({ message: "Issue not found" });
       }
       
-      // Validate status transitions based on role
+      // The shared workflow decides who may move the issue where
       const user = req.user;
+      if (getWorkflowActors(issue, user).length === 0) {
+        return res.status(403).json({ message: "Access forbidden" });
+      }
       
-      if (user.role === UserRole.EMPLOYEE) {
-        // Employees can only verify or reject completed issues they reported
-        if (issue.reporterId !== user.id) {
-          return res.status(403).json({ message: "Access forbidden" });
-        }
-        
-        if (issue.status !== IssueStatus.COMPLETED || 
-            (status !== IssueStatus.VERIFIED && status !== IssueStatus.REJECTED)) {
-          return res.status(400).json({ message: "Invalid status transition" });
-        }
-      } else if (user.role === UserRole.DEPARTMENT) {
-        // Department staff can update issues in their department to in progress, pending, or completed
-        if (issue.department !== user.department) {
-          return res.status(403).json({ message: "Access forbidden" });
-        }
-        
-        // Allow department staff to make valid status transitions
-        if (status === IssueStatus.IN_PROGRESS && issue.status === IssueStatus.OPEN) {
-          // Open -> In Progress (valid)
-        } else if (status === IssueStatus.PENDING && issue.status === IssueStatus.IN_PROGRESS) {
-          // In Progress -> Pending (valid)
-        } else if (status === IssueStatus.COMPLETED && 
-                  (issue.status === IssueStatus.IN_PROGRESS || issue.status === IssueStatus.PENDING)) {
-          // In Progress/Pending -> Completed (valid)
-        } else {
-          return res.status(400).json({ message: "Invalid status transition" });
-        }
+      const transition = getAvailableTransitions(issue, user).find((t) => t.to === status);
+      if (!transition) {
+        return res.status(400).json({ message: "Invalid status transition" });
+      }
+      
+      const missingFields = getMissingFields(transition, { note, resolutionSummary, resolutionCode });
+      if (missingFields.length > 0) {
+        return res.status(400).json({ 
+          message: `${transition.label} requires a ${missingFields.map((field) => WORKFLOW_FIELD_NAMES[field]).join(" and ")}`,
+          missingFields
+        });
       }
       
-      const updatedIssue = await storage.updateIssueStatus(id, status);
+      // Only completing records a resolution; the workflow has made sure it is complete
+      const resolution = status === IssueStatus.COMPLETED && resolutionSummary && resolutionCode
+        ? { resolutionSummary, resolutionCode }
+        : undefined;
+      let updatedIssue = await recordFirstResponse((await storage.updateIssueStatus(id, status, resolution))!, user);
       
       // Create activity record
       await storage.createActivity({
@@ -169,21 +233,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: "updated_status",
         details: { 
           fromStatus: issue.status,
-          toStatus: status
+          toStatus: status,
+          ...(note ? { note } : {}),
+          ...resolution
         }
       });
       
-      res.json(updatedIssue);
+      // A rejected resolution goes straight back to the department
+      if (status === IssueStatus.REJECTED) {
+        const policy = updatedIssue.slaPolicyId ? await storage.getSlaPolicy(updatedIssue.slaPolicyId) : undefined;
+        updatedIssue = (await storage.reopenIssue(id))!;
+        
+        await storage.createActivity({
+          issueId: id,
+          userId: null,
+          action: "reopened",
+          details: {
+            toStatus: updatedIssue.status,
+            reason: note,
+            reopenCount: updatedIssue.reopenCount,
+            slaBehavior: policy?.reopenBehavior ?? null,
+            dueBy: updatedIssue.dueBy
+          }
+        });
+      }
+      
+      res.json(await serializeIssue(updatedIssue));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status update", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update issue status" });
     }
   });
   
-  // Assign an issue
+  // Assign an issue to a member of its department, or unassign it
   app.patch("/api/issues/:id/assign", requireRole([UserRole.DEPARTMENT, UserRole.ADMIN]), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const { assigneeId } = req.body;
+      const { assigneeId } = assignIssueSchema.parse(req.body);
       
       const issue = await storage.getIssue(id);
       if (!issue) {
@@ -195,28 +283,140 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access forbidden" });
       }
       
-      const updatedIssue = await storage.assignIssue(id, assigneeId);
+      if (RESOLVED_ISSUE_STATUSES.includes(issue.status)) {
+        return res.status(400).json({ message: "Cannot assign verified or closed issues" });
+      }
+      
+      if (assigneeId === issue.assigneeId) {
+        return res.status(400).json({ message: assigneeId ? "Issue is already assigned to this user" : "Issue is not assigned" });
+      }
+      
+      const assignee = assigneeId ? await storage.getUser(assigneeId) : undefined;
+      if (assigneeId && !assignee) {
+        return res.status(400).json({ message: "Assignee not found" });
+      }
+      if (assignee && !isAssignable(assignee, issue.department)) {
+        return res.status(400).json({ message: `Issues can only be assigned to active staff of the ${issue.department} department` });
+      }
+      
+      const updatedIssue = await recordFirstResponse((await storage.assignIssue(id, assigneeId))!, req.user!);
       
       // Create activity record
       await storage.createActivity({
         issueId: id,
         userId: req.user.id,
-        action: "assigned",
-        details: { assigneeId }
+        action: assignee ? "assigned" : "unassigned",
+        details: assignee
+          ? { assigneeId, assigneeName: assignee.fullName, previousAssigneeId: issue.assigneeId }
+          : { previousAssigneeId: issue.assigneeId }
       });
       
-      res.json(updatedIssue);
+      res.json(await serializeIssue(updatedIssue));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignee", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to assign issue" });
     }
   });
   
-  // Escalate an issue
+  // Staff an issue of the department can be assigned to
+  app.get("/api/departments/:department/members", requireRole([UserRole.DEPARTMENT, UserRole.ADMIN]), async (req, res) => {
+    try {
+      const department = req.params.department as Department;
+      if (!Object.values(Department).includes(department)) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      
+      // Department staff only see their own colleagues
+      if (req.user!.role === UserRole.DEPARTMENT && req.user!.department !== department) {
+        return res.status(403).json({ message: "Access forbidden" });
+      }
+      
+      const members = await storage.getUsersByDepartment(department);
+      res.json(members
+        .filter((member) => isAssignable(member, department))
+        .map(toUserSummary)
+        .sort((a, b) => a.fullName.localeCompare(b.fullName)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch department members" });
+    }
+  });
+  
+  // Open issues of a department per member of staff, for balancing the team's work
+  app.get("/api/departments/:department/workload", requireRole([UserRole.DEPARTMENT, UserRole.ADMIN]), async (req, res) => {
+    try {
+      const department = req.params.department as Department;
+      if (!Object.values(Department).includes(department)) {
+        return res.status(404).json({ message: "Department not found" });
+      }
+      
+      // Department staff only see their own team
+      if (req.user!.role === UserRole.DEPARTMENT && req.user!.department !== department) {
+        return res.status(403).json({ message: "Access forbidden" });
+      }
+      
+      res.json(await getTeamWorkload(department));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch team workload" });
+    }
+  });
+  
+  // Change an issue's priority; due dates are recalculated from the SLA policy
+  app.patch("/api/issues/:id/priority", requireRole([UserRole.DEPARTMENT, UserRole.ADMIN]), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { priority, justification } = updateIssuePrioritySchema.parse(req.body);
+      
+      const issue = await storage.getIssue(id);
+      if (!issue) {
+        return res.status(404).json({ message: "Issue not found" });
+      }
+      
+      // Department staff can only change issues in their department
+      if (req.user!.role === UserRole.DEPARTMENT && issue.department !== req.user!.department) {
+        return res.status(403).json({ message: "Access forbidden" });
+      }
+      
+      if (RESOLVED_ISSUE_STATUSES.includes(issue.status)) {
+        return res.status(400).json({ message: "Cannot change the priority of verified or closed issues" });
+      }
+      
+      if (issue.priority === priority) {
+        return res.status(400).json({ message: "Issue already has this priority" });
+      }
+      
+      const updatedIssue = await storage.updateIssuePriority(id, priority);
+      
+      await storage.createActivity({
+        issueId: id,
+        userId: req.user!.id,
+        action: "priority_changed",
+        details: {
+          fromPriority: issue.priority,
+          toPriority: priority,
+          justification,
+          fromDueBy: issue.dueBy,
+          toDueBy: updatedIssue!.dueBy
+        }
+      });
+      
+      res.json(await serializeIssue(updatedIssue!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid priority change", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to change issue priority" });
+    }
+  });
+  
+  // Escalate an issue to the next level, or to a given higher level
   app.patch("/api/issues/:id/escalate", async (req, res) => {
     if (!req.isAuthenticated()) return res.status(401).json({ message: "Authentication required" });
     
     try {
       const id = parseInt(req.params.id);
+      const { level: requestedLevel, reason } = escalateIssueSchema.parse(req.body);
       const user = req.user;
       
       const issue = await storage.getIssue(id);
@@ -224,49 +424,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Issue not found" });
       }
       
-      // Check permissions based on role
-      if (user.role === UserRole.EMPLOYEE) {
-        // Employees can only escalate issues they reported
-        if (issue.reporterId !== user.id) {
-          return res.status(403).json({ message: "Access forbidden" });
-        }
-        
-        // Only allow escalation if not already escalated
-        if (issue.isEscalated) {
-          return res.status(400).json({ message: "Issue is already escalated" });
-        }
-        
-        // Only allow escalation if issue is not verified or closed
-        if (issue.status === IssueStatus.VERIFIED || issue.status === IssueStatus.CLOSED) {
-          return res.status(400).json({ message: "Cannot escalate verified or closed issues" });
-        }
-        
-        // For testing purposes, allow escalation without time restrictions
-        // In production, we'd check SLA or time-based conditions
-      } else if (user.role === UserRole.DEPARTMENT) {
-        // Department staff can only escalate issues in their department
-        if (issue.department !== user.department) {
-          return res.status(403).json({ message: "Access forbidden" });
-        }
-      } 
-      // Admins can escalate any issue
+      // Reporters, the issue's department and admins may escalate
+      if (getWorkflowActors(issue, user).length === 0) {
+        return res.status(403).json({ message: "Access forbidden" });
+      }
+      
+      if (RESOLVED_ISSUE_STATUSES.includes(issue.status)) {
+        return res.status(400).json({ message: "Cannot escalate verified or closed issues" });
+      }
+      
+      const level = requestedLevel ?? getNextEscalationLevel(issue.escalationLevel);
+      if (!level) {
+        return res.status(400).json({ message: "Issue is already at the highest escalation level" });
+      }
+      if (getEscalationRank(level) <= getEscalationRank(issue.escalationLevel)) {
+        return res.status(400).json({ message: "Issue is already escalated to this level" });
+      }
+      if (!getEscalationLevels(issue, user).includes(level)) {
+        return res.status(403).json({ message: `You cannot escalate this issue to ${ESCALATION_LEVEL_LABELS[level]}` });
+      }
       
-      const updatedIssue = await storage.escalateIssue(id);
+      const escalationReason = reason || "Manual escalation";
+      const updatedIssue = await storage.escalateIssue(id, issue, {
+        level,
+        reason: escalationReason,
+        escalatedBy: user.id
+      });
+      if (!updatedIssue) {
+        return res.status(409).json({ message: "The issue was changed in the meantime; reload it and try again" });
+      }
       
       // Create activity record
       await storage.createActivity({
         issueId: id,
         userId: user.id,
         action: "escalated",
-        details: { reason: req.body.reason || "Manual escalation" }
+        details: { reason: escalationReason, level, fromLevel: issue.escalationLevel }
       });
       
-      res.json(updatedIssue);
+      res.json(await serializeIssue(updatedIssue));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid escalation", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to escalate issue" });
     }
   });
   
+  // De-escalate an issue back to the status it was escalated from
+  app.patch("/api/issues/:id/deescalate", requireRole([UserRole.DEPARTMENT, UserRole.ADMIN]), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { reason } = deescalateIssueSchema.parse(req.body);
+      const user = req.user!;
+      
+      const issue = await storage.getIssue(id);
+      if (!issue) {
+        return res.status(404).json({ message: "Issue not found" });
+      }
+      
+      if (!issue.escalationLevel) {
+        return res.status(400).json({ message: "Issue is not escalated" });
+      }
+      
+      // Department staff cannot take back an issue escalated to the administrators
+      if (!canDeescalate(issue, user)) {
+        return res.status(403).json({ message: "Access forbidden" });
+      }
+      
+      const updatedIssue = await storage.deescalateIssue(id, user.id, reason);
+      
+      await storage.createActivity({
+        issueId: id,
+        userId: user.id,
+        action: "deescalated",
+        details: { reason, fromLevel: issue.escalationLevel, toStatus: updatedIssue!.status }
+      });
+      
+      res.json(await serializeIssue(updatedIssue!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid de-escalation", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to de-escalate issue" });
+    }
+  });
+  
   // Add a comment to an issue
   app.post("/api/issues/:id/comments", async (req, res) => {
     if (!req.isAuthenticated()) return res.status(401).json({ message: "Authentication required" });
@@ -295,8 +538,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access forbidden" });
       }
       
-      const updatedIssue = await storage.addComment(id, user.id, text);
-      res.json(updatedIssue);
+      const updatedIssue = await recordFirstResponse((await storage.addComment(id, user.id, text))!, user);
+      res.json(await serializeIssue(updatedIssue));
     } catch (error) {
       res.status(500).json({ message: "Failed to add comment" });
     }
@@ -326,12 +569,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const activities = await storage.getActivitiesByIssue(id);
-      res.json(activities);
+      res.json(await serializeActivities(activities));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch activities" });
     }
   });
   
+  // Instructions admins have given the department on an issue, newest first
+  app.get("/api/issues/:id/department-actions", requireRole([UserRole.DEPARTMENT, UserRole.ADMIN]), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const issue = await storage.getIssue(id);
+      if (!issue) {
+        return res.status(404).json({ message: "Issue not found" });
+      }
+      
+      if (req.user!.role === UserRole.DEPARTMENT && issue.department !== req.user!.department) {
+        return res.status(403).json({ message: "Access forbidden" });
+      }
+      
+      res.json(await storage.getDepartmentActionsByIssue(id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch department actions" });
+    }
+  });
+  
+  // Instructions still waiting for acknowledgement: the department's own, or all of them for admins
+  app.get("/api/department-actions/pending", requireRole([UserRole.DEPARTMENT, UserRole.ADMIN]), async (req, res) => {
+    try {
+      const user = req.user!;
+      const actions = await storage.getPendingDepartmentActions(
+        user.role === UserRole.DEPARTMENT ? user.department : undefined
+      );
+      res.json(actions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch department actions" });
+    }
+  });
+  
+  // Escalated issues an escalation rule alerted the user's audience to:
+  // administrators, or the staff of the issue's department
+  app.get("/api/escalations/alerts", requireRole([UserRole.DEPARTMENT, UserRole.ADMIN]), async (req, res) => {
+    try {
+      const user = req.user!;
+      const target = user.role === UserRole.ADMIN ? EscalationTarget.ADMIN : EscalationTarget.DEPARTMENT;
+      const issues = (await storage.getEscalatedIssues()).filter((issue) =>
+        isEscalationAlertFor(issue, target) && (user.role === UserRole.ADMIN || issue.department === user.department));
+      res.json(await serializeIssues(issues));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch escalation alerts" });
+    }
+  });
+  
+  // Acknowledge an instruction given to the user's department
+  app.patch("/api/department-actions/:id/acknowledge", requireRole([UserRole.DEPARTMENT]), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = req.user!;
+      
+      const action = await storage.getDepartmentAction(id);
+      if (!action) {
+        return res.status(404).json({ message: "Department action not found" });
+      }
+      
+      if (action.department !== user.department) {
+        return res.status(403).json({ message: "Access forbidden" });
+      }
+      
+      const acknowledgedAction = await storage.acknowledgeDepartmentAction(id, user.id);
+      if (!acknowledgedAction) {
+        return res.status(400).json({ message: "Department action has already been acknowledged" });
+      }
+      
+      await storage.createActivity({
+        issueId: action.issueId,
+        userId: user.id,
+        action: "department_action_acknowledged",
+        details: { actionId: id, department: action.department }
+      });
+      
+      res.json(acknowledgedAction);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to acknowledge department action" });
+    }
+  });
+  
   // Get recent activities
   app.get("/api/activities/recent", async (req, res) => {
     if (!req.isAuthenticated()) return res.status(401).json({ message: "Authentication required" });
@@ -356,7 +678,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         filteredActivities = activities.filter(activity => departmentIssueIds.includes(activity.issueId));
       }
       
-      res.json(filteredActivities);
+      const issueIds = Array.from(new Set(filteredActivities.map((activity) => activity.issueId)));
+      const issueTitles = new Map((await Promise.all(issueIds.map((id) => storage.getIssue(id))))
+        .filter((issue): issue is Issue => !!issue)
+        .map((issue) => [issue.id, issue.title]));
+      
+      const serialized = await serializeActivities(filteredActivities);
+      res.json(serialized.map((activity) => ({ ...activity, issueTitle: issueTitles.get(activity.issueId) ?? null })));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch recent activities" });
     }
@@ -382,7 +710,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Update the issue's department
-      const updatedIssue = await storage.updateIssueDepartment(id, department);
+      let updatedIssue = await storage.updateIssueDepartment(id, department);
       
       // Create activity record
       await storage.createActivity({
@@ -395,7 +723,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
       
-      res.json(updatedIssue);
+      // The old assignee was cleared, so the new department's strategy picks someone
+      updatedIssue = await autoAssignIssue(updatedIssue!, "department_changed");
+      
+      res.json(await serializeIssue(updatedIssue));
     } catch (error) {
       res.status(500).json({ message: "Failed to reassign department" });
     }
@@ -407,10 +738,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const slaPerformance = await storage.getSLAPerformanceByDepartment();
       const statusCounts = await storage.getIssueCountsByStatus();
       const escalatedCount = await storage.getEscalatedIssuesCount();
+      const resolutionTimes = await storage.getResolutionTimesByDepartment();
+      const responsePerformance = await storage.getResponsePerformanceByDepartment();
+      const reopenRates = await storage.getReopenRatesByDepartment();
+      const resolutionCodes = await storage.getResolutionCodesByDepartment();
+      
+      // Average net resolution time across all departments, weighted by resolved issues
+      const timedResolutions = Object.values(resolutionTimes).filter(({ averageHours }) => averageHours !== null);
+      const timedCount = timedResolutions.reduce((acc, { resolved }) => acc + resolved, 0);
+      const averageResolutionHours = timedCount > 0
+        ? Math.round(timedResolutions.reduce((acc, { resolved, averageHours }) => acc + resolved * averageHours!, 0) / timedCount * 10) / 10
+        : null;
+      
+      // Share of all completed issues that were reopened
+      const reopenTotals = Object.values(reopenRates).reduce(
+        (acc, { completed, reopened }) => ({ completed: acc.completed + completed, reopened: acc.reopened + reopened }),
+        { completed: 0, reopened: 0 }
+      );
+      const overallReopenRate = reopenTotals.completed > 0
+        ? Math.round((reopenTotals.reopened / reopenTotals.completed) * 100)
+        : null;
       
       // Calculate overall SLA performance
       const departments = Object.keys(slaPerformance) as Department[];
       const overallPerformance = departments.reduce((acc, dept) => acc + slaPerformance[dept], 0) / departments.length;
+      const overallResponsePerformance = departments.reduce((acc, dept) => acc + responsePerformance[dept], 0) / departments.length;
       
       // Calculate total open issues
       const openIssues = statusCounts[IssueStatus.OPEN] + 
@@ -424,16 +776,524 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         departmentPerformance: slaPerformance,
         overallPerformance: Math.round(overallPerformance),
+        responsePerformance,
+        overallResponsePerformance: Math.round(overallResponsePerformance),
         statusCounts,
         openIssues,
         resolvedIssues,
-        escalatedCount
+        escalatedCount,
+        resolutionTimes,
+        averageResolutionHours,
+        reopenRates,
+        overallReopenRate,
+        resolutionCodes
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch analytics data" });
     }
   });
   
+  // Last run of the background SLA worker (admin only)
+  app.get("/api/admin/sla-worker", requireRole([UserRole.ADMIN]), (req, res) => {
+    res.json(getSlaWorkerStatus());
+  });
+  
+  // Active escalations, longest escalated first (admin only)
+  app.get("/api/admin/escalations", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const issues = await storage.getEscalatedIssues();
+      res.json(await serializeIssues(issues));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch escalations" });
+    }
+  });
+  
+  // Formally direct the department handling an escalated issue (admin only)
+  app.post("/api/admin/department-action", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const { issueId, instruction, reason, deadline } = takeDepartmentActionSchema.parse(req.body);
+      
+      const issue = await storage.getIssue(issueId);
+      if (!issue) {
+        return res.status(404).json({ message: "Issue not found" });
+      }
+      
+      if (!issue.escalationLevel) {
+        return res.status(400).json({ message: "Department actions can only be taken on escalated issues" });
+      }
+      
+      const action = await storage.createDepartmentAction({
+        issueId,
+        department: issue.department,
+        instruction,
+        reason,
+        deadline,
+        createdBy: req.user!.id
+      });
+      
+      // The activity is how the department hears about it
+      await storage.createActivity({
+        issueId,
+        userId: req.user!.id,
+        action: "department_action",
+        details: {
+          actionId: action.id,
+          department: action.department,
+          instruction,
+          reason,
+          deadline,
+          notify: EscalationTarget.DEPARTMENT
+        }
+      });
+      
+      res.status(201).json(action);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid department action", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to take department action" });
+    }
+  });
+  
+  // List automatic escalation rules (admin only)
+  app.get("/api/admin/escalation-rules", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const rules = await storage.getEscalationRules();
+      res.json(rules);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch escalation rules" });
+    }
+  });
+  
+  // Create an escalation rule (admin only)
+  app.post("/api/admin/escalation-rules", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const ruleData = insertEscalationRuleSchema.parse(req.body);
+      const rule = await storage.createEscalationRule(ruleData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid escalation rule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create escalation rule" });
+    }
+  });
+  
+  // Update or enable/disable an escalation rule (admin only)
+  app.patch("/api/admin/escalation-rules/:id", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = updateEscalationRuleSchema.parse(req.body);
+      
+      const rule = await storage.updateEscalationRule(id, updates);
+      if (!rule) {
+        return res.status(404).json({ message: "Escalation rule not found" });
+      }
+      
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid escalation rule", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update escalation rule" });
+    }
+  });
+  
+  // Delete an escalation rule (admin only)
+  app.delete("/api/admin/escalation-rules/:id", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await storage.deleteEscalationRule(id))) {
+        return res.status(404).json({ message: "Escalation rule not found" });
+      }
+      
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete escalation rule" });
+    }
+  });
+  
+  // Current SLA policy of every department and priority (admin only)
+  app.get("/api/admin/sla-policies", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const policies = await storage.getSlaPolicies();
+      res.json(policies);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch SLA policies" });
+    }
+  });
+  
+  // Every version of one policy, newest first (admin only)
+  app.get("/api/admin/sla-policies/:department/:priority/versions", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const versions = await storage.getSlaPolicyVersions(req.params.department as Department, req.params.priority as SLAPriority);
+      if (versions.length === 0) {
+        return res.status(404).json({ message: "SLA policy not found" });
+      }
+      
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch SLA policy versions" });
+    }
+  });
+  
+  // Change the targets for a department and priority (admin only). This adds a
+  // new policy version for new issues; existing issues keep their version.
+  app.put("/api/admin/sla-policies/:department/:priority", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const policyData = insertSlaPolicySchema.parse({
+        ...req.body,
+        department: req.params.department,
+        priority: req.params.priority,
+        createdBy: req.user!.id
+      });
+      
+      const current = await storage.getCurrentSlaPolicy(policyData.department, policyData.priority);
+      if (current &&
+          current.responseMinutes === policyData.responseMinutes &&
+          current.resolutionMinutes === policyData.resolutionMinutes &&
+          current.reopenBehavior === (policyData.reopenBehavior ?? current.reopenBehavior)) {
+        return res.json(current);
+      }
+      
+      const policy = await storage.createSlaPolicy(policyData);
+      res.status(201).json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid SLA policy", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save SLA policy" });
+    }
+  });
+  
+  // Business-hours calendar of every department (admin only). Departments
+  // without a saved calendar are listed with the around-the-clock default.
+  app.get("/api/admin/sla-calendars", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const calendars = await storage.getSlaCalendars();
+      
+      res.json(Object.values(Department).map((department) =>
+        calendars.find((calendar) => calendar.department === department) ??
+          { department, ...ALWAYS_OPEN_CALENDAR, updatedAt: null }
+      ));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch SLA calendars" });
+    }
+  });
+  
+  // Save a department's calendar (admin only). Only affects issues created afterwards.
+  app.put("/api/admin/sla-calendars/:department", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const calendarData = insertSlaCalendarSchema.parse({ ...req.body, department: req.params.department });
+      const calendar = await storage.upsertSlaCalendar(calendarData);
+      res.json(calendar);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid SLA calendar", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save SLA calendar" });
+    }
+  });
+  
+  // Due dates a department's issues raised now (or at "from") would get under an unsaved calendar (admin only)
+  app.post("/api/admin/sla-calendars/preview", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const { from = new Date(), department, ...calendar } = previewSlaCalendarSchema.parse(req.body);
+      const settings = { ...calendar, holidays: calendar.holidays ?? [] };
+      const policies = await storage.getSlaPolicies();
+      
+      const dueBy = Object.fromEntries(policies
+        .filter((policy) => policy.department === department)
+        .map((policy) => [policy.priority, calculateDueBy(policy, from, settings)])
+      );
+      
+      res.json({ from, dueBy });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid SLA calendar", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to preview SLA calendar" });
+    }
+  });
+  
+  // Assignment settings of every department (admin only). Departments without
+  // saved settings are listed as assigned manually.
+  app.get("/api/admin/assignment-settings", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const settings = await storage.getAllAssignmentSettings();
+      
+      res.json(Object.values(Department).map((department) =>
+        settings.find((entry) => entry.department === department) ??
+          { department, strategy: AssignmentStrategy.MANUAL, excludedUserIds: [], memberSkills: [], lastAssigneeId: null, updatedAt: null }
+      ));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch assignment settings" });
+    }
+  });
+  
+  // Save a department's strategy, excluded staff and skill tags (admin only).
+  // Only affects issues created or moved to the department afterwards.
+  app.put("/api/admin/assignment-settings/:department", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const settingsData = insertAssignmentSettingsSchema.parse({ ...req.body, department: req.params.department });
+      const settings = await storage.upsertAssignmentSettings(settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid assignment settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save assignment settings" });
+    }
+  });
+  
+  // Latest automatic assignments with the reason for each (admin only)
+  app.get("/api/admin/auto-assignments", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const activities = await storage.getActivitiesByAction("auto_assigned", 100);
+      res.json(await serializeActivities(activities));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch automatic assignments" });
+    }
+  });
+  
+  // Search users, with their open issue counts (admin only)
+  app.get("/api/admin/users", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const { q, role, department, status } = req.query;
+      
+      const users = await storage.getUsers({
+        query: typeof q === "string" ? q : undefined,
+        role: Object.values(UserRole).includes(role as UserRole) ? role as UserRole : undefined,
+        department: Object.values(Department).includes(department as Department) ? department as Department : undefined,
+        isActive: status === "active" ? true : status === "inactive" ? false : undefined
+      });
+      const openIssueCounts = await storage.getOpenIssueCountsByUser();
+      
+      res.json(users.map(user => ({
+        ...toPublicUser(user),
+        openIssues: openIssueCounts[user.id] ?? { reported: 0, assigned: 0 }
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+  
+  // Promote or demote a user, optionally moving them to another department (admin only)
+  app.patch("/api/admin/users/:id/role", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { role, department, reason } = updateUserRoleSchema.parse(req.body);
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Prevent admins from accidentally locking themselves out
+      if (user.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+      
+      const newDepartment = department ?? user.department;
+      if (user.role === role && user.department === newDepartment) {
+        return res.status(400).json({ message: "User already has this role and department" });
+      }
+      
+      const updatedUser = await storage.updateUser(userId, { role, department: newDepartment });
+      
+      await storage.createUserActivity({
+        userId,
+        actorId: req.user!.id,
+        action: "role_changed",
+        details: {
+          fromRole: user.role,
+          toRole: role,
+          fromDepartment: user.department,
+          toDepartment: newDepartment,
+          reason: reason || null
+        }
+      });
+      
+      res.json(toPublicUser(updatedUser!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid role data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+  
+  // Deactivate or reactivate a user account (admin only)
+  app.patch("/api/admin/users/:id/status", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { isActive, reason } = updateUserStatusSchema.parse(req.body);
+      
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (user.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot deactivate your own account" });
+      }
+      
+      if (user.isActive === isActive) {
+        return res.status(400).json({ message: isActive ? "User is already active" : "User is already deactivated" });
+      }
+      
+      const updatedUser = await storage.updateUser(userId, { isActive });
+      
+      // Sign a deactivated user out everywhere straight away
+      const revokedSessions = isActive ? 0 : await storage.revokeUserSessions(userId);
+      
+      await storage.createUserActivity({
+        userId,
+        actorId: req.user!.id,
+        action: isActive ? "reactivated" : "deactivated",
+        details: { reason: reason || null, revokedSessions }
+      });
+      
+      res.json(toPublicUser(updatedUser!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user status" });
+    }
+  });
+  
+  // Reset a user's password to a generated temporary one (admin only)
+  app.post("/api/admin/users/:id/reset-password", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const temporaryPassword = generateTemporaryPassword();
+      await storage.updateUser(userId, { password: await hashPassword(temporaryPassword) });
+      
+      // The old password may be compromised, so end every session that used it
+      const revokedSessions = await storage.revokeUserSessions(userId, req.sessionID);
+      
+      await storage.createUserActivity({
+        userId,
+        actorId: req.user!.id,
+        action: "password_reset",
+        details: { revokedSessions }
+      });
+      
+      // The temporary password is only ever shown in this response
+      res.json({ temporaryPassword, revokedSessions });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+  
+  // Delete a user account that has no issue history (admin only)
+  app.delete("/api/admin/users/:id", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (user.id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+      
+      // Issues keep pointing at their reporter and assignee, so those accounts must stay
+      const [reported, assigned] = await Promise.all([
+        storage.getIssuesByReporter(userId),
+        storage.getIssuesByAssignee(userId)
+      ]);
+      if (reported.length > 0 || assigned.length > 0) {
+        return res.status(409).json({ message: "User has issue history; deactivate the account instead" });
+      }
+      
+      await storage.revokeUserSessions(userId);
+      await storage.deleteUser(userId);
+      
+      await storage.createUserActivity({
+        userId,
+        actorId: req.user!.id,
+        action: "deleted",
+        details: { username: user.username, email: user.email }
+      });
+      
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+  
+  // Get the account audit trail of a user (admin only)
+  app.get("/api/admin/users/:id/activities", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const activities = await storage.getUserActivities(userId);
+      res.json(activities);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user activities" });
+    }
+  });
+  
+  // List a user's active login sessions (admin only)
+  app.get("/api/admin/users/:id/sessions", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const sessions = await storage.getUserSessions(userId);
+      res.json(sessions.map(session => ({
+        ...session,
+        isCurrent: session.sid === req.sessionID
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+  
+  // Revoke a single session of a user (admin only)
+  app.delete("/api/admin/users/:id/sessions/:sid", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const sessions = await storage.getUserSessions(userId);
+      
+      if (!sessions.some(session => session.sid === req.params.sid)) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      await storage.revokeSession(req.params.sid);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+  
+  // Revoke every session of a user, signing them out everywhere (admin only)
+  app.delete("/api/admin/users/:id/sessions", requireRole([UserRole.ADMIN]), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Keep the admin's own session alive when they revoke their own sessions
+      const revoked = await storage.revokeUserSessions(userId, req.sessionID);
+      res.json({ revoked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+  
   // Note: No need to add a separate endpoint for activities as we handle the display
   // text directly in the frontend
 
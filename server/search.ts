@@ -0,0 +1,170 @@
+import { type Comment, type Issue, type SearchQuery, type SearchResult, type SearchResults, type SearchSnippet } from "@shared/schema";
+
+// Ranked text search for the in-memory store. PostgreSQL storage searches with
+// the database's full-text index instead (see DatabaseStorage.searchIssues).
+
+// How much a match in each part of an issue counts towards its rank
+const FIELD_WEIGHTS: Record<SearchSnippet["field"], number> = {
+  title: 5,
+  description: 2,
+  comment: 1
+};
+
+const MAX_TERMS = 10;
+const MAX_MATCHES_PER_TERM = 3; // Repeating a word over and over does not rank an issue higher
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40; // Characters of context before the first match
+const MAX_COMMENT_SNIPPETS = 2;
+
+// Runs of letters and digits in any script
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+type Word = { text: string; start: number; end: number };
+
+// A part of an issue that matched, before it is cut down to a snippet
+type FieldMatch = {
+  field: SearchSnippet["field"];
+  author: string | null;
+  text: string;
+  score: number;
+  highlights: [number, number][];
+};
+
+function getWords(text: string): Word[] {
+  return Array.from(text.matchAll(WORD_PATTERN), (match) => ({
+    text: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+// The distinct lower-cased words of a search
+export function tokenize(query: string): string[] {
+  return Array.from(new Set(getWords(query).map((word) => word.text))).slice(0, MAX_TERMS);
+}
+
+// A term matches words it equals or starts, so results show up while the
+// last word is still being typed. Exact matches count double.
+function matchField(field: SearchSnippet["field"], text: string, author: string | null, terms: string[]) {
+  const words = getWords(text);
+  const matchedTerms = new Set<string>();
+  const highlights: [number, number][] = [];
+  let score = 0;
+
+  for (const term of terms) {
+    const matches = words.filter((word) => word.text.startsWith(term));
+    if (matches.length === 0) continue;
+
+    matchedTerms.add(term);
+    score += matches
+      .slice(0, MAX_MATCHES_PER_TERM)
+      .reduce((sum, word) => sum + (word.text === term ? 1 : 0.5), 0) * FIELD_WEIGHTS[field];
+    highlights.push(...matches.map((word): [number, number] => [word.start, word.end]));
+  }
+
+  const match: FieldMatch = {
+    field,
+    author,
+    text,
+    score,
+    highlights: Array.from(new Map(highlights.map((range) => [range[0], range])).values())
+      .sort((a, b) => a[0] - b[0])
+  };
+  return { match, matchedTerms };
+}
+
+// How well an issue matches, or null unless every term is found somewhere in
+// its title, description or comments
+function matchIssue(issue: Issue, terms: string[]): { score: number; matches: FieldMatch[] } | null {
+  const comments = (issue.comments ?? []) as Comment[];
+  const fields = [
+    matchField("title", issue.title, null, terms),
+    matchField("description", issue.description, null, terms),
+    ...comments.map((comment) => matchField("comment", comment.text, comment.userName, terms))
+  ];
+
+  const found = new Set(fields.flatMap((field) => Array.from(field.matchedTerms)));
+  if (terms.length === 0 || found.size < terms.length) return null;
+
+  const matches = fields.map((field) => field.match);
+  let score = matches.reduce((sum, match) => sum + match.score, 0);
+  // The whole search appearing word for word in the title ranks highest
+  if (terms.length > 1 && issue.title.toLowerCase().includes(terms.join(" "))) {
+    score += FIELD_WEIGHTS.title * terms.length;
+  }
+  return { score, matches };
+}
+
+export function matchesSearch(issue: Issue, terms: string[]): boolean {
+  return matchIssue(issue, terms) !== null;
+}
+
+// Cut long text down to the part around its first match, on word boundaries
+function toSnippet(match: FieldMatch): SearchSnippet {
+  const { field, author, text } = match;
+  if (text.length <= SNIPPET_LENGTH) {
+    return { field, author, text, highlights: match.highlights };
+  }
+
+  const firstMatch = match.highlights[0]?.[0] ?? 0;
+  let start = Math.max(0, firstMatch - SNIPPET_LEAD);
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+  if (start > firstMatch) start = firstMatch;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) end = text.lastIndexOf(" ", end) > start ? text.lastIndexOf(" ", end) : end;
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  return {
+    field,
+    author,
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: match.highlights
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]): [number, number] => [from - start + prefix.length, to - start + prefix.length])
+  };
+}
+
+function toSearchResult(issue: Issue, score: number, matches: FieldMatch[]): SearchResult {
+  const [title, description, ...comments] = matches;
+  const snippets = [
+    description,
+    ...comments
+      .filter((comment) => comment.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_COMMENT_SNIPPETS)
+  ].filter((match) => match.score > 0);
+
+  return {
+    issue: {
+      id: issue.id,
+      title: issue.title,
+      status: issue.status,
+      department: issue.department,
+      priority: issue.priority,
+      updatedAt: issue.updatedAt
+    },
+    score,
+    title: toSnippet(title),
+    snippets: snippets.map(toSnippet)
+  };
+}
+
+// Best matches first; equally good matches by most recent activity
+export function rankIssues(issues: Issue[], query: SearchQuery): SearchResults {
+  const terms = tokenize(query.q);
+  const ranked = issues
+    .map((issue) => ({ issue, match: matchIssue(issue, terms) }))
+    .filter((entry): entry is { issue: Issue; match: NonNullable<typeof entry.match> } => entry.match !== null)
+    .sort((a, b) =>
+      b.match.score - a.match.score ||
+      new Date(b.issue.updatedAt ?? 0).getTime() - new Date(a.issue.updatedAt ?? 0).getTime() ||
+      b.issue.id - a.issue.id);
+
+  return {
+    results: ranked
+      .slice(0, query.limit)
+      .map(({ issue, match }) => toSearchResult(issue, match.score, match.matches)),
+    total: ranked.length
+  };
+}
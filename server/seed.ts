@@ -0,0 +1,90 @@
+import { UserRole, Department, SLAPriority, SLAStatus, EscalationTarget, EscalationLevel } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { hashPassword } from "./passwords";
+
+// Built-in response and resolution targets, in minutes, used for every department
+const DEFAULT_SLA_TARGETS: Record<SLAPriority, { responseMinutes: number, resolutionMinutes: number }> = {
+  [SLAPriority.LOW]: { responseMinutes: 8 * 60, resolutionMinutes: 48 * 60 },
+  [SLAPriority.MEDIUM]: { responseMinutes: 4 * 60, resolutionMinutes: 24 * 60 },
+  [SLAPriority.HIGH]: { responseMinutes: 60, resolutionMinutes: 8 * 60 },
+  [SLAPriority.CRITICAL]: { responseMinutes: 30, resolutionMinutes: 4 * 60 }
+};
+
+// First version of the SLA policy for every department and priority
+export async function seedSlaPolicies(storage: Pick<IStorage, "createSlaPolicy">): Promise<void> {
+  for (const department of Object.values(Department)) {
+    for (const priority of Object.values(SLAPriority)) {
+      await storage.createSlaPolicy({ department, priority, ...DEFAULT_SLA_TARGETS[priority] });
+    }
+  }
+}
+
+// Create the demo accounts documented in the README, the default escalation
+// rules, SLA policies and Monday-Friday business hours for every department
+export async function seedInitialData(
+  storage: Pick<IStorage, "createUser" | "createEscalationRule" | "upsertSlaCalendar" | "createSlaPolicy">
+): Promise<void> {
+  // First hash the password
+  const hashedPassword = await hashPassword("password");
+
+  // Create admin user
+  await storage.createUser({
+    username: "admin",
+    password: hashedPassword,
+    fullName: "Admin User",
+    email: "admin@example.com",
+    role: UserRole.ADMIN,
+    department: Department.IT
+  });
+
+  // Create department staff
+  await storage.createUser({
+    username: "itstaff",
+    password: hashedPassword,
+    fullName: "IT Staff",
+    email: "it@example.com",
+    role: UserRole.DEPARTMENT,
+    department: Department.IT
+  });
+
+  // Create employee
+  await storage.createUser({
+    username: "employee",
+    password: hashedPassword,
+    fullName: "Regular Employee",
+    email: "employee@example.com",
+    role: UserRole.EMPLOYEE,
+    department: Department.FINANCE
+  });
+
+  // Default escalation rules; admins can change them in the settings page
+  await storage.createEscalationRule({
+    name: "Critical issue breached",
+    priority: SLAPriority.CRITICAL,
+    slaStatus: SLAStatus.BREACHED,
+    delayMinutes: 0,
+    notify: EscalationTarget.DEPARTMENT,
+    level: EscalationLevel.DEPARTMENT_HEAD
+  });
+
+  await storage.createEscalationRule({
+    name: "High priority at risk for 2 hours",
+    priority: SLAPriority.HIGH,
+    slaStatus: SLAStatus.AT_RISK,
+    delayMinutes: 120,
+    notify: EscalationTarget.ADMIN,
+    level: EscalationLevel.TEAM_LEAD
+  });
+
+  await seedSlaPolicies(storage);
+
+  const officeHours = { start: "09:00", end: "17:00" };
+  for (const department of Object.values(Department)) {
+    await storage.upsertSlaCalendar({
+      department,
+      timeZone: "UTC",
+      workingHours: [null, officeHours, officeHours, officeHours, officeHours, officeHours, null],
+      holidays: []
+    });
+  }
+}
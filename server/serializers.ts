@@ -0,0 +1,50 @@
+import type { User, PublicUser, UserSummary, Issue, IssueWithUsers, Activity, ActivityWithUser } from "@shared/schema";
+import { storage } from "./storage";
+
+// Every route that returns a user goes through one of these, so the password
+// hash never reaches the browser
+
+export function toPublicUser(user: User): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+export function toUserSummary(user: User): UserSummary {
+  return {
+    id: user.id,
+    fullName: user.fullName,
+    department: user.department,
+    role: user.role
+  };
+}
+
+// Look up every referenced user in one query
+async function getUserSummaries(ids: (number | null)[]): Promise<Map<number, UserSummary>> {
+  const uniqueIds = Array.from(new Set(ids.filter((id): id is number => id !== null)));
+  const users = await storage.getUsersByIds(uniqueIds);
+  return new Map(users.map((user) => [user.id, toUserSummary(user)]));
+}
+
+export async function serializeIssues(issues: Issue[]): Promise<IssueWithUsers[]> {
+  const users = await getUserSummaries(issues.flatMap((issue) => [issue.reporterId, issue.assigneeId]));
+
+  return issues.map((issue) => ({
+    ...issue,
+    reporter: users.get(issue.reporterId) ?? null,
+    assignee: issue.assigneeId ? users.get(issue.assigneeId) ?? null : null
+  }));
+}
+
+export async function serializeIssue(issue: Issue): Promise<IssueWithUsers> {
+  const [serialized] = await serializeIssues([issue]);
+  return serialized;
+}
+
+export async function serializeActivities(activities: Activity[]): Promise<ActivityWithUser[]> {
+  const users = await getUserSummaries(activities.map((activity) => activity.userId));
+
+  return activities.map((activity) => ({
+    ...activity,
+    user: activity.userId ? users.get(activity.userId) ?? null : null
+  }));
+}
@@ -0,0 +1,44 @@
+import session, { type SessionData, type Store as SessionStore } from "express-session";
+import connectPg from "connect-pg-simple";
+import type pg from "pg";
+import type { UserSession } from "@shared/schema";
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+    loginAt?: string;
+    ipAddress?: string;
+    userAgent?: string;
+  }
+}
+
+const PostgresSessionStore = connectPg(session);
+
+// Prune expired sessions every 15 minutes
+const PRUNE_INTERVAL_SECONDS = 15 * 60;
+
+export function createPgSessionStore(pool: pg.Pool): SessionStore {
+  return new PostgresSessionStore({
+    pool,
+    createTableIfMissing: true,
+    pruneSessionInterval: PRUNE_INTERVAL_SECONDS,
+    errorLog: (...args) => console.error("Session store error:", ...args)
+  });
+}
+
+// Map a raw session record to the shape shown to admins. Sessions that never
+// completed a login (no passport user) are not user sessions and are skipped.
+export function toUserSession(sid: string, sess: SessionData): UserSession | undefined {
+  const userId = sess.passport?.user;
+  if (typeof userId !== "number") return undefined;
+
+  const expires = sess.cookie?.expires;
+  return {
+    sid,
+    userId,
+    expiresAt: expires ? new Date(expires).toISOString() : null,
+    loginAt: sess.loginAt ?? null,
+    ipAddress: sess.ipAddress ?? null,
+    userAgent: sess.userAgent ?? null
+  };
+}
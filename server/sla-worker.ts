@@ -0,0 +1,180 @@
+import { SLAStatus, type SlaWorkerStatus, type Department, type Issue, type SlaCalendarSettings, ALWAYS_OPEN_CALENDAR } from "@shared/schema";
+import { storage } from "./storage";
+import { calculateResponseSlaStatus, calculateSlaStatus } from "./sla";
+import { applyEscalationRules } from "./escalation";
+import { applyAutoClose } from "./auto-close";
+
+// Periodically re-evaluates the resolution and first-response SLAs of every
+// unresolved issue, so breaches are caught even when nobody is looking at the
+// dashboard, then applies the automatic escalation rules and closes finished
+// issues (see auto-close.ts).
+//
+//   SLA_WORKER_INTERVAL_SECONDS   seconds between runs (default 60, 0 disables the worker)
+
+const configuredInterval = parseInt(process.env.SLA_WORKER_INTERVAL_SECONDS ?? "");
+const intervalSeconds = Number.isNaN(configuredInterval) ? 60 : Math.max(0, configuredInterval);
+
+// Transitions worth recording on the issue timeline
+const SLA_ACTIVITIES: Partial<Record<SLAStatus, string>> = {
+  [SLAStatus.AT_RISK]: "sla_at_risk",
+  [SLAStatus.BREACHED]: "sla_breached"
+};
+
+const RESPONSE_SLA_ACTIVITIES: Partial<Record<SLAStatus, string>> = {
+  [SLAStatus.AT_RISK]: "response_sla_at_risk",
+  [SLAStatus.BREACHED]: "response_sla_breached"
+};
+
+const status: SlaWorkerStatus = {
+  enabled: false,
+  intervalSeconds,
+  isRunning: false,
+  lastRunStartedAt: null,
+  lastRunFinishedAt: null,
+  lastRunDurationMs: null,
+  lastRunError: null,
+  failedIssueIds: [],
+  issuesChecked: 0,
+  transitions: 0,
+  escalations: 0,
+  autoCloseNotices: 0,
+  autoClosed: 0,
+  nextRunAt: null
+};
+
+async function recordTransition(issueId: number, action: string | undefined, details: Record<string, unknown>) {
+  if (!action) return;
+  await storage.createActivity({ issueId, userId: null, action, details });
+}
+
+// Record any change in the issue's resolution and first-response SLA status.
+// Returns the issue as it is now and the number of transitions recorded.
+async function checkIssue(issue: Issue, calendar: SlaCalendarSettings): Promise<{ checkedIssue: Issue; transitions: number }> {
+  let checkedIssue = issue;
+  let transitions = 0;
+
+  // Another instance may have recorded either transition already
+  const slaStatus = calculateSlaStatus(issue, calendar);
+  if (slaStatus !== issue.slaStatus) {
+    const updatedIssue = await storage.updateSlaStatus(issue.id, issue.slaStatus, slaStatus);
+    if (updatedIssue) {
+      checkedIssue = updatedIssue;
+      transitions++;
+      await recordTransition(issue.id, SLA_ACTIVITIES[slaStatus], {
+        fromSlaStatus: issue.slaStatus,
+        toSlaStatus: slaStatus,
+        dueBy: issue.dueBy
+      });
+    }
+  }
+
+  const responseSlaStatus = calculateResponseSlaStatus(checkedIssue, calendar);
+  if (responseSlaStatus !== checkedIssue.responseSlaStatus) {
+    const updatedIssue = await storage.updateResponseSlaStatus(issue.id, checkedIssue.responseSlaStatus, responseSlaStatus);
+    if (updatedIssue) {
+      transitions++;
+      await recordTransition(issue.id, RESPONSE_SLA_ACTIVITIES[responseSlaStatus], {
+        fromSlaStatus: checkedIssue.responseSlaStatus,
+        toSlaStatus: responseSlaStatus,
+        responseDueBy: issue.responseDueBy
+      });
+      checkedIssue = updatedIssue;
+    }
+  }
+
+  return { checkedIssue, transitions };
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function runSlaCheck(): Promise<void> {
+  // A slow run must not overlap with the next tick
+  if (status.isRunning) return;
+
+  const startedAt = new Date();
+  status.isRunning = true;
+  status.lastRunStartedAt = startedAt.toISOString();
+
+  let issuesChecked = 0;
+  let transitions = 0;
+  let escalations = 0;
+  let autoClose = { notices: 0, closed: 0 };
+  const failedIssueIds: number[] = [];
+  const errors: string[] = [];
+
+  try {
+    const [issues, calendars] = await Promise.all([
+      storage.getUnresolvedIssues(),
+      storage.getSlaCalendars()
+    ]);
+    const calendarFor = (department: Department): SlaCalendarSettings =>
+      calendars.find((calendar) => calendar.department === department) ?? ALWAYS_OPEN_CALENDAR;
+    const checkedIssues = [];
+
+    // One issue that cannot be checked, e.g. because its department's calendar
+    // has no working hours, must not hold up the others
+    for (const issue of issues) {
+      issuesChecked++;
+      try {
+        const checked = await checkIssue(issue, calendarFor(issue.department));
+        transitions += checked.transitions;
+        checkedIssues.push(checked.checkedIssue);
+      } catch (error) {
+        failedIssueIds.push(issue.id);
+        errors.push(`Issue #${issue.id}: ${getErrorMessage(error)}`);
+        console.error(`SLA worker failed to check issue #${issue.id}`, error);
+      }
+    }
+
+    try {
+      escalations = await applyEscalationRules(checkedIssues, calendarFor);
+    } catch (error) {
+      errors.push(`Escalation rules: ${getErrorMessage(error)}`);
+      console.error("SLA worker failed to apply the escalation rules", error);
+    }
+  } catch (error) {
+    errors.push(getErrorMessage(error));
+    console.error("SLA worker run failed", error);
+  }
+
+  try {
+    autoClose = await applyAutoClose();
+  } catch (error) {
+    errors.push(`Auto-close: ${getErrorMessage(error)}`);
+    console.error("SLA worker failed to close finished issues", error);
+  }
+
+  const finishedAt = new Date();
+  status.isRunning = false;
+  status.lastRunFinishedAt = finishedAt.toISOString();
+  status.lastRunDurationMs = finishedAt.getTime() - startedAt.getTime();
+  status.lastRunError = errors.length > 0 ? errors.join("; ") : null;
+  status.failedIssueIds = failedIssueIds;
+  status.issuesChecked = issuesChecked;
+  status.transitions = transitions;
+  status.escalations = escalations;
+  status.autoCloseNotices = autoClose.notices;
+  status.autoClosed = autoClose.closed;
+}
+
+function scheduleNextRun() {
+  status.nextRunAt = new Date(Date.now() + intervalSeconds * 1000).toISOString();
+  setTimeout(async () => {
+    await runSlaCheck();
+    scheduleNextRun();
+  }, intervalSeconds * 1000);
+}
+
+export function startSlaWorker() {
+  if (status.enabled || intervalSeconds === 0) return;
+
+  status.enabled = true;
+  // Catch up on anything that changed while the server was down
+  runSlaCheck().finally(scheduleNextRun);
+}
+
+export function getSlaWorkerStatus(): SlaWorkerStatus {
+  return { ...status };
+}
@@ -0,0 +1,178 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { type SlaPolicy, Department, IssueStatus, ReopenSlaBehavior, SLAPriority, SLAStatus } from "@shared/schema";
+import { getReopenUpdates, getSlaThresholdTime, getStatusChangeUpdates, recalculateSla } from "./sla";
+import { createTestIssue, OFFICE_HOURS_CALENDAR } from "./test-fixtures";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function createTestPolicy(overrides: Partial<SlaPolicy> = {}): SlaPolicy {
+  return {
+    id: 10,
+    department: Department.IT,
+    priority: SLAPriority.MEDIUM,
+    version: 2,
+    responseMinutes: 60,
+    resolutionMinutes: 240,
+    reopenBehavior: ReopenSlaBehavior.EXTEND,
+    createdBy: null,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides
+  };
+}
+
+describe("getStatusChangeUpdates", () => {
+  const issue = createTestIssue({ dueBy: new Date("2026-01-05T17:00:00Z") });
+  const pausedIssue = createTestIssue({
+    status: IssueStatus.PENDING,
+    dueBy: new Date("2026-01-05T17:00:00Z"),
+    slaPauses: [{ pausedAt: "2026-01-05T10:00:00.000Z", resumedAt: null }]
+  });
+
+  it("stops the SLA clock when the issue goes pending", () => {
+    const updates = getStatusChangeUpdates(issue, IssueStatus.PENDING, undefined, new Date("2026-01-05T10:00:00Z"));
+    assert.deepEqual(updates.slaPauses, pausedIssue.slaPauses);
+    assert.equal(updates.dueBy, issue.dueBy);
+  });
+
+  it("does not start a second pause while one is running", () => {
+    const updates = getStatusChangeUpdates(pausedIssue, IssueStatus.PENDING, undefined, new Date("2026-01-05T11:00:00Z"));
+    assert.deepEqual(updates.slaPauses, pausedIssue.slaPauses);
+  });
+
+  it("moves the deadline out by the time spent pending on resuming", () => {
+    const updates = getStatusChangeUpdates(pausedIssue, IssueStatus.IN_PROGRESS, undefined, new Date("2026-01-05T12:00:00Z"));
+    assert.deepEqual(updates.slaPauses, [{ pausedAt: "2026-01-05T10:00:00.000Z", resumedAt: "2026-01-05T12:00:00.000Z" }]);
+    assert.equal(updates.slaPausedMs, 2 * HOUR_MS);
+    assert.equal(updates.dueBy?.toISOString(), "2026-01-05T19:00:00.000Z");
+  });
+
+  it("moves the deadline out by working time only", () => {
+    // Pending from Friday 16:00 to Monday 10:00 is two working hours
+    const weekendPause = createTestIssue({
+      status: IssueStatus.PENDING,
+      dueBy: new Date("2026-01-09T16:30:00Z"),
+      slaPauses: [{ pausedAt: "2026-01-09T16:00:00.000Z", resumedAt: null }]
+    });
+    const updates = getStatusChangeUpdates(weekendPause, IssueStatus.IN_PROGRESS, OFFICE_HOURS_CALENDAR, new Date("2026-01-12T10:00:00Z"));
+    assert.equal(updates.dueBy?.toISOString(), "2026-01-12T10:30:00.000Z");
+    assert.equal(updates.slaPausedMs, 66 * HOUR_MS);
+  });
+
+  it("records when an issue is completed and first resolved", () => {
+    const now = new Date("2026-01-05T15:00:00Z");
+    assert.equal(getStatusChangeUpdates(issue, IssueStatus.COMPLETED, undefined, now).completedAt, now);
+    assert.equal(getStatusChangeUpdates(issue, IssueStatus.COMPLETED, undefined, now).resolvedAt, null);
+    assert.equal(getStatusChangeUpdates(issue, IssueStatus.VERIFIED, undefined, now).resolvedAt, now);
+
+    const resolvedAt = new Date("2026-01-05T14:00:00Z");
+    assert.equal(getStatusChangeUpdates({ ...issue, resolvedAt }, IssueStatus.CLOSED, undefined, now).resolvedAt, resolvedAt);
+  });
+});
+
+describe("getSlaThresholdTime", () => {
+  const issue = createTestIssue({ dueBy: new Date("2026-01-05T17:00:00Z") });
+
+  it("is the deadline for a breach and the last quarter of the SLA for at risk", () => {
+    assert.equal(getSlaThresholdTime(issue, SLAStatus.BREACHED)?.toISOString(), "2026-01-05T17:00:00.000Z");
+    assert.equal(getSlaThresholdTime(issue, SLAStatus.AT_RISK)?.toISOString(), "2026-01-05T15:00:00.000Z");
+  });
+
+  it("leaves time spent pending out of the SLA", () => {
+    const paused = createTestIssue({
+      dueBy: new Date("2026-01-05T19:00:00Z"),
+      slaPauses: [{ pausedAt: "2026-01-05T10:00:00.000Z", resumedAt: "2026-01-05T12:00:00.000Z" }]
+    });
+    assert.equal(getSlaThresholdTime(paused, SLAStatus.AT_RISK)?.toISOString(), "2026-01-05T17:00:00.000Z");
+  });
+
+  it("runs from a restarted SLA clock", () => {
+    const restarted = createTestIssue({
+      slaStartedAt: new Date("2026-01-06T09:00:00Z"),
+      dueBy: new Date("2026-01-06T13:00:00Z")
+    });
+    assert.equal(getSlaThresholdTime(restarted, SLAStatus.AT_RISK)?.toISOString(), "2026-01-06T12:00:00.000Z");
+  });
+
+  it("is null without an SLA", () => {
+    assert.equal(getSlaThresholdTime(createTestIssue(), SLAStatus.AT_RISK), null);
+  });
+});
+
+describe("recalculateSla", () => {
+  // Long past, so the recalculated deadlines are already breached
+  const issue = createTestIssue({
+    createdAt: new Date("2024-01-01T09:00:00Z"),
+    slaPolicyId: 3,
+    dueBy: new Date("2024-01-02T09:00:00Z"),
+    responseDueBy: new Date("2024-01-01T13:00:00Z"),
+    slaPauses: [{ pausedAt: "2024-01-01T10:00:00.000Z", resumedAt: "2024-01-01T11:00:00.000Z" }]
+  });
+
+  it("re-derives the deadlines from the new policy, keeping time spent pending", () => {
+    const updates = recalculateSla(issue, createTestPolicy());
+    assert.equal(updates.slaPolicyId, 10);
+    assert.equal(updates.dueBy?.toISOString(), "2024-01-01T14:00:00.000Z");
+    assert.equal(updates.responseDueBy?.toISOString(), "2024-01-01T10:00:00.000Z");
+    assert.equal(updates.slaStatus, SLAStatus.BREACHED);
+    assert.equal(updates.responseSlaStatus, SLAStatus.BREACHED);
+  });
+
+  it("keeps a first response that was already given", () => {
+    const responded = { ...issue, firstResponseAt: new Date("2024-01-01T12:00:00Z"), responseSlaStatus: SLAStatus.COMPLETED };
+    const updates = recalculateSla(responded, createTestPolicy());
+    assert.equal(updates.responseDueBy, responded.responseDueBy);
+    assert.equal(updates.responseSlaStatus, SLAStatus.COMPLETED);
+  });
+
+  it("keeps the SLA status of a resolved issue", () => {
+    const closed = { ...issue, status: IssueStatus.CLOSED, slaStatus: SLAStatus.COMPLETED };
+    assert.equal(recalculateSla(closed, createTestPolicy()).slaStatus, SLAStatus.COMPLETED);
+  });
+
+  it("clears the SLA without a policy", () => {
+    assert.deepEqual(recalculateSla(issue, undefined), {
+      slaPolicyId: null,
+      dueBy: null,
+      slaStatus: SLAStatus.ON_TRACK,
+      responseDueBy: null,
+      responseSlaStatus: SLAStatus.ON_TRACK
+    });
+  });
+});
+
+describe("getReopenUpdates", () => {
+  const issue = createTestIssue({
+    status: IssueStatus.COMPLETED,
+    assigneeId: 7,
+    dueBy: new Date("2026-01-05T17:00:00Z"),
+    completedAt: new Date("2026-01-05T12:00:00Z")
+  });
+  const now = new Date("2026-01-05T14:00:00Z");
+
+  it("goes back to whoever was working on the issue", () => {
+    const updates = getReopenUpdates(issue, createTestPolicy(), undefined, now);
+    assert.equal(updates.status, IssueStatus.IN_PROGRESS);
+    assert.equal(updates.reopenCount, 1);
+    assert.equal(getReopenUpdates({ ...issue, assigneeId: null }, createTestPolicy(), undefined, now).status, IssueStatus.OPEN);
+  });
+
+  it("extends the SLA by the time spent awaiting verification", () => {
+    const updates = getReopenUpdates(issue, createTestPolicy(), undefined, now);
+    assert.deepEqual(updates.slaPauses, [{ pausedAt: "2026-01-05T12:00:00.000Z", resumedAt: "2026-01-05T14:00:00.000Z" }]);
+    assert.equal(updates.slaPausedMs, 2 * HOUR_MS);
+    assert.equal(updates.dueBy?.toISOString(), "2026-01-05T19:00:00.000Z");
+    assert.equal(updates.slaStartedAt, null);
+  });
+
+  it("restarts the SLA from now when the policy resets it", () => {
+    const updates = getReopenUpdates(issue, createTestPolicy({ reopenBehavior: ReopenSlaBehavior.RESET }), undefined, now);
+    assert.equal(updates.slaStartedAt, now);
+    assert.equal(updates.dueBy?.toISOString(), "2026-01-05T18:00:00.000Z");
+    assert.deepEqual(updates.slaPauses, []);
+  });
+
+  it("leaves the deadline alone without a policy", () => {
+    assert.equal(getReopenUpdates(issue, undefined, undefined, now).dueBy, issue.dueBy);
+  });
+});
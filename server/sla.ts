@@ -0,0 +1,210 @@
+import { type Issue, type SlaCalendarSettings, type SlaPause, type SlaPolicy, IssueStatus, SLAStatus, ReopenSlaBehavior, RESOLVED_ISSUE_STATUSES, ALWAYS_OPEN_CALENDAR } from "@shared/schema";
+import { addBusinessMinutes, businessMillisecondsBetween } from "./business-hours";
+
+// Share of the SLA window left when an issue is considered at risk
+const AT_RISK_PERCENT = 25;
+
+// SLA deadline for a new issue; the clock only runs during the calendar's working hours
+export function calculateDueBy(
+  policy: Pick<SlaPolicy, "resolutionMinutes">,
+  createdAt: Date,
+  calendar: SlaCalendarSettings = ALWAYS_OPEN_CALENDAR
+): Date {
+  return addBusinessMinutes(calendar, createdAt, policy.resolutionMinutes);
+}
+
+// First-response deadline for a new issue
+export function calculateResponseDueBy(
+  policy: Pick<SlaPolicy, "responseMinutes">,
+  createdAt: Date,
+  calendar: SlaCalendarSettings = ALWAYS_OPEN_CALENDAR
+): Date {
+  return addBusinessMinutes(calendar, createdAt, policy.responseMinutes);
+}
+
+// Breached once overdue, at risk once the working time left falls to a share of the total
+function statusAt(now: Date, dueDate: Date, totalTime: number, calendar: SlaCalendarSettings): SLAStatus {
+  if (now > dueDate) {
+    return SLAStatus.BREACHED;
+  }
+
+  const timeLeft = businessMillisecondsBetween(calendar, now, dueDate);
+  const percentTimeLeft = totalTime > 0 ? (timeLeft / totalTime) * 100 : 0;
+
+  return percentTimeLeft <= AT_RISK_PERCENT ? SLAStatus.AT_RISK : SLAStatus.ON_TRACK;
+}
+
+// The pause in progress, if the issue is waiting in pending
+export function getCurrentSlaPause(issue: Issue): SlaPause | undefined {
+  const lastPause = issue.slaPauses[issue.slaPauses.length - 1];
+  return lastPause && !lastPause.resumedAt ? lastPause : undefined;
+}
+
+// When the resolution SLA clock started: when the issue was raised, unless a reopen restarted it
+function slaClockStart(issue: Issue): Date {
+  return new Date(issue.slaStartedAt ?? issue.createdAt!);
+}
+
+// Working time covered by finished pauses since the clock started; dueBy has already been moved out by this much
+function pausedWorkingTime(issue: Issue, calendar: SlaCalendarSettings): number {
+  const clockStart = slaClockStart(issue);
+  return issue.slaPauses.reduce((total, pause) => pause.resumedAt && new Date(pause.pausedAt) >= clockStart
+    ? total + businessMillisecondsBetween(calendar, new Date(pause.pausedAt), new Date(pause.resumedAt))
+    : total, 0);
+}
+
+// Working time the issue has had to meet its SLA, excluding pauses
+function netSlaTime(issue: Issue, calendar: SlaCalendarSettings): number {
+  const grossTime = businessMillisecondsBetween(calendar, slaClockStart(issue), new Date(issue.dueBy!));
+  return Math.max(0, grossTime - pausedWorkingTime(issue, calendar));
+}
+
+// Fields to change along with a status change. The SLA clock stops while an issue
+// is pending; on leaving pending, dueBy moves out by the working time spent waiting.
+export function getStatusChangeUpdates(
+  issue: Issue,
+  status: IssueStatus,
+  calendar: SlaCalendarSettings = ALWAYS_OPEN_CALENDAR,
+  now = new Date()
+): Pick<Issue, "slaPauses" | "slaPausedMs" | "dueBy" | "completedAt" | "resolvedAt"> {
+  const updates = {
+    slaPauses: issue.slaPauses,
+    slaPausedMs: issue.slaPausedMs,
+    dueBy: issue.dueBy,
+    completedAt: status === IssueStatus.COMPLETED ? now : issue.completedAt,
+    resolvedAt: issue.resolvedAt ?? (RESOLVED_ISSUE_STATUSES.includes(status) ? now : null)
+  };
+
+  const currentPause = getCurrentSlaPause(issue);
+  if (status === IssueStatus.PENDING) {
+    if (!currentPause) {
+      updates.slaPauses = [...issue.slaPauses, { pausedAt: now.toISOString(), resumedAt: null }];
+    }
+  } else if (currentPause) {
+    const pausedAt = new Date(currentPause.pausedAt);
+    const pausedMinutes = businessMillisecondsBetween(calendar, pausedAt, now) / (60 * 1000);
+
+    updates.slaPauses = [...issue.slaPauses.slice(0, -1), { ...currentPause, resumedAt: now.toISOString() }];
+    updates.slaPausedMs += now.getTime() - pausedAt.getTime();
+    if (issue.dueBy && pausedMinutes > 0) {
+      updates.dueBy = addBusinessMinutes(calendar, new Date(issue.dueBy), pausedMinutes);
+    }
+  }
+
+  return updates;
+}
+
+// Calculate if SLA is breached or at risk
+export function calculateSlaStatus(issue: Issue, calendar: SlaCalendarSettings = ALWAYS_OPEN_CALENDAR): SLAStatus {
+  if (!issue.dueBy) return SLAStatus.ON_TRACK;
+
+  // The clock stands still while the issue is pending
+  const currentPause = getCurrentSlaPause(issue);
+  const now = currentPause ? new Date(currentPause.pausedAt) : new Date();
+  const dueDate = new Date(issue.dueBy);
+
+  if (issue.status === IssueStatus.VERIFIED || issue.status === IssueStatus.CLOSED) {
+    return SLAStatus.COMPLETED;
+  }
+
+  // Consider at risk if within 25% of SLA time, counting working hours only
+  return statusAt(now, dueDate, netSlaTime(issue, calendar), calendar);
+}
+
+// First-response SLA status; settled for good once the department has responded
+export function calculateResponseSlaStatus(issue: Issue, calendar: SlaCalendarSettings = ALWAYS_OPEN_CALENDAR): SLAStatus {
+  if (issue.firstResponseAt) return issue.responseSlaStatus;
+  if (!issue.responseDueBy) return SLAStatus.ON_TRACK;
+
+  const dueDate = new Date(issue.responseDueBy);
+  const totalTime = businessMillisecondsBetween(calendar, new Date(issue.createdAt!), dueDate);
+  return statusAt(new Date(), dueDate, totalTime, calendar);
+}
+
+// The moment an issue reaches the given SLA status; null when it has no SLA
+export function getSlaThresholdTime(
+  issue: Issue,
+  slaStatus: SLAStatus.AT_RISK | SLAStatus.BREACHED,
+  calendar: SlaCalendarSettings = ALWAYS_OPEN_CALENDAR
+): Date | null {
+  if (!issue.dueBy) return null;
+
+  const dueDate = new Date(issue.dueBy);
+  if (slaStatus === SLAStatus.BREACHED) return dueDate;
+
+  // At risk once the working time left falls to a share of the net SLA time
+  const clockStart = slaClockStart(issue);
+  const grossTime = businessMillisecondsBetween(calendar, clockStart, dueDate);
+  const atRiskTime = grossTime - netSlaTime(issue, calendar) * (AT_RISK_PERCENT / 100);
+  return addBusinessMinutes(calendar, clockStart, atRiskTime / (60 * 1000));
+}
+
+// SLA fields of an issue re-derived from a policy, e.g. after its priority or
+// department changed. Deadlines still run from when the clock started, moved
+// out by the time it has spent pending; a first response already given stands.
+export function recalculateSla(
+  issue: Issue,
+  policy: SlaPolicy | undefined,
+  calendar: SlaCalendarSettings = ALWAYS_OPEN_CALENDAR
+): Pick<Issue, "slaPolicyId" | "dueBy" | "slaStatus" | "responseDueBy" | "responseSlaStatus"> {
+  const createdAt = new Date(issue.createdAt!);
+  const pausedMinutes = pausedWorkingTime(issue, calendar) / (60 * 1000);
+
+  const updatedIssue: Issue = {
+    ...issue,
+    slaPolicyId: policy?.id ?? null,
+    dueBy: policy ? addBusinessMinutes(calendar, slaClockStart(issue), policy.resolutionMinutes + pausedMinutes) : null,
+    responseDueBy: issue.firstResponseAt
+      ? issue.responseDueBy
+      : policy ? calculateResponseDueBy(policy, createdAt, calendar) : null
+  };
+
+  return {
+    slaPolicyId: updatedIssue.slaPolicyId,
+    dueBy: updatedIssue.dueBy,
+    slaStatus: RESOLVED_ISSUE_STATUSES.includes(issue.status) ? issue.slaStatus : calculateSlaStatus(updatedIssue, calendar),
+    responseDueBy: updatedIssue.responseDueBy,
+    responseSlaStatus: calculateResponseSlaStatus(updatedIssue, calendar)
+  };
+}
+
+// Fields to change when a rejected issue goes back to the department. The
+// issue's policy decides whether the resolution SLA restarts from now or is
+// extended by the working time the issue spent awaiting verification.
+export function getReopenUpdates(
+  issue: Issue,
+  policy: SlaPolicy | undefined,
+  calendar: SlaCalendarSettings = ALWAYS_OPEN_CALENDAR,
+  now = new Date()
+): Pick<Issue, "status" | "reopenCount" | "slaStartedAt" | "slaPauses" | "slaPausedMs" | "dueBy" | "slaStatus"> {
+  const updatedIssue: Issue = {
+    ...issue,
+    status: issue.assigneeId ? IssueStatus.IN_PROGRESS : IssueStatus.OPEN,
+    reopenCount: issue.reopenCount + 1
+  };
+
+  if (policy && issue.dueBy) {
+    if (policy.reopenBehavior === ReopenSlaBehavior.RESET) {
+      updatedIssue.slaStartedAt = now;
+      updatedIssue.dueBy = calculateDueBy(policy, now, calendar);
+    } else if (issue.completedAt && issue.completedAt < now) {
+      // Treated like a pending period, from completion until the rejection
+      const waitedMinutes = businessMillisecondsBetween(calendar, issue.completedAt, now) / (60 * 1000);
+      updatedIssue.slaPauses = [...issue.slaPauses, { pausedAt: issue.completedAt.toISOString(), resumedAt: now.toISOString() }];
+      updatedIssue.slaPausedMs = issue.slaPausedMs + now.getTime() - issue.completedAt.getTime();
+      if (waitedMinutes > 0) {
+        updatedIssue.dueBy = addBusinessMinutes(calendar, new Date(issue.dueBy), waitedMinutes);
+      }
+    }
+  }
+
+  return {
+    status: updatedIssue.status,
+    reopenCount: updatedIssue.reopenCount,
+    slaStartedAt: updatedIssue.slaStartedAt,
+    slaPauses: updatedIssue.slaPauses,
+    slaPausedMs: updatedIssue.slaPausedMs,
+    dueBy: updatedIssue.dueBy,
+    slaStatus: calculateSlaStatus(updatedIssue, calendar)
+  };
+}
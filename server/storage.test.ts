@@ -0,0 +1,342 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "node:module";
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import * as schema from "@shared/schema";
+import { type Comment, type IssueQueryResult, type IssueScope, Department, EscalationLevel, IssueStatus, ResolutionCode, SLAPriority, SLAStatus, UserRole } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { DatabaseStorage } from "./database-storage";
+import { createDb, createPool } from "./db";
+
+// drizzle-kit's ESM build cannot load its own CommonJS dependencies
+const { pushSchema } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+type Driver = { storage: IStorage; close: () => Promise<void> };
+
+// Every page of a list, following nextCursor from the first
+async function readAllPages(storage: IStorage, scope: IssueScope, params: Record<string, string>): Promise<IssueQueryResult[]> {
+  const pages = [await storage.queryIssues(scope, schema.issueListQuerySchema.parse(params))];
+  while (pages[pages.length - 1].nextCursor) {
+    const cursor = pages[pages.length - 1].nextCursor!;
+    pages.push(await storage.queryIssues(scope, schema.issueListQuerySchema.parse({ ...params, cursor })));
+  }
+  return pages;
+}
+
+const ids = (page: IssueQueryResult) => page.issues.map((issue) => issue.id);
+
+// An in-process Postgres served over a local socket, so the real pg driver,
+// schema and queries are exercised without a database server
+async function createPostgresDriver(): Promise<Driver> {
+  const db = await PGlite.create();
+  const server = new PGLiteSocketServer({ db, port: 0, host: "127.0.0.1", maxConnections: 10 });
+  await server.start();
+
+  const pool = createPool(`postgres://postgres@${server.getServerConn()}/postgres`);
+  const { apply } = await pushSchema(schema, createDb(pool));
+  await apply();
+
+  return {
+    storage: await DatabaseStorage.create(pool),
+    close: async () => {
+      await pool.end();
+      await server.stop();
+      await db.close();
+    }
+  };
+}
+
+// Both drivers must pass the same contract
+const drivers: Record<string, () => Promise<Driver>> = {
+  memory: async () => ({ storage: await MemStorage.create(), close: async () => {} }),
+  postgres: createPostgresDriver
+};
+
+for (const [name, createDriver] of Object.entries(drivers)) {
+  describe(`${name} storage`, () => {
+    let driver: Driver;
+    let storage: IStorage;
+
+    before(async () => {
+      driver = await createDriver();
+      storage = driver.storage;
+    });
+
+    after(() => driver.close());
+
+    it("is seeded with the demo accounts and SLA policies", async () => {
+      const admin = await storage.getUserByUsername("admin");
+      assert.equal(admin?.role, UserRole.ADMIN);
+      assert.ok(await storage.getUserByUsername("itstaff"));
+      assert.ok(await storage.getUserByUsername("employee"));
+
+      const policies = await storage.getSlaPolicies();
+      assert.equal(policies.length, Object.values(Department).length * Object.values(SLAPriority).length);
+    });
+
+    it("creates, finds and updates users", async () => {
+      const user = await storage.createUser({
+        username: `contract-${name}`,
+        password: "hashed",
+        fullName: "Contract User",
+        email: `contract-${name}@example.com`,
+        role: UserRole.EMPLOYEE,
+        department: Department.HR
+      });
+
+      assert.equal((await storage.getUser(user.id))?.username, user.username);
+      assert.equal((await storage.getUserByEmail(user.email))?.id, user.id);
+
+      const updated = await storage.updateUser(user.id, { fullName: "Renamed User" });
+      assert.equal(updated?.fullName, "Renamed User");
+      assert.equal(await storage.getUser(-1), undefined);
+    });
+
+    it("creates issues open, unassigned and on track", async () => {
+      const reporter = (await storage.getUserByUsername("employee"))!;
+      const issue = await storage.createIssue({
+        title: "Printer jammed",
+        description: "The second floor printer jams on every job",
+        department: Department.IT,
+        priority: SLAPriority.HIGH,
+        reporterId: reporter.id
+      });
+
+      assert.equal(issue.status, IssueStatus.OPEN);
+      assert.equal(issue.assigneeId, null);
+      assert.equal(issue.slaStatus, SLAStatus.ON_TRACK);
+      assert.ok(issue.dueBy);
+      assert.ok(issue.slaPolicyId);
+
+      assert.equal((await storage.getIssue(issue.id))?.title, "Printer jammed");
+      assert.ok((await storage.getIssuesByReporter(reporter.id)).some((found) => found.id === issue.id));
+      assert.ok((await storage.getIssuesByDepartment(Department.IT)).some((found) => found.id === issue.id));
+      assert.ok((await storage.getActivitiesByIssue(issue.id)).length > 0);
+    });
+
+    it("ignores a status supplied with a new issue", async () => {
+      const reporter = (await storage.getUserByUsername("employee"))!;
+      const issueData = schema.insertIssueSchema.parse({
+        title: "Already fixed?",
+        description: "Trying to skip the workflow",
+        department: Department.IT,
+        priority: SLAPriority.LOW,
+        reporterId: reporter.id,
+        status: IssueStatus.CLOSED
+      });
+
+      assert.equal((await storage.createIssue(issueData)).status, IssueStatus.OPEN);
+    });
+
+    it("assigns, comments on and moves issues through their statuses", async () => {
+      const reporter = (await storage.getUserByUsername("employee"))!;
+      const staff = (await storage.getUserByUsername("itstaff"))!;
+      const issue = await storage.createIssue({
+        title: "VPN drops",
+        description: "The VPN disconnects every few minutes",
+        department: Department.IT,
+        priority: SLAPriority.MEDIUM,
+        reporterId: reporter.id
+      });
+
+      assert.equal((await storage.assignIssue(issue.id, staff.id))?.assigneeId, staff.id);
+      assert.ok((await storage.getIssuesByAssignee(staff.id)).some((found) => found.id === issue.id));
+
+      const commented = await storage.addComment(issue.id, staff.id, "Looking into it");
+      assert.equal((commented?.comments as Comment[]).at(-1)?.text, "Looking into it");
+
+      const inProgress = await storage.updateIssueStatus(issue.id, IssueStatus.IN_PROGRESS);
+      assert.equal(inProgress?.status, IssueStatus.IN_PROGRESS);
+      assert.ok((await storage.getIssuesByStatus(IssueStatus.IN_PROGRESS)).some((found) => found.id === issue.id));
+    });
+
+    it("moves issues automatically only from the status they were loaded in", async () => {
+      const reporter = (await storage.getUserByUsername("employee"))!;
+      const issue = await storage.createIssue({
+        title: "Monitor flickers",
+        description: "The left monitor flickers",
+        department: Department.IT,
+        priority: SLAPriority.LOW,
+        reporterId: reporter.id
+      });
+
+      assert.equal(await storage.autoTransitionIssue(issue.id, IssueStatus.COMPLETED, IssueStatus.VERIFIED), undefined);
+
+      await storage.updateIssueStatus(issue.id, IssueStatus.IN_PROGRESS);
+      await storage.updateIssueStatus(issue.id, IssueStatus.COMPLETED, { resolutionCode: ResolutionCode.FIXED, resolutionSummary: "Replaced the cable" });
+      const verified = await storage.autoTransitionIssue(issue.id, IssueStatus.COMPLETED, IssueStatus.VERIFIED);
+      assert.equal(verified?.status, IssueStatus.VERIFIED);
+      assert.equal(verified?.slaStatus, SLAStatus.COMPLETED);
+      assert.ok(verified?.resolvedAt);
+
+      const closed = await storage.autoTransitionIssue(issue.id, IssueStatus.VERIFIED, IssueStatus.CLOSED);
+      assert.equal(closed?.status, IssueStatus.CLOSED);
+    });
+
+    it("escalates only from the status and level the caller saw", async () => {
+      const reporter = (await storage.getUserByUsername("employee"))!;
+      const issue = await storage.createIssue({
+        title: "Badge reader offline",
+        description: "The front door badge reader does not respond",
+        department: Department.IT,
+        priority: SLAPriority.HIGH,
+        reporterId: reporter.id
+      });
+      const escalation = (level: EscalationLevel) => ({ level, reason: "Contract test", escalatedBy: reporter.id });
+
+      const escalated = await storage.escalateIssue(issue.id, issue, escalation(EscalationLevel.TEAM_LEAD));
+      assert.equal(escalated?.status, IssueStatus.ESCALATED);
+      assert.equal(escalated?.escalationLevel, EscalationLevel.TEAM_LEAD);
+
+      // A second escalation from the same stale snapshot is refused and leaves the history alone
+      assert.equal(await storage.escalateIssue(issue.id, issue, escalation(EscalationLevel.DEPARTMENT_HEAD)), undefined);
+      assert.equal((await storage.getIssue(issue.id))?.escalations.length, 1);
+
+      const raised = await storage.escalateIssue(issue.id, escalated!, escalation(EscalationLevel.DEPARTMENT_HEAD));
+      assert.deepEqual(raised?.escalations.map((step) => step.level), [EscalationLevel.TEAM_LEAD, EscalationLevel.DEPARTMENT_HEAD]);
+    });
+
+    describe("issue lists", () => {
+      let reporterId: number;
+      let staffId: number;
+      let created: number[];
+
+      before(async () => {
+        const reporter = await storage.createUser({
+          username: `lists-${name}`,
+          password: "hashed",
+          fullName: "List Reporter",
+          email: `lists-${name}@example.com`,
+          role: UserRole.EMPLOYEE,
+          department: Department.FINANCE
+        });
+        reporterId = reporter.id;
+        staffId = (await storage.getUserByUsername("itstaff"))!.id;
+
+        const priorities = [SLAPriority.LOW, SLAPriority.CRITICAL, SLAPriority.MEDIUM, SLAPriority.CRITICAL, SLAPriority.HIGH];
+        created = [];
+        for (const [index, priority] of priorities.entries()) {
+          const issue = await storage.createIssue({
+            title: `Expense report ${index}`,
+            description: index === 2 ? "The reimbursement form rejects receipts" : "Totals do not add up",
+            department: Department.FINANCE,
+            priority,
+            reporterId
+          });
+          created.push(issue.id);
+        }
+
+        // One resolved issue, assigned to staff, so resolvedAt has a value for only one
+        await storage.assignIssue(created[4], staffId);
+        await storage.updateIssueStatus(created[4], IssueStatus.IN_PROGRESS);
+        await storage.updateIssueStatus(created[4], IssueStatus.COMPLETED, { resolutionCode: ResolutionCode.FIXED, resolutionSummary: "Fixed the formula" });
+        await storage.updateIssueStatus(created[4], IssueStatus.VERIFIED);
+      });
+
+      it("pages forwards and backwards with cursors", async () => {
+        const params = { sort: "priority", pageSize: "2" };
+        const pages = await readAllPages(storage, { reporterId }, params);
+
+        // Most urgent first; equally urgent issues newest first
+        assert.deepEqual(pages.map(ids), [[created[3], created[1]], [created[4], created[2]], [created[0]]]);
+        assert.deepEqual(pages.map((page) => page.offset), [0, 2, 4]);
+        assert.ok(pages.every((page) => page.total === 5));
+        assert.equal(pages[0].prevCursor, null);
+
+        const back = await storage.queryIssues({ reporterId }, schema.issueListQuerySchema.parse({ ...params, cursor: pages[2].prevCursor! }));
+        assert.deepEqual(ids(back), ids(pages[1]));
+        assert.equal(back.offset, 2);
+      });
+
+      it("sorts issues without a value last in either order", async () => {
+        for (const order of ["asc", "desc"]) {
+          const params = { sort: "resolvedAt", order, pageSize: "2" };
+          const pages = await readAllPages(storage, { reporterId }, params);
+          const expected = [created[4], ...created.slice(0, 4).sort((a, b) => (order === "asc" ? a - b : b - a))];
+          assert.deepEqual(pages.flatMap(ids), expected);
+
+          const back = await storage.queryIssues({ reporterId }, schema.issueListQuerySchema.parse({ ...params, cursor: pages[1].prevCursor! }));
+          assert.deepEqual(ids(back), ids(pages[0]));
+        }
+      });
+
+      it("filters by the query and the scope", async () => {
+        const parse = (params: Record<string, string>) => schema.issueListQuerySchema.parse(params);
+
+        assert.deepEqual(ids(await storage.queryIssues({ reporterId }, parse({ priority: SLAPriority.CRITICAL, sort: "createdAt", order: "asc" }))), [created[1], created[3]]);
+        assert.deepEqual(ids(await storage.queryIssues({ reporterId }, parse({ q: `#${created[2]}` }))), [created[2]]);
+        assert.deepEqual(ids(await storage.queryIssues({ reporterId }, parse({ q: "reimbursement" }))), [created[2]]);
+        assert.deepEqual(ids(await storage.queryIssues({ reporterId }, parse({ assigneeId: "none", status: "open,in_progress", sort: "createdAt", order: "asc" }))), created.slice(0, 4));
+        assert.deepEqual(ids(await storage.queryIssues({ involvedUserId: staffId, statuses: schema.RESOLVED_ISSUE_STATUSES }, parse({}))), [created[4]]);
+        assert.equal((await storage.queryIssues({ department: Department.FINANCE, assigneeId: staffId }, parse({}))).total, 1);
+      });
+
+      it("summarizes the issues in a scope", async () => {
+        assert.deepEqual(await storage.getIssueSummary({ reporterId }), {
+          total: 5,
+          open: 4,
+          resolved: 1,
+          onTrack: 4,
+          escalated: 0
+        });
+      });
+    });
+
+    describe("search", () => {
+      let reporterId: number;
+      let created: number[];
+
+      before(async () => {
+        const reporter = await storage.createUser({
+          username: `search-${name}`,
+          password: "hashed",
+          fullName: "Search Reporter",
+          email: `search-${name}@example.com`,
+          role: UserRole.EMPLOYEE,
+          department: Department.LEGAL
+        });
+        reporterId = reporter.id;
+
+        const inTitle = await storage.createIssue({
+          title: "Projector bulb burnt out",
+          description: "Room 4 needs a new bulb",
+          department: Department.LEGAL,
+          priority: SLAPriority.MEDIUM,
+          reporterId
+        });
+        const inComment = await storage.createIssue({
+          title: "Meeting room booking",
+          description: "Bookings for room 4 overlap",
+          department: Department.LEGAL,
+          priority: SLAPriority.LOW,
+          reporterId
+        });
+        await storage.addComment(inComment.id, reporterId, "The projector remote is missing as well");
+        created = [inTitle.id, inComment.id];
+      });
+
+      it("ranks title matches above comment matches and highlights them", async () => {
+        const { results, total } = await storage.searchIssues({ reporterId }, schema.searchQuerySchema.parse({ q: "projector" }));
+
+        assert.equal(total, 2);
+        assert.deepEqual(results.map((result) => result.issue.id), created);
+        const [start, end] = results[0].title.highlights[0];
+        assert.equal(results[0].title.text.slice(start, end).toLowerCase(), "projector");
+
+        const comment = results[1].snippets.find((snippet) => snippet.field === "comment");
+        assert.equal(comment?.author, "Search Reporter");
+        assert.ok(comment?.highlights.length);
+      });
+
+      it("needs every word and only finds issues in the scope", async () => {
+        const search = (scope: IssueScope, q: string) => storage.searchIssues(scope, schema.searchQuerySchema.parse({ q }));
+
+        assert.deepEqual((await search({ reporterId }, "bulb room")).results.map((result) => result.issue.id), [created[0]]);
+        assert.equal((await search({ reporterId }, "projector keyboard")).total, 0);
+        assert.equal((await search({ reporterId: -1 }, "projector")).total, 0);
+        assert.equal((await search({ department: Department.LEGAL }, "projector")).total, 2);
+      });
+    });
+  });
+}
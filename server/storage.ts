@@ -1,44 +1,74 @@
-import { users, issues, activities, type User, type InsertUser, type Issue, type InsertIssue, type Activity, type InsertActivity, IssueStatus, SLAStatus, SLAPriority, UserRole, Department, Comment } from "@shared/schema";
+import { users, issues, activities, type User, type EscalationRule, type InsertEscalationRule, type SlaCalendar, type InsertSlaCalendar, type SlaPolicy, type InsertSlaPolicy, type UserActivity, type InsertUserActivity, type InsertUser, type Issue, type InsertIssue, type Activity, type InsertActivity, type UserSession, type UserFilters, type UserIssueCounts, type ResolutionTime, type ReopenRate, type IssueResolution, type ResolutionCodeCounts, type NewEscalation, type DepartmentAction, type InsertDepartmentAction, type AssignmentSettings, type InsertAssignmentSettings, type IssueScope, type IssueListQuery, type IssueQueryResult, type IssueSummary, type SearchQuery, type SearchResults, OPEN_ISSUE_STATUSES, RESOLVED_ISSUE_STATUSES, IssueStatus, SLAStatus, ReopenSlaBehavior, ResolutionCode, EscalationLevel, AssignmentStrategy, UserRole, Department, SLAPriority, Comment } from "@shared/schema";
 import session from "express-session";
-import { Store as SessionStore } from "express-session";
+import { Store as SessionStore, type SessionData } from "express-session";
 import createMemoryStore from "memorystore";
 import { nanoid } from "nanoid";
+import { calculateDueBy, calculateResponseDueBy, getReopenUpdates, getStatusChangeUpdates, recalculateSla } from "./sla";
+import { getCurrentEscalation, getDeescalationUpdates, getEscalationUpdates } from "@shared/escalation";
+import { seedInitialData } from "./seed";
+import { toUserSession } from "./session-store";
+import { createPool } from "./db";
+import { DatabaseStorage } from "./database-storage";
+import { encodeIssueCursor, getSortKey, type SortKey } from "./issue-list";
+import { matchesSearch, rankIssues, tokenize } from "./search";
 
 const MemoryStore = createMemoryStore(session);
 
-// Calculate if SLA is breached or at risk
-function calculateSlaStatus(issue: Issue): SLAStatus {
-  if (!issue.dueBy) return SLAStatus.ON_TRACK;
-  
-  const now = new Date();
-  const dueDate = new Date(issue.dueBy);
-  
-  if (issue.status === IssueStatus.VERIFIED || issue.status === IssueStatus.CLOSED) {
-    return SLAStatus.COMPLETED;
-  }
-  
-  if (now > dueDate) {
-    return SLAStatus.BREACHED;
-  }
-  
-  // Consider at risk if within 25% of SLA time
-  const timeLeft = dueDate.getTime() - now.getTime();
-  const totalTime = dueDate.getTime() - new Date(issue.createdAt!).getTime();
-  const percentTimeLeft = (timeLeft / totalTime) * 100;
-  
-  if (percentTimeLeft <= 25) {
-    return SLAStatus.AT_RISK;
-  }
-  
-  return SLAStatus.ON_TRACK;
+function matchesScope(issue: Issue, scope: IssueScope): boolean {
+  return (scope.reporterId === undefined || issue.reporterId === scope.reporterId) &&
+    (scope.assigneeId === undefined || issue.assigneeId === scope.assigneeId) &&
+    (scope.involvedUserId === undefined ||
+      issue.reporterId === scope.involvedUserId ||
+      issue.assigneeId === scope.involvedUserId) &&
+    (!scope.department || issue.department === scope.department) &&
+    (!scope.statuses || scope.statuses.includes(issue.status)) &&
+    (!scope.needsAttention ||
+      !!issue.escalationLevel ||
+      issue.slaStatus === SLAStatus.BREACHED ||
+      issue.slaStatus === SLAStatus.AT_RISK);
+}
+
+// A q of the form #42 finds that issue; anything else is a text search over
+// the title, description and comments
+function matchesText(issue: Issue, q: string, terms: string[]): boolean {
+  const issueNumber = q.match(/^#(\d+)$/);
+  return issueNumber ? issue.id === Number(issueNumber[1]) : matchesSearch(issue, terms);
+}
+
+function matchesListQuery(issue: Issue, query: IssueListQuery, terms: string[]): boolean {
+  const createdAt = issue.createdAt ? new Date(issue.createdAt).getTime() : null;
+
+  return (!query.status || query.status.length === 0 || query.status.includes(issue.status)) &&
+    (!query.department || issue.department === query.department) &&
+    (!query.priority || issue.priority === query.priority) &&
+    (!query.slaStatus || issue.slaStatus === query.slaStatus) &&
+    (query.assigneeId === undefined || issue.assigneeId === query.assigneeId) &&
+    (!query.reporterId || issue.reporterId === query.reporterId) &&
+    (!query.from || (createdAt !== null && createdAt >= query.from.getTime())) &&
+    (!query.to || (createdAt !== null && createdAt <= query.to.getTime())) &&
+    (!query.q || matchesText(issue, query.q, terms));
+}
+
+// Issues without a value for the sort field come last in either order; ties
+// are broken by id
+function compareSortKeys(a: SortKey, b: SortKey, direction: number): number {
+  if (a.value === b.value) return (a.id - b.id) * direction;
+  if (a.value === null) return 1;
+  if (b.value === null) return -1;
+  return (a.value - b.value) * direction;
 }
 
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
   getUsersByDepartment(department: Department): Promise<User[]>;
+  getUsersByIds(ids: number[]): Promise<User[]>;
+  getUsers(filters?: UserFilters): Promise<User[]>;
+  deleteUser(id: number): Promise<boolean>;
   
   // Issue methods
   createIssue(issue: InsertIssue): Promise<Issue>;
@@ -48,92 +78,133 @@ export interface IStorage {
   getIssuesByDepartment(department: Department): Promise<Issue[]>;
   getIssuesByStatus(status: IssueStatus): Promise<Issue[]>;
   getIssuesByAssignee(assigneeId: number): Promise<Issue[]>;
-  updateIssueStatus(id: number, status: IssueStatus): Promise<Issue | undefined>;
+  getUnresolvedIssues(): Promise<Issue[]>;
+  queryIssues(scope: IssueScope, query: IssueListQuery): Promise<IssueQueryResult>; // One filtered, sorted page
+  getIssueSummary(scope: IssueScope): Promise<IssueSummary>;
+  searchIssues(scope: IssueScope, query: SearchQuery): Promise<SearchResults>; // Best matches first
+  updateIssueStatus(id: number, status: IssueStatus, resolution?: IssueResolution): Promise<Issue | undefined>; // Resolution when completing
+  updateSlaStatus(id: number, from: SLAStatus, to: SLAStatus): Promise<Issue | undefined>;
+  updateResponseSlaStatus(id: number, from: SLAStatus, to: SLAStatus): Promise<Issue | undefined>;
+  autoTransitionIssue(id: number, from: IssueStatus, to: IssueStatus): Promise<Issue | undefined>; // Undefined if no longer in the from status
+  recordAutoCloseNotice(id: number, noticeAt: Date): Promise<Issue | undefined>;
+  recordFirstResponse(id: number, respondedAt: Date): Promise<Issue | undefined>; // Undefined if already responded
   updateIssueDepartment(id: number, department: Department): Promise<Issue | undefined>;
-  assignIssue(id: number, assigneeId: number): Promise<Issue | undefined>;
-  escalateIssue(id: number): Promise<Issue | undefined>;
+  updateIssuePriority(id: number, priority: SLAPriority): Promise<Issue | undefined>;
+  reopenIssue(id: number): Promise<Issue | undefined>; // Back to the department after a rejection
+  assignIssue(id: number, assigneeId: number | null): Promise<Issue | undefined>; // null unassigns
+  autoAssignIssue(id: number, assigneeId: number): Promise<Issue | undefined>; // Undefined if already assigned; the status is left alone
+  escalateIssue(id: number, from: Pick<Issue, "status" | "escalationLevel">, escalation: NewEscalation): Promise<Issue | undefined>; // Undefined if the status or level has changed since
+  deescalateIssue(id: number, deescalatedBy: number, reason: string): Promise<Issue | undefined>; // Back to the status it was escalated from
+  getEscalatedIssues(): Promise<Issue[]>; // Longest escalated first
   addComment(issueId: number, userId: number, text: string): Promise<Issue | undefined>;
   
   // Activity methods
   createActivity(activity: InsertActivity): Promise<Activity>;
   getActivitiesByIssue(issueId: number): Promise<Activity[]>;
   getRecentActivities(limit: number): Promise<Activity[]>;
+  getActivitiesByAction(action: string, limit: number): Promise<Activity[]>; // Newest first
+  createUserActivity(activity: InsertUserActivity): Promise<UserActivity>;
+  getUserActivities(userId: number): Promise<UserActivity[]>;
+  
+  // Escalation rule methods
+  getEscalationRules(): Promise<EscalationRule[]>;
+  getEscalationRule(id: number): Promise<EscalationRule | undefined>;
+  createEscalationRule(rule: InsertEscalationRule): Promise<EscalationRule>;
+  updateEscalationRule(id: number, updates: Partial<InsertEscalationRule>): Promise<EscalationRule | undefined>;
+  deleteEscalationRule(id: number): Promise<boolean>;
+  
+  // Department action methods
+  createDepartmentAction(action: InsertDepartmentAction): Promise<DepartmentAction>;
+  getDepartmentAction(id: number): Promise<DepartmentAction | undefined>;
+  getDepartmentActionsByIssue(issueId: number): Promise<DepartmentAction[]>; // Newest first
+  getPendingDepartmentActions(department?: Department): Promise<DepartmentAction[]>; // Not yet acknowledged, earliest deadline first
+  acknowledgeDepartmentAction(id: number, userId: number): Promise<DepartmentAction | undefined>; // Undefined if already acknowledged
+  
+  // SLA policy methods
+  getSlaPolicies(): Promise<SlaPolicy[]>; // Current version for each department and priority
+  getSlaPolicy(id: number): Promise<SlaPolicy | undefined>;
+  getCurrentSlaPolicy(department: Department, priority: SLAPriority): Promise<SlaPolicy | undefined>;
+  getSlaPolicyVersions(department: Department, priority: SLAPriority): Promise<SlaPolicy[]>; // Newest first
+  createSlaPolicy(policy: InsertSlaPolicy): Promise<SlaPolicy>; // Adds the next version
+  
+  // SLA calendar methods
+  getSlaCalendars(): Promise<SlaCalendar[]>;
+  getSlaCalendar(department: Department): Promise<SlaCalendar | undefined>;
+  upsertSlaCalendar(calendar: InsertSlaCalendar): Promise<SlaCalendar>;
+  
+  // Assignment settings methods
+  getAllAssignmentSettings(): Promise<AssignmentSettings[]>;
+  getAssignmentSettings(department: Department): Promise<AssignmentSettings | undefined>;
+  upsertAssignmentSettings(settings: InsertAssignmentSettings): Promise<AssignmentSettings>; // Keeps the round-robin position
+  recordRoundRobinAssignee(department: Department, assigneeId: number): Promise<void>;
   
   // Analytics methods
   getSLAPerformanceByDepartment(): Promise<Record<Department, number>>;
   getIssueCountsByStatus(): Promise<Record<IssueStatus, number>>;
   getEscalatedIssuesCount(): Promise<number>;
+  getResponsePerformanceByDepartment(): Promise<Record<Department, number>>;
+  getResolutionTimesByDepartment(): Promise<Record<Department, ResolutionTime>>;
+  getReopenRatesByDepartment(): Promise<Record<Department, ReopenRate>>;
+  getResolutionCodesByDepartment(): Promise<Record<Department, ResolutionCodeCounts>>;
+  getOpenIssueCountsByUser(): Promise<Record<number, UserIssueCounts>>;
   
   // Session store
   sessionStore: SessionStore;
+  getUserSessions(userId: number): Promise<UserSession[]>;
+  revokeSession(sid: string): Promise<void>;
+  revokeUserSessions(userId: number, exceptSid?: string): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
   private usersMap: Map<number, User>;
   private issuesMap: Map<number, Issue>;
   private activitiesMap: Map<number, Activity>;
-  sessionStore: session.SessionStore;
+  private userActivitiesMap: Map<number, UserActivity>;
+  private escalationRulesMap: Map<number, EscalationRule>;
+  private slaCalendarsMap: Map<Department, SlaCalendar>;
+  private slaPoliciesMap: Map<number, SlaPolicy>;
+  private departmentActionsMap: Map<number, DepartmentAction>;
+  private assignmentSettingsMap: Map<Department, AssignmentSettings>;
+  sessionStore: SessionStore;
   userIdCounter: number;
   issueIdCounter: number;
   activityIdCounter: number;
+  userActivityIdCounter: number;
+  escalationRuleIdCounter: number;
+  slaCalendarIdCounter: number;
+  slaPolicyIdCounter: number;
+  departmentActionIdCounter: number;
+  assignmentSettingsIdCounter: number;
 
   constructor() {
     this.usersMap = new Map();
     this.issuesMap = new Map();
     this.activitiesMap = new Map();
+    this.userActivitiesMap = new Map();
+    this.escalationRulesMap = new Map();
+    this.slaCalendarsMap = new Map();
+    this.slaPoliciesMap = new Map();
+    this.departmentActionsMap = new Map();
+    this.assignmentSettingsMap = new Map();
     this.userIdCounter = 1;
     this.issueIdCounter = 1;
     this.activityIdCounter = 1;
+    this.userActivityIdCounter = 1;
+    this.escalationRuleIdCounter = 1;
+    this.slaCalendarIdCounter = 1;
+    this.slaPolicyIdCounter = 1;
+    this.departmentActionIdCounter = 1;
+    this.assignmentSettingsIdCounter = 1;
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // 24h, clear expired sessions
     });
-    
-    // Create some initial demo data
-    // Using an IIFE to execute async code in constructor
-    (async () => {
-      await this.seedInitialData();
-    })();
-  }
-
-  private async seedInitialData(): Promise<void> {
-    // First hash the password
-    const hashedPassword = await this.hashPassword("password");
-    
-    // Create admin user
-    this.createUser({
-      username: "admin",
-      password: hashedPassword,
-      fullName: "Admin User",
-      email: "admin@example.com",
-      role: UserRole.ADMIN,
-      department: Department.IT
-    });
-
-    // Create department staff
-    this.createUser({
-      username: "itstaff",
-      password: hashedPassword,
-      fullName: "IT Staff",
-      email: "it@example.com",
-      role: UserRole.DEPARTMENT,
-      department: Department.IT
-    });
-
-    // Create employee
-    this.createUser({
-      username: "employee",
-      password: hashedPassword,
-      fullName: "Regular Employee",
-      email: "employee@example.com",
-      role: UserRole.EMPLOYEE,
-      department: Department.FINANCE
-    });
   }
-  
-  // Helper function to hash passwords
-  private async hashPassword(password: string): Promise<string> {
-    const bcrypt = await import('bcrypt');
-    return bcrypt.hash(password, 10);
+
+  // An empty store with the demo data already seeded
+  static async create(): Promise<MemStorage> {
+    const storage = new MemStorage();
+    await seedInitialData(storage);
+    return storage;
   }
 
   // User methods
@@ -147,57 +218,107 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.usersMap.values()).find(
+      (user) => user.email.toLowerCase() === email.toLowerCase()
+    );
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
     const now = new Date();
-    const user: User = { ...insertUser, id, createdAt: now };
+    const user: User = {
+      ...insertUser,
+      role: insertUser.role ?? UserRole.EMPLOYEE,
+      isActive: insertUser.isActive ?? true,
+      id,
+      createdAt: now
+    };
     this.usersMap.set(id, user);
     return user;
   }
 
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.usersMap.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = {
+      ...user,
+      ...updates,
+      role: updates.role ?? user.role,
+      isActive: updates.isActive ?? user.isActive
+    };
+    this.usersMap.set(id, updatedUser);
+    return updatedUser;
+  }
+
   async getUsersByDepartment(department: Department): Promise<User[]> {
     return Array.from(this.usersMap.values()).filter(
       (user) => user.department === department
     );
   }
 
+  async getUsersByIds(ids: number[]): Promise<User[]> {
+    return ids
+      .map((id) => this.usersMap.get(id))
+      .filter((user): user is User => !!user);
+  }
+
+  async getUsers(filters: UserFilters = {}): Promise<User[]> {
+    const query = filters.query?.trim().toLowerCase();
+    
+    return Array.from(this.usersMap.values()).filter((user) => {
+      if (filters.role && user.role !== filters.role) return false;
+      if (filters.department && user.department !== filters.department) return false;
+      if (filters.isActive !== undefined && user.isActive !== filters.isActive) return false;
+      if (query) {
+        return [user.username, user.fullName, user.email].some(
+          (value) => value.toLowerCase().includes(query)
+        );
+      }
+      return true;
+    });
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.usersMap.delete(id);
+  }
+
   // Issue methods
   async createIssue(insertIssue: InsertIssue): Promise<Issue> {
     const id = this.issueIdCounter++;
     const now = new Date();
     
-    // Calculate due date based on priority
-    let dueBy: Date | undefined = undefined;
-    if (insertIssue.priority) {
-      dueBy = new Date(now);
-      let hoursToAdd = 24; // Default
-      
-      switch (insertIssue.priority) {
-        case SLAPriority.CRITICAL:
-          hoursToAdd = 4;
-          break;
-        case SLAPriority.HIGH:
-          hoursToAdd = 8;
-          break;
-        case SLAPriority.MEDIUM:
-          hoursToAdd = 24;
-          break;
-        case SLAPriority.LOW:
-          hoursToAdd = 48;
-          break;
-      }
-      
-      dueBy.setHours(dueBy.getHours() + hoursToAdd);
-    }
+    // Calculate due date from the current policy and the department's working hours
+    const policy = await this.getCurrentSlaPolicy(insertIssue.department, insertIssue.priority);
+    const calendar = await this.getSlaCalendar(insertIssue.department);
+    const dueBy = policy ? calculateDueBy(policy, now, calendar) : null;
+    const responseDueBy = policy ? calculateResponseDueBy(policy, now, calendar) : null;
     
     const issue: Issue = {
       ...insertIssue,
       id,
+      status: IssueStatus.OPEN,
       createdAt: now,
       updatedAt: now,
+      slaPolicyId: policy?.id ?? null,
       dueBy,
+      slaStartedAt: null,
       slaStatus: SLAStatus.ON_TRACK,
-      isEscalated: false,
+      responseDueBy,
+      firstResponseAt: null,
+      responseSlaStatus: SLAStatus.ON_TRACK,
+      escalationLevel: null,
+      escalatedFromStatus: null,
+      escalations: [],
+      slaPauses: [],
+      slaPausedMs: 0,
+      completedAt: null,
+      resolutionSummary: null,
+      resolutionCode: null,
+      resolvedAt: null,
+      reopenCount: 0,
+      autoCloseNoticeAt: null,
       comments: [],
       assigneeId: null
     };
@@ -216,26 +337,10 @@ export class MemStorage implements IStorage {
   }
 
   async getIssue(id: number): Promise<Issue | undefined> {
-    const issue = this.issuesMap.get(id);
-    if (issue) {
-      // Update SLA status before returning
-      const updatedIssue = { ...issue, slaStatus: calculateSlaStatus(issue) };
-      this.issuesMap.set(id, updatedIssue);
-      return updatedIssue;
-    }
-    return undefined;
+    return this.issuesMap.get(id);
   }
 
   async getAllIssues(): Promise<Issue[]> {
-    // Update SLA statuses before returning
-    const issues = Array.from(this.issuesMap.values());
-    issues.forEach(issue => {
-      const updatedSlaStatus = calculateSlaStatus(issue);
-      if (issue.slaStatus !== updatedSlaStatus) {
-        const updatedIssue = { ...issue, slaStatus: updatedSlaStatus };
-        this.issuesMap.set(issue.id, updatedIssue);
-      }
-    });
     return Array.from(this.issuesMap.values());
   }
 
@@ -263,28 +368,149 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async updateIssueStatus(id: number, status: IssueStatus): Promise<Issue | undefined> {
+  async getUnresolvedIssues(): Promise<Issue[]> {
+    return (await this.getAllIssues()).filter(
+      (issue) => !RESOLVED_ISSUE_STATUSES.includes(issue.status)
+    );
+  }
+
+  // A page starts at the query's cursor when it has one, otherwise at its page number
+  async queryIssues(scope: IssueScope, query: IssueListQuery): Promise<IssueQueryResult> {
+    const direction = query.order === "asc" ? 1 : -1;
+    const terms = query.q ? tokenize(query.q) : [];
+    const matching = (await this.getAllIssues())
+      .filter((issue) => matchesScope(issue, scope) && matchesListQuery(issue, query, terms))
+      .sort((a, b) => compareSortKeys(getSortKey(a, query.sort), getSortKey(b, query.sort), direction));
+    
+    let start = (query.page - 1) * query.pageSize;
+    const cursor = query.cursor;
+    if (cursor) {
+      // Pages after the cursor start at the first issue sorting after it; pages
+      // before it end at the cursor's own issue
+      const boundary = matching.findIndex((issue) => {
+        const position = compareSortKeys(getSortKey(issue, query.sort), cursor, direction);
+        return cursor.direction === "after" ? position > 0 : position >= 0;
+      });
+      const end = boundary === -1 ? matching.length : boundary;
+      start = cursor.direction === "after" ? end : Math.max(0, end - query.pageSize);
+    }
+    
+    const page = matching.slice(start, start + query.pageSize);
+    return {
+      issues: page,
+      total: matching.length,
+      offset: start,
+      pageSize: query.pageSize,
+      nextCursor: start + page.length < matching.length && page.length > 0
+        ? encodeIssueCursor(query, "after", getSortKey(page[page.length - 1], query.sort))
+        : null,
+      prevCursor: start > 0 && page.length > 0
+        ? encodeIssueCursor(query, "before", getSortKey(page[0], query.sort))
+        : null
+    };
+  }
+
+  async getIssueSummary(scope: IssueScope): Promise<IssueSummary> {
+    const scoped = (await this.getAllIssues()).filter((issue) => matchesScope(issue, scope));
+    const countOf = (matches: (issue: Issue) => boolean) => scoped.filter(matches).length;
+    
+    return {
+      total: scoped.length,
+      open: countOf((issue) => issue.status === IssueStatus.OPEN || issue.status === IssueStatus.IN_PROGRESS),
+      resolved: countOf((issue) => RESOLVED_ISSUE_STATUSES.includes(issue.status)),
+      onTrack: countOf((issue) => issue.slaStatus === SLAStatus.ON_TRACK),
+      escalated: countOf((issue) => !!issue.escalationLevel)
+    };
+  }
+
+  async searchIssues(scope: IssueScope, query: SearchQuery): Promise<SearchResults> {
+    return rankIssues((await this.getAllIssues()).filter((issue) => matchesScope(issue, scope)), query);
+  }
+
+  async updateIssueStatus(id: number, status: IssueStatus, resolution?: IssueResolution): Promise<Issue | undefined> {
     const issue = await this.getIssue(id);
     if (!issue) return undefined;
     
     const now = new Date();
+    const calendar = await this.getSlaCalendar(issue.department);
     const updatedIssue: Issue = {
       ...issue,
+      ...getStatusChangeUpdates(issue, status, calendar, now),
+      ...resolution,
       status,
       updatedAt: now,
-      // If the issue is being marked as completed and it was previously at risk or breached,
-      // we want to keep that information for reporting purposes
+      // Resolved issues lock in a completed SLA; the SLA worker evaluates the rest
       slaStatus: 
         status === IssueStatus.VERIFIED || status === IssueStatus.CLOSED 
           ? SLAStatus.COMPLETED 
-          : calculateSlaStatus({...issue, status})
+          : issue.slaStatus
     };
     
     this.issuesMap.set(id, updatedIssue);
     return updatedIssue;
   }
 
-  async assignIssue(id: number, assigneeId: number): Promise<Issue | undefined> {
+  async updateSlaStatus(id: number, from: SLAStatus, to: SLAStatus): Promise<Issue | undefined> {
+    const issue = this.issuesMap.get(id);
+    if (!issue || issue.slaStatus !== from) return undefined;
+    
+    const updatedIssue: Issue = { ...issue, slaStatus: to };
+    this.issuesMap.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async autoTransitionIssue(id: number, from: IssueStatus, to: IssueStatus): Promise<Issue | undefined> {
+    const issue = this.issuesMap.get(id);
+    if (!issue || issue.status !== from) return undefined;
+    
+    const now = new Date();
+    const calendar = await this.getSlaCalendar(issue.department);
+    const updatedIssue: Issue = {
+      ...issue,
+      ...getStatusChangeUpdates(issue, to, calendar, now),
+      status: to,
+      updatedAt: now,
+      slaStatus: RESOLVED_ISSUE_STATUSES.includes(to) ? SLAStatus.COMPLETED : issue.slaStatus
+    };
+    
+    this.issuesMap.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async recordAutoCloseNotice(id: number, noticeAt: Date): Promise<Issue | undefined> {
+    const issue = this.issuesMap.get(id);
+    if (!issue) return undefined;
+    
+    const updatedIssue: Issue = { ...issue, autoCloseNoticeAt: noticeAt };
+    this.issuesMap.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async updateResponseSlaStatus(id: number, from: SLAStatus, to: SLAStatus): Promise<Issue | undefined> {
+    const issue = this.issuesMap.get(id);
+    if (!issue || issue.firstResponseAt || issue.responseSlaStatus !== from) return undefined;
+    
+    const updatedIssue: Issue = { ...issue, responseSlaStatus: to };
+    this.issuesMap.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async recordFirstResponse(id: number, respondedAt: Date): Promise<Issue | undefined> {
+    const issue = this.issuesMap.get(id);
+    if (!issue || issue.firstResponseAt) return undefined;
+    
+    const updatedIssue: Issue = {
+      ...issue,
+      firstResponseAt: respondedAt,
+      responseSlaStatus: issue.responseDueBy && respondedAt > issue.responseDueBy
+        ? SLAStatus.BREACHED
+        : SLAStatus.COMPLETED
+    };
+    this.issuesMap.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async assignIssue(id: number, assigneeId: number | null): Promise<Issue | undefined> {
     const issue = await this.getIssue(id);
     if (!issue) return undefined;
     
@@ -293,43 +519,115 @@ export class MemStorage implements IStorage {
       ...issue,
       assigneeId,
       updatedAt: now,
-      status: issue.status === IssueStatus.OPEN ? IssueStatus.IN_PROGRESS : issue.status
+      // Work starts once someone picks the issue up; unassigning leaves the status alone
+      status: assigneeId && issue.status === IssueStatus.OPEN ? IssueStatus.IN_PROGRESS : issue.status
     };
     
     this.issuesMap.set(id, updatedIssue);
     return updatedIssue;
   }
 
-  async escalateIssue(id: number): Promise<Issue | undefined> {
+  async autoAssignIssue(id: number, assigneeId: number): Promise<Issue | undefined> {
+    const issue = this.issuesMap.get(id);
+    if (!issue || issue.assigneeId) return undefined;
+    
+    const updatedIssue: Issue = { ...issue, assigneeId, updatedAt: new Date() };
+    this.issuesMap.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async escalateIssue(id: number, from: Pick<Issue, "status" | "escalationLevel">, escalation: NewEscalation): Promise<Issue | undefined> {
     const issue = await this.getIssue(id);
-    if (!issue) return undefined;
+    if (!issue || issue.status !== from.status || issue.escalationLevel !== from.escalationLevel) return undefined;
     
     const now = new Date();
+    const calendar = await this.getSlaCalendar(issue.department);
     const updatedIssue: Issue = {
       ...issue,
-      isEscalated: true,
-      status: IssueStatus.ESCALATED,
+      // Escalating a pending issue restarts its SLA clock
+      ...getStatusChangeUpdates(issue, IssueStatus.ESCALATED, calendar, now),
+      ...getEscalationUpdates(issue, escalation, now),
       updatedAt: now
     };
     
     this.issuesMap.set(id, updatedIssue);
     return updatedIssue;
   }
+
+  async deescalateIssue(id: number, deescalatedBy: number, reason: string): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue?.escalationLevel) return undefined;
+    
+    const now = new Date();
+    const calendar = await this.getSlaCalendar(issue.department);
+    const updates = getDeescalationUpdates(issue, deescalatedBy, reason, now);
+    const updatedIssue: Issue = {
+      ...issue,
+      ...getStatusChangeUpdates(issue, updates.status, calendar, now),
+      ...updates,
+      updatedAt: now
+    };
+    
+    this.issuesMap.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async getEscalatedIssues(): Promise<Issue[]> {
+    return Array.from(this.issuesMap.values())
+      .filter(issue => issue.escalationLevel)
+      .sort((a, b) => getCurrentEscalation(a)!.escalatedAt.localeCompare(getCurrentEscalation(b)!.escalatedAt));
+  }
   
   async updateIssueDepartment(id: number, department: Department): Promise<Issue | undefined> {
     const issue = await this.getIssue(id);
     if (!issue) return undefined;
     
     const now = new Date();
+    const policy = await this.getCurrentSlaPolicy(department, issue.priority);
+    const calendar = await this.getSlaCalendar(department);
     const updatedIssue: Issue = {
       ...issue,
+      // The SLA follows the new department's policy and working hours
+      ...recalculateSla({ ...issue, department }, policy, calendar),
       department,
       updatedAt: now,
-      // Reset assignee when changing department
-      assigneeId: null,
-      // If issue was escalated, it remains escalated but we keep the status to track it properly
-      // This allows the newly assigned department to see it immediately
-      status: issue.isEscalated ? IssueStatus.ESCALATED : issue.status 
+      // Reset assignee when changing department; an escalated issue stays
+      // escalated so the new department sees it immediately
+      assigneeId: null
+    };
+    
+    this.issuesMap.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async updateIssuePriority(id: number, priority: SLAPriority): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue) return undefined;
+    
+    const policy = await this.getCurrentSlaPolicy(issue.department, priority);
+    const calendar = await this.getSlaCalendar(issue.department);
+    const updatedIssue: Issue = {
+      ...issue,
+      ...recalculateSla({ ...issue, priority }, policy, calendar),
+      priority,
+      updatedAt: new Date()
+    };
+    
+    this.issuesMap.set(id, updatedIssue);
+    return updatedIssue;
+  }
+
+  async reopenIssue(id: number): Promise<Issue | undefined> {
+    const issue = await this.getIssue(id);
+    if (!issue) return undefined;
+    
+    const now = new Date();
+    const policy = issue.slaPolicyId ? await this.getSlaPolicy(issue.slaPolicyId) : undefined;
+    const calendar = await this.getSlaCalendar(issue.department);
+    const updatedIssue: Issue = {
+      ...issue,
+      ...getReopenUpdates(issue, policy, calendar, now),
+      updatedAt: now
     };
     
     this.issuesMap.set(id, updatedIssue);
@@ -374,7 +672,13 @@ export class MemStorage implements IStorage {
   async createActivity(insertActivity: InsertActivity): Promise<Activity> {
     const id = this.activityIdCounter++;
     const now = new Date();
-    const activity: Activity = { ...insertActivity, id, createdAt: now };
+    const activity: Activity = {
+      ...insertActivity,
+      userId: insertActivity.userId ?? null,
+      details: insertActivity.details ?? {},
+      id,
+      createdAt: now
+    };
     this.activitiesMap.set(id, activity);
     return activity;
   }
@@ -391,6 +695,203 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  async getActivitiesByAction(action: string, limit: number): Promise<Activity[]> {
+    return Array.from(this.activitiesMap.values())
+      .filter((activity) => activity.action === action)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createUserActivity(insertActivity: InsertUserActivity): Promise<UserActivity> {
+    const id = this.userActivityIdCounter++;
+    const activity: UserActivity = { ...insertActivity, details: insertActivity.details ?? {}, id, createdAt: new Date() };
+    this.userActivitiesMap.set(id, activity);
+    return activity;
+  }
+
+  async getUserActivities(userId: number): Promise<UserActivity[]> {
+    return Array.from(this.userActivitiesMap.values())
+      .filter((activity) => activity.userId === userId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
+
+  // Escalation rule methods
+  async getEscalationRules(): Promise<EscalationRule[]> {
+    return Array.from(this.escalationRulesMap.values());
+  }
+
+  async getEscalationRule(id: number): Promise<EscalationRule | undefined> {
+    return this.escalationRulesMap.get(id);
+  }
+
+  async createEscalationRule(insertRule: InsertEscalationRule): Promise<EscalationRule> {
+    const id = this.escalationRuleIdCounter++;
+    const now = new Date();
+    const rule: EscalationRule = {
+      ...insertRule,
+      priority: insertRule.priority ?? null,
+      delayMinutes: insertRule.delayMinutes ?? 0,
+      level: insertRule.level ?? EscalationLevel.TEAM_LEAD,
+      isEnabled: insertRule.isEnabled ?? true,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.escalationRulesMap.set(id, rule);
+    return rule;
+  }
+
+  async updateEscalationRule(id: number, updates: Partial<InsertEscalationRule>): Promise<EscalationRule | undefined> {
+    const rule = this.escalationRulesMap.get(id);
+    if (!rule) return undefined;
+    
+    const updatedRule: EscalationRule = {
+      ...rule,
+      ...updates,
+      priority: updates.priority !== undefined ? updates.priority : rule.priority,
+      delayMinutes: updates.delayMinutes ?? rule.delayMinutes,
+      level: updates.level ?? rule.level,
+      isEnabled: updates.isEnabled ?? rule.isEnabled,
+      updatedAt: new Date()
+    };
+    this.escalationRulesMap.set(id, updatedRule);
+    return updatedRule;
+  }
+
+  async deleteEscalationRule(id: number): Promise<boolean> {
+    return this.escalationRulesMap.delete(id);
+  }
+
+  // Department action methods
+  async createDepartmentAction(insertAction: InsertDepartmentAction): Promise<DepartmentAction> {
+    const id = this.departmentActionIdCounter++;
+    const action: DepartmentAction = {
+      ...insertAction,
+      id,
+      createdAt: new Date(),
+      acknowledgedAt: null,
+      acknowledgedBy: null
+    };
+    this.departmentActionsMap.set(id, action);
+    return action;
+  }
+
+  async getDepartmentAction(id: number): Promise<DepartmentAction | undefined> {
+    return this.departmentActionsMap.get(id);
+  }
+
+  async getDepartmentActionsByIssue(issueId: number): Promise<DepartmentAction[]> {
+    return Array.from(this.departmentActionsMap.values())
+      .filter((action) => action.issueId === issueId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getPendingDepartmentActions(department?: Department): Promise<DepartmentAction[]> {
+    return Array.from(this.departmentActionsMap.values())
+      .filter((action) => !action.acknowledgedAt && (!department || action.department === department))
+      .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+  }
+
+  async acknowledgeDepartmentAction(id: number, userId: number): Promise<DepartmentAction | undefined> {
+    const action = this.departmentActionsMap.get(id);
+    if (!action || action.acknowledgedAt) return undefined;
+    
+    const acknowledgedAction: DepartmentAction = { ...action, acknowledgedAt: new Date(), acknowledgedBy: userId };
+    this.departmentActionsMap.set(id, acknowledgedAction);
+    return acknowledgedAction;
+  }
+
+  // SLA policy methods
+  async getSlaPolicies(): Promise<SlaPolicy[]> {
+    const current = new Map<string, SlaPolicy>();
+    Array.from(this.slaPoliciesMap.values()).forEach(policy => {
+      const key = `${policy.department}:${policy.priority}`;
+      if ((current.get(key)?.version ?? 0) < policy.version) {
+        current.set(key, policy);
+      }
+    });
+    return Array.from(current.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getSlaPolicy(id: number): Promise<SlaPolicy | undefined> {
+    return this.slaPoliciesMap.get(id);
+  }
+
+  async getCurrentSlaPolicy(department: Department, priority: SLAPriority): Promise<SlaPolicy | undefined> {
+    const [policy] = await this.getSlaPolicyVersions(department, priority);
+    return policy;
+  }
+
+  async getSlaPolicyVersions(department: Department, priority: SLAPriority): Promise<SlaPolicy[]> {
+    return Array.from(this.slaPoliciesMap.values())
+      .filter(policy => policy.department === department && policy.priority === priority)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async createSlaPolicy(insertPolicy: InsertSlaPolicy): Promise<SlaPolicy> {
+    const current = await this.getCurrentSlaPolicy(insertPolicy.department, insertPolicy.priority);
+    const policy: SlaPolicy = {
+      ...insertPolicy,
+      id: this.slaPolicyIdCounter++,
+      version: (current?.version ?? 0) + 1,
+      reopenBehavior: insertPolicy.reopenBehavior ?? ReopenSlaBehavior.EXTEND,
+      createdBy: insertPolicy.createdBy ?? null,
+      createdAt: new Date()
+    };
+    this.slaPoliciesMap.set(policy.id, policy);
+    return policy;
+  }
+
+  // SLA calendar methods
+  async getSlaCalendars(): Promise<SlaCalendar[]> {
+    return Array.from(this.slaCalendarsMap.values());
+  }
+
+  async getSlaCalendar(department: Department): Promise<SlaCalendar | undefined> {
+    return this.slaCalendarsMap.get(department);
+  }
+
+  async upsertSlaCalendar(insertCalendar: InsertSlaCalendar): Promise<SlaCalendar> {
+    const existing = this.slaCalendarsMap.get(insertCalendar.department);
+    const calendar: SlaCalendar = {
+      ...insertCalendar,
+      holidays: insertCalendar.holidays ?? [],
+      id: existing?.id ?? this.slaCalendarIdCounter++,
+      updatedAt: new Date()
+    };
+    this.slaCalendarsMap.set(calendar.department, calendar);
+    return calendar;
+  }
+
+  // Assignment settings methods
+  async getAllAssignmentSettings(): Promise<AssignmentSettings[]> {
+    return Array.from(this.assignmentSettingsMap.values());
+  }
+
+  async getAssignmentSettings(department: Department): Promise<AssignmentSettings | undefined> {
+    return this.assignmentSettingsMap.get(department);
+  }
+
+  async upsertAssignmentSettings(insertSettings: InsertAssignmentSettings): Promise<AssignmentSettings> {
+    const existing = this.assignmentSettingsMap.get(insertSettings.department);
+    const settings: AssignmentSettings = {
+      ...insertSettings,
+      strategy: insertSettings.strategy ?? AssignmentStrategy.MANUAL,
+      excludedUserIds: insertSettings.excludedUserIds ?? [],
+      memberSkills: insertSettings.memberSkills ?? [],
+      id: existing?.id ?? this.assignmentSettingsIdCounter++,
+      lastAssigneeId: existing?.lastAssigneeId ?? null,
+      updatedAt: new Date()
+    };
+    this.assignmentSettingsMap.set(settings.department, settings);
+    return settings;
+  }
+
+  async recordRoundRobinAssignee(department: Department, assigneeId: number): Promise<void> {
+    const settings = this.assignmentSettingsMap.get(department);
+    if (settings) this.assignmentSettingsMap.set(department, { ...settings, lastAssigneeId: assigneeId });
+  }
+
   // Analytics methods
   async getSLAPerformanceByDepartment(): Promise<Record<Department, number>> {
     const issues = await this.getAllIssues();
@@ -425,11 +926,34 @@ export class MemStorage implements IStorage {
     return result;
   }
 
+  async getResponsePerformanceByDepartment(): Promise<Record<Department, number>> {
+    const totals = Object.fromEntries(
+      Object.values(Department).map((dept) => [dept, { total: 0, onTime: 0 }])
+    ) as Record<Department, { total: number, onTime: number }>;
+    
+    // Only consider issues the department has responded to
+    Array.from(this.issuesMap.values()).forEach(issue => {
+      if (!issue.firstResponseAt) return;
+      totals[issue.department].total += 1;
+      if (issue.responseSlaStatus !== SLAStatus.BREACHED) {
+        totals[issue.department].onTime += 1;
+      }
+    });
+    
+    const result = {} as Record<Department, number>;
+    Object.entries(totals).forEach(([dept, { total, onTime }]) => {
+      result[dept as Department] = total > 0 ? Math.round((onTime / total) * 100) : 100; // Default to 100% if no issues
+    });
+    
+    return result;
+  }
+
   async getIssueCountsByStatus(): Promise<Record<IssueStatus, number>> {
     const issues = await this.getAllIssues();
     const result: Record<IssueStatus, number> = {
       [IssueStatus.OPEN]: 0,
       [IssueStatus.IN_PROGRESS]: 0,
+      [IssueStatus.PENDING]: 0,
       [IssueStatus.COMPLETED]: 0,
       [IssueStatus.VERIFIED]: 0,
       [IssueStatus.REJECTED]: 0,
@@ -446,8 +970,146 @@ export class MemStorage implements IStorage {
 
   async getEscalatedIssuesCount(): Promise<number> {
     const issues = await this.getAllIssues();
-    return issues.filter(issue => issue.isEscalated).length;
+    return issues.filter(issue => issue.escalationLevel).length;
+  }
+
+  async getResolutionTimesByDepartment(): Promise<Record<Department, ResolutionTime>> {
+    const totals = Object.fromEntries(
+      Object.values(Department).map((dept) => [dept, { resolved: 0, totalMs: 0 }])
+    ) as Record<Department, { resolved: number, totalMs: number }>;
+    
+    Array.from(this.issuesMap.values()).forEach(issue => {
+      if (!issue.resolvedAt) return;
+      totals[issue.department].resolved += 1;
+      totals[issue.department].totalMs += 
+        issue.resolvedAt.getTime() - issue.createdAt!.getTime() - issue.slaPausedMs;
+    });
+    
+    const result = {} as Record<Department, ResolutionTime>;
+    Object.entries(totals).forEach(([dept, { resolved, totalMs }]) => {
+      result[dept as Department] = {
+        resolved,
+        averageHours: resolved > 0 ? Math.round(totalMs / resolved / 360000) / 10 : null
+      };
+    });
+    
+    return result;
+  }
+
+  async getReopenRatesByDepartment(): Promise<Record<Department, ReopenRate>> {
+    const totals = Object.fromEntries(
+      Object.values(Department).map((dept) => [dept, { completed: 0, reopened: 0 }])
+    ) as Record<Department, { completed: number, reopened: number }>;
+    
+    // Only consider issues the department has completed at least once
+    Array.from(this.issuesMap.values()).forEach(issue => {
+      if (!issue.completedAt) return;
+      totals[issue.department].completed += 1;
+      if (issue.reopenCount > 0) {
+        totals[issue.department].reopened += 1;
+      }
+    });
+    
+    const result = {} as Record<Department, ReopenRate>;
+    Object.entries(totals).forEach(([dept, { completed, reopened }]) => {
+      result[dept as Department] = {
+        completed,
+        reopened,
+        percent: completed > 0 ? Math.round((reopened / completed) * 100) : null
+      };
+    });
+    
+    return result;
+  }
+
+  async getResolutionCodesByDepartment(): Promise<Record<Department, ResolutionCodeCounts>> {
+    const result = Object.fromEntries(
+      Object.values(Department).map((dept) => [
+        dept,
+        Object.fromEntries(Object.values(ResolutionCode).map((code) => [code, 0]))
+      ])
+    ) as Record<Department, ResolutionCodeCounts>;
+    
+    // Only the resolution that currently stands, not ones the reporter rejected
+    Array.from(this.issuesMap.values()).forEach(issue => {
+      if (!issue.resolutionCode || OPEN_ISSUE_STATUSES.includes(issue.status)) return;
+      result[issue.department][issue.resolutionCode] += 1;
+    });
+    
+    return result;
+  }
+
+  async getOpenIssueCountsByUser(): Promise<Record<number, UserIssueCounts>> {
+    const issues = await this.getAllIssues();
+    const result: Record<number, UserIssueCounts> = {};
+    const countsOf = (userId: number) => (result[userId] ??= { reported: 0, assigned: 0 });
+    
+    issues
+      .filter(issue => OPEN_ISSUE_STATUSES.includes(issue.status))
+      .forEach(issue => {
+        countsOf(issue.reporterId).reported += 1;
+        if (issue.assigneeId) {
+          countsOf(issue.assigneeId).assigned += 1;
+        }
+      });
+    
+    return result;
+  }
+
+  // Session methods
+  private allSessions(): Promise<Record<string, SessionData>> {
+    return new Promise((resolve, reject) => {
+      this.sessionStore.all!((err, sessions) => {
+        if (err) return reject(err);
+        resolve((sessions ?? {}) as Record<string, SessionData>);
+      });
+    });
+  }
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    const sessions = await this.allSessions();
+    return Object.entries(sessions)
+      .map(([sid, sess]) => toUserSession(sid, sess))
+      .filter((userSession): userSession is UserSession => userSession?.userId === userId);
+  }
+
+  async revokeSession(sid: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async revokeUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const revoked = (await this.getUserSessions(userId)).filter(
+      (userSession) => userSession.sid !== exceptSid
+    );
+    await Promise.all(revoked.map((userSession) => this.revokeSession(userSession.sid)));
+    return revoked.length;
+  }
+}
+
+// Pick the storage backend at startup. Postgres is used whenever a database is
+// configured; STORAGE_DRIVER=memory forces the in-memory store (e.g. for demos).
+// The returned store is already seeded, so a failure to seed fails startup.
+export async function createStorage(): Promise<IStorage> {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("DATABASE_URL must be set when STORAGE_DRIVER is postgres");
+      }
+      return DatabaseStorage.create(createPool(process.env.DATABASE_URL));
+    case "memory":
+      return MemStorage.create();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
   }
 }
 
-export const storage = new MemStorage();
+// Set by initStorage(), which the server awaits before registering routes
+export let storage: IStorage;
+
+export async function initStorage(): Promise<void> {
+  storage = await createStorage();
+}
@@ -0,0 +1,61 @@
+import { type Issue, type SlaCalendarSettings, type User, Department, IssueStatus, SLAPriority, SLAStatus, UserRole } from "@shared/schema";
+
+// Plain objects for unit tests of the pure SLA, escalation and assignment logic
+
+export function createTestIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: 1,
+    title: "Printer jammed",
+    description: "The second floor printer jams on every job",
+    department: Department.IT,
+    status: IssueStatus.OPEN,
+    priority: SLAPriority.MEDIUM,
+    reporterId: 1,
+    assigneeId: null,
+    createdAt: new Date("2026-01-05T09:00:00Z"),
+    updatedAt: new Date("2026-01-05T09:00:00Z"),
+    slaPolicyId: null,
+    dueBy: null,
+    slaStartedAt: null,
+    slaStatus: SLAStatus.ON_TRACK,
+    responseDueBy: null,
+    firstResponseAt: null,
+    responseSlaStatus: SLAStatus.ON_TRACK,
+    escalationLevel: null,
+    escalatedFromStatus: null,
+    escalations: [],
+    slaPauses: [],
+    slaPausedMs: 0,
+    completedAt: null,
+    resolutionSummary: null,
+    resolutionCode: null,
+    resolvedAt: null,
+    reopenCount: 0,
+    autoCloseNoticeAt: null,
+    comments: [],
+    ...overrides
+  };
+}
+
+export function createTestUser(overrides: Partial<User> = {}): User {
+  const id = overrides.id ?? 1;
+  return {
+    id,
+    username: `user${id}`,
+    password: "hashed",
+    fullName: `User ${id}`,
+    email: `user${id}@example.com`,
+    role: UserRole.DEPARTMENT,
+    department: Department.IT,
+    isActive: true,
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    ...overrides
+  };
+}
+
+// Monday to Friday, 09:00 to 17:00 in London
+export const OFFICE_HOURS_CALENDAR: SlaCalendarSettings = {
+  timeZone: "Europe/London",
+  workingHours: [null, ...Array.from({ length: 5 }, () => ({ start: "09:00", end: "17:00" })), null],
+  holidays: []
+};
@@ -0,0 +1,58 @@
+import { type Department, type Issue, type MemberWorkload, type TeamWorkload, type User, type WorkloadIssue, OPEN_ISSUE_STATUSES, IssueStatus, SLAStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { isAssignable } from "./assignment";
+import { toUserSummary } from "./serializers";
+
+function toWorkloadIssue(issue: Issue): WorkloadIssue {
+  return {
+    id: issue.id,
+    title: issue.title,
+    status: issue.status,
+    priority: issue.priority,
+    slaStatus: issue.slaStatus,
+    dueBy: issue.dueBy,
+    createdAt: issue.createdAt
+  };
+}
+
+// Counts over the open issues one member of staff (or nobody) holds
+function summarizeWorkload(member: User | null, department: Department, issues: Issue[]): MemberWorkload {
+  const oldestFirst = [...issues].sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+  const countOf = (matches: (issue: Issue) => boolean) => issues.filter(matches).length;
+
+  return {
+    member: member && toUserSummary(member),
+    isAssignable: !member || isAssignable(member, department),
+    open: countOf((issue) => issue.status === IssueStatus.OPEN),
+    inProgress: countOf((issue) => issue.status === IssueStatus.IN_PROGRESS),
+    pending: countOf((issue) => issue.status === IssueStatus.PENDING),
+    total: issues.length,
+    breached: countOf((issue) => issue.slaStatus === SLAStatus.BREACHED),
+    atRisk: countOf((issue) => issue.slaStatus === SLAStatus.AT_RISK),
+    oldestCreatedAt: oldestFirst[0]?.createdAt ?? null,
+    issues: oldestFirst.map(toWorkloadIssue)
+  };
+}
+
+// Open issues of a department grouped by assignee. Every active member of
+// staff is listed, even without issues, as are former staff still holding some.
+export async function getTeamWorkload(department: Department): Promise<TeamWorkload> {
+  const [staff, departmentIssues] = await Promise.all([
+    storage.getUsersByDepartment(department),
+    storage.getIssuesByDepartment(department)
+  ]);
+  const openIssues = departmentIssues.filter((issue) => OPEN_ISSUE_STATUSES.includes(issue.status));
+
+  const members = staff.filter((user) => isAssignable(user, department));
+  const holderIds = Array.from(new Set(openIssues.map((issue) => issue.assigneeId)))
+    .filter((id): id is number => id !== null && !members.some((member) => member.id === id));
+  const holders = [...members, ...await storage.getUsersByIds(holderIds)]
+    .sort((a, b) => a.fullName.localeCompare(b.fullName));
+
+  return {
+    department,
+    unassigned: summarizeWorkload(null, department, openIssues.filter((issue) => !issue.assigneeId)),
+    members: holders.map((holder) =>
+      summarizeWorkload(holder, department, openIssues.filter((issue) => issue.assigneeId === holder.id)))
+  };
+}
@@ -0,0 +1,122 @@
+import { type EscalationStep, type Issue, type NewEscalation, type User, type EscalationTarget, EscalationLevel, IssueStatus, RESOLVED_ISSUE_STATUSES } from "./schema";
+import { getWorkflowActors, WorkflowActor } from "./workflow";
+
+// Escalation tiers shared by the server, which enforces them, and the client,
+// which only offers the levels a user can escalate to. An escalated issue sits
+// in the escalated status until it is de-escalated back to the status it was
+// escalated from.
+
+// Lowest first
+export const ESCALATION_LEVELS = [
+  EscalationLevel.TEAM_LEAD,
+  EscalationLevel.DEPARTMENT_HEAD,
+  EscalationLevel.ADMIN
+];
+
+export const ESCALATION_LEVEL_LABELS: Record<EscalationLevel, string> = {
+  [EscalationLevel.TEAM_LEAD]: "Team lead",
+  [EscalationLevel.DEPARTMENT_HEAD]: "Department head",
+  [EscalationLevel.ADMIN]: "Administrators"
+};
+
+// The highest level each actor can escalate to and de-escalate from
+const ACTOR_LEVEL_LIMITS: Record<WorkflowActor, EscalationLevel> = {
+  [WorkflowActor.REPORTER]: EscalationLevel.TEAM_LEAD,
+  [WorkflowActor.DEPARTMENT]: EscalationLevel.DEPARTMENT_HEAD,
+  [WorkflowActor.ADMIN]: EscalationLevel.ADMIN
+};
+
+// Position of a level in the tiers; -1 when not escalated
+export function getEscalationRank(level: EscalationLevel | null): number {
+  return level ? ESCALATION_LEVELS.indexOf(level) : -1;
+}
+
+// The level above the issue's current one; undefined at the top
+export function getNextEscalationLevel(level: EscalationLevel | null): EscalationLevel | undefined {
+  return ESCALATION_LEVELS[getEscalationRank(level) + 1];
+}
+
+// The escalation step the issue is currently at
+// Whether an escalation rule alerted the department or the administrators to
+// the issue's current escalation
+export function isEscalationAlertFor(issue: Pick<Issue, "escalationLevel" | "escalations">, target: EscalationTarget): boolean {
+  return getCurrentEscalation(issue)?.notify === target;
+}
+
+export function getCurrentEscalation(issue: Pick<Issue, "escalationLevel" | "escalations">): EscalationStep | undefined {
+  if (!issue.escalationLevel) return undefined;
+  return issue.escalations[issue.escalations.length - 1];
+}
+
+function getLevelLimit(
+  issue: Pick<Issue, "reporterId" | "department">,
+  user: Pick<User, "id" | "role" | "department">
+): number {
+  return Math.max(...getWorkflowActors(issue, user).map((actor) => getEscalationRank(ACTOR_LEVEL_LIMITS[actor])));
+}
+
+// Levels the user can escalate the issue to. Reporters can only raise an issue
+// to the first level; raising it further is up to the department and admins.
+export function getEscalationLevels(
+  issue: Pick<Issue, "status" | "reporterId" | "department" | "escalationLevel">,
+  user: Pick<User, "id" | "role" | "department">
+): EscalationLevel[] {
+  if (RESOLVED_ISSUE_STATUSES.includes(issue.status)) return [];
+
+  const currentRank = getEscalationRank(issue.escalationLevel);
+  const limit = getLevelLimit(issue, user);
+  return ESCALATION_LEVELS.filter((_, rank) => rank > currentRank && rank <= limit);
+}
+
+// Department staff can de-escalate up to the department head level; only admins
+// can take an issue back from themselves
+export function canDeescalate(
+  issue: Pick<Issue, "reporterId" | "department" | "escalationLevel">,
+  user: Pick<User, "id" | "role" | "department">
+): boolean {
+  if (!issue.escalationLevel) return false;
+  const actors = getWorkflowActors(issue, user).filter((actor) => actor !== WorkflowActor.REPORTER);
+  return actors.some((actor) => getEscalationRank(ACTOR_LEVEL_LIMITS[actor]) >= getEscalationRank(issue.escalationLevel));
+}
+
+// Fields to change when an issue is escalated to a higher level. The working
+// status is remembered from the first escalation only.
+export function getEscalationUpdates(
+  issue: Issue,
+  escalation: NewEscalation,
+  now = new Date()
+): Pick<Issue, "status" | "escalationLevel" | "escalatedFromStatus" | "escalations"> {
+  return {
+    status: IssueStatus.ESCALATED,
+    escalationLevel: escalation.level,
+    escalatedFromStatus: issue.escalationLevel ? issue.escalatedFromStatus : issue.status,
+    escalations: [...issue.escalations, {
+      ...escalation,
+      escalatedAt: now.toISOString(),
+      deescalatedAt: null,
+      deescalatedBy: null,
+      deescalationReason: null
+    }]
+  };
+}
+
+// Fields to change when an escalated issue goes back to the department: every
+// level still open is closed with the same reason
+export function getDeescalationUpdates(
+  issue: Issue,
+  deescalatedBy: number,
+  reason: string,
+  now = new Date()
+): Pick<Issue, "status" | "escalationLevel" | "escalatedFromStatus" | "escalations"> {
+  return {
+    status: issue.escalatedFromStatus ?? IssueStatus.OPEN,
+    escalationLevel: null,
+    escalatedFromStatus: null,
+    escalations: issue.escalations.map((step) => step.deescalatedAt ? step : {
+      ...step,
+      deescalatedAt: now.toISOString(),
+      deescalatedBy,
+      deescalationReason: reason
+    })
+  };
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, varchar, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -46,6 +47,59 @@ export enum SLAStatus {
   COMPLETED = "completed"
 }
 
+// How the department resolved an issue, given when completing it
+export enum ResolutionCode {
+  FIXED = "fixed",
+  WORKAROUND = "workaround",
+  DUPLICATE = "duplicate",
+  WONT_FIX = "wont_fix",
+  USER_ERROR = "user_error",
+  CANNOT_REPRODUCE = "cannot_reproduce"
+}
+
+export const RESOLUTION_CODE_LABELS: Record<ResolutionCode, string> = {
+  [ResolutionCode.FIXED]: "Fixed",
+  [ResolutionCode.WORKAROUND]: "Workaround",
+  [ResolutionCode.DUPLICATE]: "Duplicate",
+  [ResolutionCode.WONT_FIX]: "Won't fix",
+  [ResolutionCode.USER_ERROR]: "User error",
+  [ResolutionCode.CANNOT_REPRODUCE]: "Cannot reproduce"
+};
+
+// What happens to the resolution SLA when a rejected issue is reopened
+export enum ReopenSlaBehavior {
+  EXTEND = "extend", // Time spent awaiting verification does not count
+  RESET = "reset" // The full resolution target starts again
+}
+
+// Escalation tiers, from the department's team lead up to the administrators
+export enum EscalationLevel {
+  TEAM_LEAD = "team_lead",
+  DEPARTMENT_HEAD = "department_head",
+  ADMIN = "admin"
+}
+
+// Who is asked to act on an automatic escalation
+export enum EscalationTarget {
+  DEPARTMENT = "department",
+  ADMIN = "admin"
+}
+
+// How new issues of a department are handed to its staff
+export enum AssignmentStrategy {
+  MANUAL = "manual", // Issues wait until someone assigns them
+  ROUND_ROBIN = "round_robin",
+  LEAST_OPEN = "least_open", // Whoever has the fewest open issues
+  SKILLS = "skills" // Best match between staff skills and the issue's text
+}
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  [AssignmentStrategy.MANUAL]: "Manual",
+  [AssignmentStrategy.ROUND_ROBIN]: "Round-robin",
+  [AssignmentStrategy.LEAST_OPEN]: "Fewest open issues",
+  [AssignmentStrategy.SKILLS]: "Skill tags"
+};
+
 // Users table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -55,10 +109,36 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   role: text("role").$type<UserRole>().notNull().default(UserRole.EMPLOYEE),
   department: text("department").$type<Department>().notNull(),
+  isActive: boolean("is_active").notNull().default(true), // Deactivated users cannot log in
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// A period in which an issue's SLA clock was stopped; resumedAt is null while it lasts
+export type SlaPause = { pausedAt: string; resumedAt: string | null };
+
+// One level an issue was escalated to; the de-escalation fields stay null while it lasts
+export type EscalationStep = {
+  level: EscalationLevel;
+  reason: string;
+  escalatedBy: number | null; // Null for escalation rules
+  escalatedAt: string;
+  ruleId?: number;
+  notify?: EscalationTarget; // Who the escalation rule alerted
+  deescalatedAt: string | null;
+  deescalatedBy: number | null;
+  deescalationReason: string | null;
+};
+
+// What is given when escalating an issue
+export type NewEscalation = Pick<EscalationStep, "level" | "reason" | "escalatedBy" | "ruleId" | "notify">;
+
 // Issues table
+// What full-text search looks through: the title weighted above the description,
+// above the comments. Queries must use this exact expression to use its index.
+export function issueSearchDocument(table: { title: AnyPgColumn; description: AnyPgColumn; comments: AnyPgColumn }): SQL {
+  return sql`(setweight(to_tsvector('english', ${table.title}), 'A') || setweight(to_tsvector('english', ${table.description}), 'B') || setweight(to_tsvector('english', coalesce(jsonb_path_query_array(${table.comments}::jsonb, '$[*].text')::text, '')), 'C'))`;
+}
+
 export const issues = pgTable("issues", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -70,35 +150,281 @@ export const issues = pgTable("issues", {
   assigneeId: integer("assignee_id"), // Department staff assigned to the issue
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  slaPolicyId: integer("sla_policy_id"), // Policy version the issue was created under
   dueBy: timestamp("due_by"), // SLA due date
+  slaStartedAt: timestamp("sla_started_at"), // Set when a reopen restarted the SLA; null means createdAt
   slaStatus: text("sla_status").$type<SLAStatus>().notNull().default(SLAStatus.ON_TRACK),
-  isEscalated: boolean("is_escalated").default(false),
+  responseDueBy: timestamp("response_due_by"), // First-response SLA due date
+  firstResponseAt: timestamp("first_response_at"), // First comment, assignment or status change by the department
+  responseSlaStatus: text("response_sla_status").$type<SLAStatus>().notNull().default(SLAStatus.ON_TRACK),
+  escalationLevel: text("escalation_level").$type<EscalationLevel>(), // Null unless escalated
+  escalatedFromStatus: text("escalated_from_status").$type<IssueStatus>(), // Status to return to on de-escalation
+  escalations: json("escalations").$type<EscalationStep[]>().notNull().default([]), // Escalation history, oldest first
+  slaPauses: json("sla_pauses").$type<SlaPause[]>().notNull().default([]), // Periods spent pending, SLA clock stopped
+  slaPausedMs: integer("sla_paused_ms").notNull().default(0), // Total length of the finished pauses
+  completedAt: timestamp("completed_at"), // When the department last marked the issue completed
+  resolutionSummary: text("resolution_summary"), // What the department did, given on completion
+  resolutionCode: text("resolution_code").$type<ResolutionCode>(),
+  resolvedAt: timestamp("resolved_at"), // When the issue was first verified or closed
+  reopenCount: integer("reopen_count").notNull().default(0), // Times the reporter rejected the resolution
+  autoCloseNoticeAt: timestamp("auto_close_notice_at"), // When the reporter was last warned of an automatic close
   comments: json("comments").default([])
-});
+}, (table) => [index("issues_search_idx").using("gin", issueSearchDocument(table))]);
 
 // Activities table for tracking actions on issues
 export const activities = pgTable("activities", {
   id: serial("id").primaryKey(),
   issueId: integer("issue_id").notNull(),
-  userId: integer("user_id").notNull(),
-  action: text("action").notNull(), // e.g., "created", "updated", "commented", "escalated"
+  userId: integer("user_id"), // Null for system events such as SLA transitions
+  action: text("action").notNull(), // e.g., "created", "updated", "commented", "escalated", "sla_breached"
+  details: json("details").default({}),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Audit trail for account-level actions (registration, role changes, ...)
+export const userActivities = pgTable("user_activities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(), // User the action was performed on
+  actorId: integer("actor_id").notNull(), // User who performed the action
+  action: text("action").notNull(), // e.g., "registered", "role_changed"
   details: json("details").default({}),
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// Rules that escalate issues automatically once their SLA is at risk or breached
+export const escalationRules = pgTable("escalation_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  priority: text("priority").$type<SLAPriority>(), // Null matches every priority
+  slaStatus: text("sla_status").$type<SLAStatus>().notNull(), // at_risk or breached
+  delayMinutes: integer("delay_minutes").notNull().default(0), // Time spent in that SLA state before firing
+  notify: text("notify").$type<EscalationTarget>().notNull(),
+  level: text("level").$type<EscalationLevel>().notNull().default(EscalationLevel.TEAM_LEAD), // Level the issue is raised to
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+// Formal instructions from an admin to the department handling an escalated
+// issue; the department acknowledges each one
+export const departmentActions = pgTable("department_actions", {
+  id: serial("id").primaryKey(),
+  issueId: integer("issue_id").notNull(),
+  department: text("department").$type<Department>().notNull(), // Department the instruction was given to
+  instruction: text("instruction").notNull(),
+  reason: text("reason").notNull(),
+  deadline: timestamp("deadline").notNull(), // When the department has to have acted by
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  acknowledgedAt: timestamp("acknowledged_at"), // Null until the department acknowledges it
+  acknowledgedBy: integer("acknowledged_by")
+});
+
+// Response and resolution targets per department and priority. Policies are
+// never edited in place: a change adds a new version, so existing issues keep
+// the targets they were created under.
+export const slaPolicies = pgTable("sla_policies", {
+  id: serial("id").primaryKey(),
+  department: text("department").$type<Department>().notNull(),
+  priority: text("priority").$type<SLAPriority>().notNull(),
+  version: integer("version").notNull(),
+  responseMinutes: integer("response_minutes").notNull(), // Working time allowed until first response
+  resolutionMinutes: integer("resolution_minutes").notNull(), // Working time allowed until resolution
+  reopenBehavior: text("reopen_behavior").$type<ReopenSlaBehavior>().notNull().default(ReopenSlaBehavior.EXTEND),
+  createdBy: integer("created_by"), // Null for the built-in defaults
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => [uniqueIndex("sla_policies_version_idx").on(table.department, table.priority, table.version)]);
+
+// Working hours for a single day in the calendar's time zone, as "HH:mm"
+export type WorkingHours = { start: string; end: string };
+
+// One entry per weekday, Sunday first; null means the department is closed that day
+export type WeeklySchedule = (WorkingHours | null)[];
+
+// Per-department business hours that SLA timers run on
+export const slaCalendars = pgTable("sla_calendars", {
+  id: serial("id").primaryKey(),
+  department: text("department").$type<Department>().notNull().unique(),
+  timeZone: text("time_zone").notNull(), // IANA name, e.g. "Europe/London"
+  workingHours: json("working_hours").$type<WeeklySchedule>().notNull(),
+  holidays: json("holidays").$type<string[]>().notNull().default([]), // "YYYY-MM-DD" dates in the calendar's time zone
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+// Skill tags of one member of staff, matched against the words of an issue
+export type MemberSkills = { userId: number; skills: string[] };
+
+// Automatic assignment settings per department; departments without a row are assigned manually
+export const assignmentSettings = pgTable("assignment_settings", {
+  id: serial("id").primaryKey(),
+  department: text("department").$type<Department>().notNull().unique(),
+  strategy: text("strategy").$type<AssignmentStrategy>().notNull().default(AssignmentStrategy.MANUAL),
+  excludedUserIds: json("excluded_user_ids").$type<number[]>().notNull().default([]), // e.g. staff on leave
+  memberSkills: json("member_skills").$type<MemberSkills[]>().notNull().default([]),
+  lastAssigneeId: integer("last_assignee_id"), // Where the round-robin rotation continues from
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+// Login sessions, managed by connect-pg-simple. Declared here so that
+// `db:push` keeps the table instead of dropping it as unknown.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull()
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  role: z.nativeEnum(UserRole).optional(),
+  department: z.nativeEnum(Department)
+}).omit({
   id: true,
   createdAt: true
 });
 
-export const insertIssueSchema = createInsertSchema(issues).omit({
+// Self-registration only accepts profile fields; role is always employee
+export const registerUserSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+  fullName: true,
+  email: true,
+  department: true
+}).extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  fullName: z.string().trim().min(1, "Full name is required"),
+  email: z.string().trim().email("Enter a valid email address"),
+  inviteCode: z.string().trim().optional()
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.nativeEnum(UserRole),
+  department: z.nativeEnum(Department).optional(),
+  reason: z.string().trim().max(500).optional()
+});
+
+export const updateUserStatusSchema = z.object({
+  isActive: z.boolean(),
+  reason: z.string().trim().max(500).optional()
+});
+
+// The new password's strength is checked on the server against the password policy
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required")
+});
+
+// Reporters describe the issue; everything the workflow owns (status,
+// assignment, SLA, escalation, resolution and comments) is set by the server
+export const insertIssueSchema = createInsertSchema(issues, {
+  department: z.nativeEnum(Department),
+  priority: z.nativeEnum(SLAPriority)
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  status: true,
   assigneeId: true,
-  isEscalated: true,
-  slaStatus: true
+  escalationLevel: true,
+  escalatedFromStatus: true,
+  escalations: true,
+  slaStatus: true,
+  slaPauses: true,
+  slaPausedMs: true,
+  completedAt: true,
+  resolutionSummary: true,
+  resolutionCode: true,
+  resolvedAt: true,
+  reopenCount: true,
+  autoCloseNoticeAt: true,
+  slaStartedAt: true,
+  slaPolicyId: true,
+  dueBy: true,
+  responseDueBy: true,
+  firstResponseAt: true,
+  responseSlaStatus: true,
+  comments: true
+});
+
+export const updateIssueStatusSchema = z.object({
+  status: z.nativeEnum(IssueStatus),
+  note: z.string().trim().max(1000).optional(),
+  resolutionSummary: z.string().trim().max(2000).optional(),
+  resolutionCode: z.nativeEnum(ResolutionCode).optional()
+});
+
+// A null assignee takes the issue off its current assignee
+export const assignIssueSchema = z.object({
+  assigneeId: z.number().int().positive().nullable()
+});
+
+export const updateIssuePrioritySchema = z.object({
+  priority: z.nativeEnum(SLAPriority),
+  justification: z.string().trim().min(1, "A justification is required").max(500)
+});
+
+export const escalateIssueSchema = z.object({
+  level: z.nativeEnum(EscalationLevel).optional(), // Defaults to the next level up
+  reason: z.string().trim().max(500).optional()
+});
+
+export const deescalateIssueSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required").max(500)
+});
+
+// Fields a paged issue list can be sorted by
+export const ISSUE_SORT_FIELDS = ["createdAt", "updatedAt", "priority", "dueBy", "resolvedAt"] as const;
+
+// Where a page of a sorted issue list starts: after (or, when paging backwards,
+// before) the issue with this sort value and id
+export const issueCursorSchema = z.object({
+  sort: z.enum(ISSUE_SORT_FIELDS),
+  order: z.enum(["asc", "desc"]),
+  direction: z.enum(["after", "before"]),
+  value: z.number().nullable(),
+  id: z.number().int()
+});
+
+// Query string of the paged issue lists; several statuses are separated by
+// commas and assigneeId=none matches unassigned issues. Cursors are opaque
+// strings handed out with each page and take precedence over page.
+export const issueListQuerySchema = z.object({
+  status: z.string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.nativeEnum(IssueStatus)))
+    .optional(),
+  department: z.nativeEnum(Department).optional(),
+  priority: z.nativeEnum(SLAPriority).optional(),
+  slaStatus: z.nativeEnum(SLAStatus).optional(),
+  assigneeId: z.union([
+    z.literal("none").transform(() => null),
+    z.coerce.number().int().positive()
+  ]).optional(),
+  reporterId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  q: z.string().trim().max(200).optional(),
+  sort: z.enum(ISSUE_SORT_FIELDS).default("updatedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string()
+    .transform((value, ctx) => {
+      try {
+        return issueCursorSchema.parse(JSON.parse(atob(value)));
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+        return z.NEVER;
+      }
+    })
+    .optional()
+}).refine((query) => !query.cursor || (query.cursor.sort === query.sort && query.cursor.order === query.order), {
+  message: "Cursor belongs to a different sort order",
+  path: ["cursor"]
+});
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Enter something to search for").max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20)
 });
 
 export const insertActivitySchema = createInsertSchema(activities).omit({
@@ -106,22 +432,174 @@ export const insertActivitySchema = createInsertSchema(activities).omit({
   createdAt: true
 });
 
+export const insertUserActivitySchema = createInsertSchema(userActivities).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertEscalationRuleSchema = createInsertSchema(escalationRules, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  priority: z.nativeEnum(SLAPriority).nullable().optional(),
+  slaStatus: z.enum([SLAStatus.AT_RISK, SLAStatus.BREACHED]),
+  delayMinutes: z.number().int().min(0).max(60 * 24 * 30).optional(),
+  notify: z.nativeEnum(EscalationTarget),
+  level: z.nativeEnum(EscalationLevel).optional(),
+  isEnabled: z.boolean().optional()
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const updateEscalationRuleSchema = insertEscalationRuleSchema.partial();
+
+export const insertDepartmentActionSchema = createInsertSchema(departmentActions, {
+  department: z.nativeEnum(Department),
+  instruction: z.string().trim().min(1, "An instruction is required").max(1000),
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+  deadline: z.coerce.date().refine((deadline) => deadline > new Date(), "The deadline must be in the future")
+}).omit({
+  id: true,
+  createdAt: true,
+  acknowledgedAt: true,
+  acknowledgedBy: true
+});
+
+// What an admin gives; the department and author come from the issue and session
+export const takeDepartmentActionSchema = insertDepartmentActionSchema.pick({
+  issueId: true,
+  instruction: true,
+  reason: true,
+  deadline: true
+});
+
+// Up to 90 days of working time
+const slaTargetMinutes = z.number().int().min(1, "Targets must be at least a minute").max(60 * 24 * 90);
+
+export const insertSlaPolicySchema = createInsertSchema(slaPolicies, {
+  department: z.nativeEnum(Department),
+  priority: z.nativeEnum(SLAPriority),
+  responseMinutes: slaTargetMinutes,
+  resolutionMinutes: slaTargetMinutes,
+  reopenBehavior: z.nativeEnum(ReopenSlaBehavior).optional()
+}).omit({
+  id: true,
+  version: true,
+  createdAt: true
+}).refine((policy) => policy.responseMinutes <= policy.resolutionMinutes, {
+  message: "The response target cannot be longer than the resolution target",
+  path: ["responseMinutes"]
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Use HH:mm");
+
+const workingHoursSchema = z.object({
+  start: timeOfDay,
+  end: timeOfDay
+}).refine((hours) => hours.start < hours.end, "Closing time must be after opening time");
+
+function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+export const insertSlaCalendarSchema = createInsertSchema(slaCalendars, {
+  department: z.nativeEnum(Department),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+  workingHours: z.array(workingHoursSchema.nullable())
+    .length(7, "Provide working hours for every day of the week")
+    .refine((days) => days.some((day) => day !== null), "At least one day must have working hours"),
+  holidays: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")).optional()
+}).omit({
+  id: true,
+  updatedAt: true
+});
+
+export const insertAssignmentSettingsSchema = createInsertSchema(assignmentSettings, {
+  department: z.nativeEnum(Department),
+  strategy: z.nativeEnum(AssignmentStrategy),
+  excludedUserIds: z.array(z.number().int().positive()).optional(),
+  memberSkills: z.array(z.object({
+    userId: z.number().int().positive(),
+    skills: z.array(z.string().trim().toLowerCase().min(1).max(50)).max(20, "At most 20 skills per person")
+  })).optional()
+}).omit({
+  id: true,
+  lastAssigneeId: true,
+  updatedAt: true
+});
+
+export const previewSlaCalendarSchema = insertSlaCalendarSchema.extend({
+  from: z.coerce.date().optional()
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type UpdateUserRole = z.infer<typeof updateUserRoleSchema>;
+export type UpdateUserStatus = z.infer<typeof updateUserStatusSchema>;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+
+export type InsertEscalationRule = z.infer<typeof insertEscalationRuleSchema>;
+export type UpdateEscalationRule = z.infer<typeof updateEscalationRuleSchema>;
+export type EscalationRule = typeof escalationRules.$inferSelect;
+
+export type InsertDepartmentAction = z.infer<typeof insertDepartmentActionSchema>;
+export type TakeDepartmentAction = z.infer<typeof takeDepartmentActionSchema>;
+export type DepartmentAction = typeof departmentActions.$inferSelect;
+
+export type InsertSlaPolicy = z.infer<typeof insertSlaPolicySchema>;
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+
+export type InsertSlaCalendar = z.infer<typeof insertSlaCalendarSchema>;
+export type SlaCalendar = typeof slaCalendars.$inferSelect;
+// The fields SLA calculations need; stored calendars and previews both fit
+export type SlaCalendarSettings = Pick<SlaCalendar, "timeZone" | "workingHours" | "holidays">;
+
+export type InsertAssignmentSettings = z.infer<typeof insertAssignmentSettingsSchema>;
+export type AssignmentSettings = typeof assignmentSettings.$inferSelect;
+
+export type InsertUserActivity = z.infer<typeof insertUserActivitySchema>;
+export type UserActivity = typeof userActivities.$inferSelect;
 
 export type InsertIssue = z.infer<typeof insertIssueSchema>;
+export type UpdateIssueStatus = z.infer<typeof updateIssueStatusSchema>;
+export type AssignIssue = z.infer<typeof assignIssueSchema>;
+export type UpdateIssuePriority = z.infer<typeof updateIssuePrioritySchema>;
+export type EscalateIssue = z.infer<typeof escalateIssueSchema>;
+export type DeescalateIssue = z.infer<typeof deescalateIssueSchema>;
+export type IssueSortField = typeof ISSUE_SORT_FIELDS[number];
+export type IssueCursor = z.infer<typeof issueCursorSchema>;
+export type IssueListQuery = z.infer<typeof issueListQuerySchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
 export type Issue = typeof issues.$inferSelect;
+export type IssueResolution = { resolutionSummary: string; resolutionCode: ResolutionCode };
 
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 export type Activity = typeof activities.$inferSelect;
 
-// Calculate SLA times based on priority (in hours)
-export const SLATimes = {
-  [SLAPriority.LOW]: 48,
-  [SLAPriority.MEDIUM]: 24,
-  [SLAPriority.HIGH]: 8,
-  [SLAPriority.CRITICAL]: 4
+// Statuses in which an issue still needs work from the department
+export const OPEN_ISSUE_STATUSES = [
+  IssueStatus.OPEN,
+  IssueStatus.IN_PROGRESS,
+  IssueStatus.PENDING,
+  IssueStatus.REJECTED,
+  IssueStatus.ESCALATED
+];
+
+// Statuses with a final SLA outcome; the SLA worker no longer evaluates them
+export const RESOLVED_ISSUE_STATUSES = [IssueStatus.VERIFIED, IssueStatus.CLOSED];
+
+// Used for departments without a calendar: SLA timers run around the clock
+export const ALWAYS_OPEN_CALENDAR: SlaCalendarSettings = {
+  timeZone: "UTC",
+  workingHours: Array.from({ length: 7 }, () => ({ start: "00:00", end: "24:00" })),
+  holidays: []
 };
 
 // Comment type for issue comments
@@ -132,3 +610,164 @@ export type Comment = {
   text: string;
   timestamp: Date;
 };
+
+// Filters for the admin user list
+export type UserFilters = {
+  query?: string;
+  role?: UserRole;
+  department?: Department;
+  isActive?: boolean;
+};
+
+// The issues a list or summary covers before the user's own filters; an empty
+// scope covers every issue
+export type IssueScope = {
+  reporterId?: number;
+  assigneeId?: number;
+  involvedUserId?: number; // Reported by or assigned to this user
+  department?: Department;
+  statuses?: IssueStatus[];
+  needsAttention?: boolean; // Escalated, or the SLA is at risk or breached
+};
+
+// Resolved issues of a department and how long they took, excluding time spent pending
+export type ResolutionTime = {
+  resolved: number;
+  averageHours: number | null;
+};
+
+// Completed, verified and closed issues by how the department resolved them
+export type ResolutionCodeCounts = Record<ResolutionCode, number>;
+
+// Issues of a department the reporter rejected, out of those it completed
+export type ReopenRate = {
+  completed: number;
+  reopened: number;
+  percent: number | null;
+};
+
+// Number of open issues a user reported or is assigned to
+export type UserIssueCounts = {
+  reported: number;
+  assigned: number;
+};
+
+// User fields that are safe to send to the browser; the password hash never leaves the server
+export type PublicUser = Omit<User, "password">;
+
+// Compact reference to a user, embedded in responses instead of bare ids
+export type UserSummary = Pick<User, "id" | "fullName" | "department" | "role">;
+
+export type IssueWithUsers = Issue & {
+  reporter: UserSummary | null;
+  assignee: UserSummary | null;
+};
+
+// One page of an issue list, with the number of issues across all pages and
+// the cursors of the pages either side (null at either end)
+export type IssuePage = {
+  issues: IssueWithUsers[];
+  total: number;
+  offset: number;
+  pageSize: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
+// A page as storage returns it, before the issues are serialized
+export type IssueQueryResult = Omit<IssuePage, "issues"> & { issues: Issue[] };
+
+// Text from an issue with the parts that matched a search, as [start, end)
+// character ranges
+export type SearchSnippet = {
+  field: "title" | "description" | "comment";
+  author: string | null; // Who wrote the comment
+  text: string;
+  highlights: [number, number][];
+};
+
+export type SearchResult = {
+  issue: Pick<Issue, "id" | "title" | "status" | "department" | "priority" | "updatedAt">;
+  score: number;
+  title: SearchSnippet;
+  snippets: SearchSnippet[];
+};
+
+export type SearchResults = {
+  results: SearchResult[];
+  total: number;
+};
+
+// Counts for the dashboard over every issue a user can see
+export type IssueSummary = {
+  total: number;
+  open: number;
+  resolved: number;
+  onTrack: number;
+  escalated: number;
+};
+
+export type ActivityWithUser = Activity & {
+  user: UserSummary | null;
+};
+
+// An activity in the dashboard feed, with the title of its issue
+export type RecentActivity = ActivityWithUser & {
+  issueTitle: string | null;
+};
+
+// A user as listed in the admin console
+export type ManagedUser = PublicUser & {
+  openIssues: UserIssueCounts;
+};
+
+// An open issue as listed on the team workload page
+export type WorkloadIssue = Pick<Issue, "id" | "title" | "status" | "priority" | "slaStatus" | "dueBy" | "createdAt">;
+
+// Open issues held by one member of staff, or by nobody when member is null
+export type MemberWorkload = {
+  member: UserSummary | null;
+  isAssignable: boolean; // False for holders who have since left the department or been deactivated
+  open: number;
+  inProgress: number;
+  pending: number;
+  total: number; // Every open status, including rejected and escalated
+  breached: number;
+  atRisk: number;
+  oldestCreatedAt: Date | null;
+  issues: WorkloadIssue[]; // Oldest first
+};
+
+export type TeamWorkload = {
+  department: Department;
+  unassigned: MemberWorkload;
+  members: MemberWorkload[];
+};
+
+// Health of the background SLA worker, as shown to admins
+export type SlaWorkerStatus = {
+  enabled: boolean;
+  intervalSeconds: number;
+  isRunning: boolean;
+  lastRunStartedAt: string | null;
+  lastRunFinishedAt: string | null;
+  lastRunDurationMs: number | null;
+  lastRunError: string | null;
+  failedIssueIds: number[]; // Issues whose SLA could not be checked in the last run
+  issuesChecked: number;
+  transitions: number;
+  escalations: number;
+  autoCloseNotices: number;
+  autoClosed: number;
+  nextRunAt: string | null;
+};
+
+// An active login session, as listed to admins
+export type UserSession = {
+  sid: string;
+  userId: number;
+  expiresAt: string | null;
+  loginAt: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
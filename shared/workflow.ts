@@ -0,0 +1,133 @@
+import { type Issue, type User, IssueStatus, UserRole } from "./schema";
+
+// Issue workflow shared by the server, which enforces it, and the client, which
+// only offers the transitions a user can take. Escalation is a separate action
+// (see escalation.ts): an escalated issue has no transitions until it is
+// de-escalated back to the status it was escalated from.
+
+// Who may take a transition, relative to the issue
+export enum WorkflowActor {
+  REPORTER = "reporter",
+  DEPARTMENT = "department", // staff of the issue's department
+  ADMIN = "admin"
+}
+
+// Input a transition can require, in addition to the new status
+export type WorkflowField = "note" | "resolutionSummary" | "resolutionCode";
+
+// Values given for a transition's fields
+export type WorkflowInput = Partial<Record<WorkflowField, string>>;
+
+// How a field is referred to in messages
+export const WORKFLOW_FIELD_NAMES: Record<WorkflowField, string> = {
+  note: "note",
+  resolutionSummary: "resolution summary",
+  resolutionCode: "resolution code"
+};
+
+export type WorkflowTransition = {
+  from: IssueStatus[];
+  to: IssueStatus;
+  label: string;
+  actors: WorkflowActor[];
+  // Required fields with the prompt shown for each
+  requiredFields?: Partial<Record<WorkflowField, string>>;
+  // Show the department's resolution before the transition is confirmed
+  showsResolution?: boolean;
+  // The SLA worker also takes it once nobody has acted in time (see auto-close.ts)
+  automatic?: boolean;
+};
+
+export const ISSUE_WORKFLOW: WorkflowTransition[] = [
+  {
+    from: [IssueStatus.OPEN],
+    to: IssueStatus.IN_PROGRESS,
+    label: "Mark In Progress",
+    actors: [WorkflowActor.DEPARTMENT, WorkflowActor.ADMIN]
+  },
+  {
+    from: [IssueStatus.IN_PROGRESS],
+    to: IssueStatus.PENDING,
+    label: "Mark as Pending",
+    actors: [WorkflowActor.DEPARTMENT, WorkflowActor.ADMIN]
+  },
+  {
+    from: [IssueStatus.PENDING, IssueStatus.REJECTED],
+    to: IssueStatus.IN_PROGRESS,
+    label: "Resume Work",
+    actors: [WorkflowActor.DEPARTMENT, WorkflowActor.ADMIN]
+  },
+  {
+    from: [IssueStatus.IN_PROGRESS, IssueStatus.PENDING],
+    to: IssueStatus.COMPLETED,
+    label: "Mark as Completed",
+    actors: [WorkflowActor.DEPARTMENT, WorkflowActor.ADMIN],
+    requiredFields: {
+      resolutionCode: "Resolution",
+      resolutionSummary: "What was done to resolve the issue?"
+    }
+  },
+  {
+    from: [IssueStatus.COMPLETED],
+    to: IssueStatus.VERIFIED,
+    label: "Verify Resolution",
+    actors: [WorkflowActor.REPORTER],
+    showsResolution: true,
+    automatic: true
+  },
+  {
+    from: [IssueStatus.COMPLETED],
+    to: IssueStatus.REJECTED,
+    label: "Reject Resolution",
+    actors: [WorkflowActor.REPORTER],
+    requiredFields: { note: "Why doesn't the resolution fix the issue?" },
+    showsResolution: true
+  },
+  {
+    from: [IssueStatus.VERIFIED],
+    to: IssueStatus.CLOSED,
+    label: "Close Issue",
+    actors: [WorkflowActor.DEPARTMENT, WorkflowActor.ADMIN],
+    automatic: true
+  }
+];
+
+// The roles a user plays for an issue; empty if they have no say in its workflow
+export function getWorkflowActors(
+  issue: Pick<Issue, "reporterId" | "department">,
+  user: Pick<User, "id" | "role" | "department">
+): WorkflowActor[] {
+  const actors: WorkflowActor[] = [];
+  if (issue.reporterId === user.id) actors.push(WorkflowActor.REPORTER);
+  if (user.role === UserRole.DEPARTMENT && user.department === issue.department) actors.push(WorkflowActor.DEPARTMENT);
+  if (user.role === UserRole.ADMIN) actors.push(WorkflowActor.ADMIN);
+  return actors;
+}
+
+// Transitions the user can take from the issue's current status
+export function getAvailableTransitions(
+  issue: Pick<Issue, "status" | "reporterId" | "department">,
+  user: Pick<User, "id" | "role" | "department">
+): WorkflowTransition[] {
+  const actors = getWorkflowActors(issue, user);
+  return ISSUE_WORKFLOW.filter((transition) =>
+    transition.from.includes(issue.status) &&
+    transition.actors.some((actor) => actors.includes(actor))
+  );
+}
+
+// The transition between two statuses that may be taken automatically, if any
+export function getAutomaticTransition(from: IssueStatus, to: IssueStatus): WorkflowTransition | undefined {
+  return ISSUE_WORKFLOW.find((transition) =>
+    transition.automatic && transition.from.includes(from) && transition.to === to
+  );
+}
+
+// Required fields of a transition that are missing from the given input
+export function getMissingFields(
+  transition: WorkflowTransition,
+  input: WorkflowInput
+): WorkflowField[] {
+  return (Object.keys(transition.requiredFields ?? {}) as WorkflowField[])
+    .filter((field) => !input[field]?.trim());
+}